@@ -1,191 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { buildAdvisorPrompt } from "@/lib/ai-prompts";
-import { callCliBridge } from "@/lib/cli-bridge";
+import { buildAdvisorPrompt, buildCouncilPrompt } from "@/lib/ai-prompts";
+import { generateStructured, validateProviderConfig, ProviderConfig } from "@/lib/ai-provider";
+import { advisorSchema, councilSchema, AdvisorCategory } from "@/lib/ai-schemas";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import type { AdvisorAddressee, GameDate } from "@/lib/types";
+import { isMinisterId } from "@/lib/council";
 
 // ---------------------------------------------------------------------------
-// Constants & Helpers
+// Constants
 // ---------------------------------------------------------------------------
 
-const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
-const FALLBACK_GEMINI_MODELS = [
-  "gemini-3-flash-preview",
-  "gemini-2.5-flash",
-  "gemini-flash-latest",
-];
-
-const normalizeGeminiModel = (model: string | undefined): string => {
-  if (!model) return DEFAULT_GEMINI_MODEL;
-  const trimmed = model.trim();
-  if (!trimmed) return DEFAULT_GEMINI_MODEL;
-  return trimmed.startsWith("models/") ? trimmed.slice("models/".length) : trimmed;
-};
-
-const isModelSelectionError = (error: unknown): boolean => {
-  const message = error instanceof Error ? error.message.toLowerCase() : "";
-  return (
-    message.includes("not found") ||
-    message.includes("unsupported") ||
-    message.includes("invalid model") ||
-    message.includes("404")
-  );
-};
-
-// ---------------------------------------------------------------------------
-// Response types
-// ---------------------------------------------------------------------------
-
-type AdvisorCategory = "military" | "diplomacy" | "economy" | "domestic" | "general";
-
-interface AdvisorResponse {
-  advice: string;
-  category: AdvisorCategory;
-  suggestedActions: string[];
-}
-
-const VALID_CATEGORIES: AdvisorCategory[] = [
-  "military",
-  "diplomacy",
-  "economy",
-  "domestic",
-  "general",
-];
-
-const sanitizeAdvisorResponse = (raw: unknown): AdvisorResponse => {
-  const payload = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
-
-  const advice =
-    typeof payload.advice === "string" && payload.advice.trim()
-      ? payload.advice.trim()
-      : "My liege, I must confess that the situation confounds even my years of experience. Allow me a moment to gather my thoughts and consult the archives.";
-
-  const category: AdvisorCategory =
-    typeof payload.category === "string" &&
-    VALID_CATEGORIES.includes(payload.category as AdvisorCategory)
-      ? (payload.category as AdvisorCategory)
-      : "general";
-
-  let suggestedActions: string[] = [];
-  if (Array.isArray(payload.suggestedActions)) {
-    suggestedActions = payload.suggestedActions
-      .filter((a): a is string => typeof a === "string" && a.trim().length > 0)
-      .map((a) => a.trim())
-      .slice(0, 5);
-  }
-
-  // Ensure at least one suggestion
-  if (suggestedActions.length === 0) {
-    suggestedActions = ["Review the current diplomatic situation"];
-  }
-
-  return { advice, category, suggestedActions };
-};
-
-const extractJson = (text: string): string => {
-  return (
-    text
-      .replace(/```json/g, "")
-      .replace(/```/g, "")
-      .match(/(\{[\s\S]*\})/)?.[1] || text.trim()
-  );
-};
-
-// ---------------------------------------------------------------------------
-// AI provider dispatch
-// ---------------------------------------------------------------------------
-
-async function callProvider(
-  prompt: string,
-  config: { provider: string; apiKey: string; model: string }
-): Promise<string> {
-  switch (config.provider) {
-    case "local": {
-      return callCliBridge({
-        provider: config.model || "claude",
-        prompt,
-        systemPrompt: "You are a JSON-only response bot for a grand strategy game's advisor system. Never explain your answer, only return valid JSON.",
-      });
-    }
-    case "google": {
-      const genAI = new GoogleGenerativeAI(config.apiKey);
-      const preferredModel = normalizeGeminiModel(config.model);
-
-      const requestGemini = async (modelName: string): Promise<string> => {
-        const model = genAI.getGenerativeModel({
-          model: modelName,
-          generationConfig: { responseMimeType: "application/json" },
-        });
-        const result = await model.generateContent(prompt);
-        return result.response.text();
-      };
-
-      const modelCandidates = Array.from(
-        new Set([preferredModel, ...FALLBACK_GEMINI_MODELS])
-      );
-
-      let lastModelError: unknown = null;
-      for (const modelName of modelCandidates) {
-        try {
-          const text = await requestGemini(modelName);
-          return text;
-        } catch (error) {
-          if (!isModelSelectionError(error)) throw error;
-          lastModelError = error;
-        }
-      }
-
-      if (lastModelError) throw lastModelError;
-      return "{}";
-    }
-
-    case "deepseek": {
-      const deepseek = new OpenAI({
-        apiKey: config.apiKey,
-        baseURL: "https://api.deepseek.com",
-      });
-      const completion = await deepseek.chat.completions.create({
-        messages: [{ role: "system", content: prompt }],
-        model: config.model,
-      });
-      return completion.choices[0].message.content || "{}";
-    }
-
-    case "openai": {
-      const openai = new OpenAI({ apiKey: config.apiKey });
-      const isOSeries = config.model.startsWith("o");
-      const completion = await openai.chat.completions.create({
-        messages: [{ role: isOSeries ? "user" : "system", content: prompt }],
-        model: config.model,
-        response_format:
-          config.model.includes("gpt-4o") || config.model.includes("o3")
-            ? { type: "json_object" }
-            : undefined,
-      });
-      return completion.choices[0].message.content || "{}";
-    }
-
-    case "anthropic": {
-      const anthropic = new Anthropic({ apiKey: config.apiKey });
-      const msg = await anthropic.messages.create({
-        model: config.model,
-        max_tokens: 1536,
-        system:
-          "You are a JSON-only response bot for a grand strategy game's advisor system. Never explain your answer, only return valid JSON.",
-        messages: [{ role: "user", content: prompt }],
-      });
-      if (msg.content[0].type === "text") {
-        return msg.content[0].text;
-      }
-      return "{}";
-    }
-
-    default:
-      throw new Error(`Unsupported provider: ${config.provider}`);
-  }
-}
+const SYSTEM_PROMPT =
+  "You are a JSON-only response bot for a grand strategy game's advisor system. Never explain your answer, only return valid JSON.";
 
 // ---------------------------------------------------------------------------
 // POST /api/advisor
@@ -213,21 +39,24 @@ export async function POST(req: NextRequest) {
       history,
       config,
       promptOverrides,
+      addressee,
     } = body as {
       question: string;
       playerNation: string;
-      gameContext: { year: number; scenario: string; difficulty: string };
-      recentEvents?: Array<{ year: number; description: string }>;
+      gameContext: { year: number; date?: GameDate; scenario: string; difficulty: string };
+      recentEvents?: Array<{ year: number; date?: GameDate; description: string }>;
       relations?: Array<{ nationA: string; nationB: string; type: string }>;
       history?: Array<{ content: string; role: string }>;
-      config: { provider: string; apiKey: string; model: string };
+      config: ProviderConfig;
       promptOverrides?: Record<string, string>;
+      addressee?: AdvisorAddressee;
     };
 
     // --- Validation ---
-    if (config?.provider !== "local" && !config?.apiKey) {
+    const configError = validateProviderConfig(config);
+    if (configError) {
       return NextResponse.json(
-        { error: "API Key missing" },
+        { error: configError },
         { status: 400 }
       );
     }
@@ -239,7 +68,7 @@ export async function POST(req: NextRequest) {
     }
 
     // --- Build prompt ---
-    const prompt = buildAdvisorPrompt({
+    const promptArgs = {
       question,
       playerNation,
       gameContext: gameContext || { year: 2026, scenario: "", difficulty: "Realistic" },
@@ -247,17 +76,29 @@ export async function POST(req: NextRequest) {
       relations: relations || [],
       history: history || [],
       promptOverrides,
-    });
+    };
 
-    // --- Call AI ---
-    const responseText = await callProvider(prompt, config);
+    // --- Whole council: a multi-voice debate, answered with the consensus as `advice` ---
+    if (addressee === "council") {
+      const { value, rejected } = await generateStructured(buildCouncilPrompt(promptArgs), SYSTEM_PROMPT, councilSchema, {
+        config,
+        maxTokens: 2560,
+      });
+      const { consensus, ...rest } = value;
+      return NextResponse.json({ advice: consensus, ...rest, rejected });
+    }
 
-    // --- Parse & sanitize ---
-    const cleanJson = extractJson(responseText);
-    const parsed = JSON.parse(cleanJson);
-    const sanitized = sanitizeAdvisorResponse(parsed);
+    // --- Grand Advisor or a single minister (validated against advisorSchema, with repair retries) ---
+    const prompt = buildAdvisorPrompt({
+      ...promptArgs,
+      addressee: isMinisterId(addressee) ? addressee : "advisor",
+    });
+    const { value, rejected } = await generateStructured(prompt, SYSTEM_PROMPT, advisorSchema, {
+      config,
+      maxTokens: 1536,
+    });
 
-    return NextResponse.json(sanitized);
+    return NextResponse.json({ ...value, rejected });
   } catch (error) {
     console.error("Advisor Error:", error);
 
@@ -1,182 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { buildDiplomacyPrompt } from "@/lib/ai-prompts";
-import { callCliBridge } from "@/lib/cli-bridge";
+import { buildConferencePrompt, buildDiplomacyPrompt } from "@/lib/ai-prompts";
+import { generateStructured, validateProviderConfig, ProviderConfig } from "@/lib/ai-provider";
+import { conferenceSchema, diplomacySchema, DiplomacyTone } from "@/lib/ai-schemas";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import type { GameDate, OpinionModifier, RelationChangeEntry, Treaty } from "@/lib/types";
 
 // ---------------------------------------------------------------------------
-// Constants & Helpers
+// Constants
 // ---------------------------------------------------------------------------
 
-const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
-const FALLBACK_GEMINI_MODELS = [
-  "gemini-3-flash-preview",
-  "gemini-2.5-flash",
-  "gemini-flash-latest",
-];
-
-const normalizeGeminiModel = (model: string | undefined): string => {
-  if (!model) return DEFAULT_GEMINI_MODEL;
-  const trimmed = model.trim();
-  if (!trimmed) return DEFAULT_GEMINI_MODEL;
-  return trimmed.startsWith("models/") ? trimmed.slice("models/".length) : trimmed;
-};
-
-const isModelSelectionError = (error: unknown): boolean => {
-  const message = error instanceof Error ? error.message.toLowerCase() : "";
-  return (
-    message.includes("not found") ||
-    message.includes("unsupported") ||
-    message.includes("invalid model") ||
-    message.includes("404")
-  );
-};
-
-// ---------------------------------------------------------------------------
-// Response types
-// ---------------------------------------------------------------------------
-
-type DiplomacyTone = "friendly" | "neutral" | "hostile" | "threatening";
-
-interface DiplomacyResponse {
-  message: string;
-  tone: DiplomacyTone;
-  relationChange: { newType: string; reason: string } | null;
-}
-
-const VALID_TONES: DiplomacyTone[] = ["friendly", "neutral", "hostile", "threatening"];
-
-const sanitizeDiplomacyResponse = (raw: unknown): DiplomacyResponse => {
-  const payload = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
-
-  const message =
-    typeof payload.message === "string" && payload.message.trim()
-      ? payload.message.trim()
-      : "... *The envoy delivers an unintelligible response.*";
-
-  const tone: DiplomacyTone =
-    typeof payload.tone === "string" && VALID_TONES.includes(payload.tone as DiplomacyTone)
-      ? (payload.tone as DiplomacyTone)
-      : "neutral";
-
-  let relationChange: DiplomacyResponse["relationChange"] = null;
-  if (payload.relationChange && typeof payload.relationChange === "object") {
-    const rc = payload.relationChange as Record<string, unknown>;
-    if (typeof rc.newType === "string" && typeof rc.reason === "string") {
-      relationChange = {
-        newType: rc.newType.trim(),
-        reason: rc.reason.trim(),
-      };
-    }
-  }
-
-  return { message, tone, relationChange };
-};
-
-const extractJson = (text: string): string => {
-  return (
-    text
-      .replace(/```json/g, "")
-      .replace(/```/g, "")
-      .match(/(\{[\s\S]*\})/)?.[1] || text.trim()
-  );
-};
-
-// ---------------------------------------------------------------------------
-// AI provider dispatch
-// ---------------------------------------------------------------------------
-
-async function callProvider(
-  prompt: string,
-  config: { provider: string; apiKey: string; model: string }
-): Promise<string> {
-  switch (config.provider) {
-    case "local": {
-      return callCliBridge({
-        provider: config.model || "claude",
-        prompt,
-        systemPrompt: "You are a JSON-only response bot for a grand strategy game's diplomacy system. Never explain your answer, only return valid JSON.",
-      });
-    }
-    case "google": {
-      const genAI = new GoogleGenerativeAI(config.apiKey);
-      const preferredModel = normalizeGeminiModel(config.model);
-
-      const requestGemini = async (modelName: string): Promise<string> => {
-        const model = genAI.getGenerativeModel({
-          model: modelName,
-          generationConfig: { responseMimeType: "application/json" },
-        });
-        const result = await model.generateContent(prompt);
-        return result.response.text();
-      };
-
-      const modelCandidates = Array.from(
-        new Set([preferredModel, ...FALLBACK_GEMINI_MODELS])
-      );
-
-      let lastModelError: unknown = null;
-      for (const modelName of modelCandidates) {
-        try {
-          const text = await requestGemini(modelName);
-          return text;
-        } catch (error) {
-          if (!isModelSelectionError(error)) throw error;
-          lastModelError = error;
-        }
-      }
-
-      if (lastModelError) throw lastModelError;
-      return "{}";
-    }
-
-    case "deepseek": {
-      const deepseek = new OpenAI({
-        apiKey: config.apiKey,
-        baseURL: "https://api.deepseek.com",
-      });
-      const completion = await deepseek.chat.completions.create({
-        messages: [{ role: "system", content: prompt }],
-        model: config.model,
-      });
-      return completion.choices[0].message.content || "{}";
-    }
-
-    case "openai": {
-      const openai = new OpenAI({ apiKey: config.apiKey });
-      const isOSeries = config.model.startsWith("o");
-      const completion = await openai.chat.completions.create({
-        messages: [{ role: isOSeries ? "user" : "system", content: prompt }],
-        model: config.model,
-        response_format:
-          config.model.includes("gpt-4o") || config.model.includes("o3")
-            ? { type: "json_object" }
-            : undefined,
-      });
-      return completion.choices[0].message.content || "{}";
-    }
-
-    case "anthropic": {
-      const anthropic = new Anthropic({ apiKey: config.apiKey });
-      const msg = await anthropic.messages.create({
-        model: config.model,
-        max_tokens: 1024,
-        system:
-          "You are a JSON-only response bot for a grand strategy game's diplomacy system. Never explain your answer, only return valid JSON.",
-        messages: [{ role: "user", content: prompt }],
-      });
-      if (msg.content[0].type === "text") {
-        return msg.content[0].text;
-      }
-      return "{}";
-    }
-
-    default:
-      throw new Error(`Unsupported provider: ${config.provider}`);
-  }
-}
+const SYSTEM_PROMPT =
+  "You are a JSON-only response bot for a grand strategy game's diplomacy system. Never explain your answer, only return valid JSON.";
 
 // ---------------------------------------------------------------------------
 // POST /api/chat
@@ -202,25 +36,36 @@ export async function POST(req: NextRequest) {
       chatHistory,
       gameContext,
       relations,
+      relationHistory,
       recentEvents,
       config,
       promptOverrides,
+      participants,
+      conferenceName,
+      conferenceRelations,
     } = body as {
       message: string;
       playerNation: string;
       targetNation: string;
-      chatHistory: Array<{ sender: string; content: string; turnYear: number }>;
-      gameContext: { year: number; scenario: string; difficulty: string };
-      relations?: { type: string; treaties: string[] } | null;
-      recentEvents?: Array<{ year: number; description: string }>;
-      config: { provider: string; apiKey: string; model: string };
+      chatHistory: Array<{ sender: string; content: string; turnYear: number; date?: GameDate }>;
+      gameContext: { year: number; date?: GameDate; scenario: string; difficulty: string };
+      relations?: { type: string; treaties: Treaty[]; opinionModifiers?: OpinionModifier[] } | null;
+      /** Ledger entries between the nations in the thread; see lib/relation-ledger.ts. */
+      relationHistory?: RelationChangeEntry[];
+      recentEvents?: Array<{ year: number; date?: GameDate; description: string }>;
+      config: ProviderConfig;
       promptOverrides?: Record<string, string>;
+      /** Group threads: every AI nation at the table (targetNation is the first of them). */
+      participants?: string[];
+      conferenceName?: string;
+      conferenceRelations?: Array<{ nationA: string; nationB: string; type: string; treaties?: Treaty[]; opinionModifiers?: OpinionModifier[] }>;
     };
 
     // --- Validation ---
-    if (config?.provider !== "local" && !config?.apiKey) {
+    const configError = validateProviderConfig(config);
+    if (configError) {
       return NextResponse.json(
-        { error: "API Key missing" },
+        { error: configError },
         { status: 400 }
       );
     }
@@ -231,6 +76,30 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // --- Conference: every participant replies in turn, possibly ending in a treaty ---
+    const delegates = Array.isArray(participants) ? participants.filter((p) => typeof p === "string" && p) : [];
+    if (delegates.length > 1) {
+      const conferencePrompt = buildConferencePrompt({
+        playerNation,
+        participants: delegates,
+        conferenceName: conferenceName || delegates.join(", "),
+        message,
+        chatHistory: chatHistory || [],
+        gameContext: gameContext || { year: 2026, scenario: "", difficulty: "Realistic" },
+        relations: conferenceRelations || [],
+        relationHistory: relationHistory || [],
+        recentEvents: recentEvents || [],
+        promptOverrides,
+      });
+      const { value, rejected } = await generateStructured(
+        conferencePrompt,
+        SYSTEM_PROMPT,
+        conferenceSchema(delegates, playerNation),
+        { config, maxTokens: 2048 }
+      );
+      return NextResponse.json({ ...value, rejected });
+    }
+
     // --- Build prompt ---
     const prompt = buildDiplomacyPrompt({
       playerNation,
@@ -239,19 +108,18 @@ export async function POST(req: NextRequest) {
       chatHistory: chatHistory || [],
       gameContext: gameContext || { year: 2026, scenario: "", difficulty: "Realistic" },
       relations: relations || null,
+      relationHistory: relationHistory || [],
       recentEvents: recentEvents || [],
       promptOverrides,
     });
 
-    // --- Call AI ---
-    const responseText = await callProvider(prompt, config);
-
-    // --- Parse & sanitize ---
-    const cleanJson = extractJson(responseText);
-    const parsed = JSON.parse(cleanJson);
-    const sanitized = sanitizeDiplomacyResponse(parsed);
+    // --- Call AI (validated against diplomacySchema, with repair retries) ---
+    const { value, rejected } = await generateStructured(prompt, SYSTEM_PROMPT, diplomacySchema, {
+      config,
+      maxTokens: 1024,
+    });
 
-    return NextResponse.json(sanitized);
+    return NextResponse.json({ ...value, rejected });
   } catch (error) {
     console.error("Diplomacy Chat Error:", error);
 
@@ -37,6 +37,13 @@ export async function GET(
       gameConfig: JSON.parse(row.gameConfigJson),
       logs: JSON.parse(row.logsJson),
       events: JSON.parse(row.eventsJson),
+      relations: JSON.parse(row.relationsJson),
+      relationLedger: JSON.parse(row.relationLedgerJson),
+      chatThreads: JSON.parse(row.chatThreadsJson),
+      advisorMessages: JSON.parse(row.advisorMessagesJson),
+      timelineSnapshots: JSON.parse(row.timelineJson),
+      timelineHeadId: row.timelineHeadId,
+      mapPack: row.mapPackJson ? JSON.parse(row.mapPackJson) : null,
       storySoFar: row.storySoFar,
     },
   });
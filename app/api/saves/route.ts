@@ -4,6 +4,7 @@ import { db } from "@/lib/db";
 import { savedGame } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { headers } from "next/headers";
+import { MAX_MAP_PACK_BYTES } from "@/lib/map-packs";
 
 function stripApiKey(configJson: string): string {
   try {
@@ -15,6 +16,10 @@ function stripApiKey(configJson: string): string {
   }
 }
 
+function toJsonArray(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value || []);
+}
+
 // GET /api/saves — list all saves for authenticated user
 export async function GET() {
   const session = await auth.api.getSession({ headers: await headers() });
@@ -63,21 +68,31 @@ export async function POST(req: NextRequest) {
     logs,
     events,
     storySoFar,
+    relations,
+    relationLedger,
+    chatThreads,
+    advisorMessages,
+    timelineSnapshots,
+    timelineHeadId,
+    mapPack,
   } = body;
 
   if (!id || !gameState || !gameConfig) {
     return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
   }
 
+  const mapPackJson = mapPack ? (typeof mapPack === "string" ? mapPack : JSON.stringify(mapPack)) : null;
+  if (mapPackJson && Buffer.byteLength(mapPackJson) > MAX_MAP_PACK_BYTES) {
+    return NextResponse.json({ error: "Map pack too large" }, { status: 413 });
+  }
+
   const gameConfigJson = stripApiKey(
     typeof gameConfig === "string" ? gameConfig : JSON.stringify(gameConfig)
   );
   const gameStateJson =
     typeof gameState === "string" ? gameState : JSON.stringify(gameState);
-  const logsJson =
-    typeof logs === "string" ? logs : JSON.stringify(logs || []);
-  const eventsJson =
-    typeof events === "string" ? events : JSON.stringify(events || []);
+  const logsJson = toJsonArray(logs);
+  const eventsJson = toJsonArray(events);
 
   // Extract denormalized metadata from config
   let parsedConfig: Record<string, unknown> = {};
@@ -102,6 +117,13 @@ export async function POST(req: NextRequest) {
     gameConfigJson,
     logsJson,
     eventsJson,
+    relationsJson: toJsonArray(relations),
+    relationLedgerJson: toJsonArray(relationLedger),
+    chatThreadsJson: toJsonArray(chatThreads),
+    advisorMessagesJson: toJsonArray(advisorMessages),
+    timelineJson: toJsonArray(timelineSnapshots),
+    timelineHeadId: typeof timelineHeadId === "string" ? timelineHeadId : null,
+    mapPackJson,
     storySoFar: storySoFar || null,
     scenario: (parsedConfig.scenario as string) || null,
     playerNationId: (parsedConfig.playerNationId as string) || null,
@@ -126,6 +148,13 @@ export async function POST(req: NextRequest) {
         gameConfigJson: row.gameConfigJson,
         logsJson: row.logsJson,
         eventsJson: row.eventsJson,
+        relationsJson: row.relationsJson,
+        relationLedgerJson: row.relationLedgerJson,
+        chatThreadsJson: row.chatThreadsJson,
+        advisorMessagesJson: row.advisorMessagesJson,
+        timelineJson: row.timelineJson,
+        timelineHeadId: row.timelineHeadId,
+        mapPackJson: row.mapPackJson,
         storySoFar: row.storySoFar,
         scenario: row.scenario,
         playerNationId: row.playerNationId,
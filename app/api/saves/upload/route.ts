@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { savedGame } from "@/lib/db/schema";
 import { headers } from "next/headers";
+import { MAX_MAP_PACK_BYTES } from "@/lib/map-packs";
 
 function stripApiKey(configJson: string): string {
   try {
@@ -14,6 +15,10 @@ function stripApiKey(configJson: string): string {
   }
 }
 
+function toJsonArray(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value || []);
+}
+
 // POST /api/saves/upload — bulk upload localStorage saves to cloud
 export async function POST(req: NextRequest) {
   const session = await auth.api.getSession({ headers: await headers() });
@@ -33,6 +38,12 @@ export async function POST(req: NextRequest) {
   for (const save of saves) {
     if (!save.id || !save.gameState || !save.gameConfig) continue;
 
+    const mapPackJson = save.mapPack ? JSON.stringify(save.mapPack) : null;
+    if (mapPackJson && Buffer.byteLength(mapPackJson) > MAX_MAP_PACK_BYTES) {
+      console.error(`Skipped save ${save.id}: map pack too large`);
+      continue;
+    }
+
     const gameConfigJson = stripApiKey(
       typeof save.gameConfig === "string"
         ? save.gameConfig
@@ -42,14 +53,8 @@ export async function POST(req: NextRequest) {
       typeof save.gameState === "string"
         ? save.gameState
         : JSON.stringify(save.gameState);
-    const logsJson =
-      typeof save.logs === "string"
-        ? save.logs
-        : JSON.stringify(save.logs || []);
-    const eventsJson =
-      typeof save.events === "string"
-        ? save.events
-        : JSON.stringify(save.events || []);
+    const logsJson = toJsonArray(save.logs);
+    const eventsJson = toJsonArray(save.events);
 
     let parsedConfig: Record<string, unknown> = {};
     try {
@@ -73,6 +78,13 @@ export async function POST(req: NextRequest) {
       gameConfigJson,
       logsJson,
       eventsJson,
+      relationsJson: toJsonArray(save.relations),
+      relationLedgerJson: toJsonArray(save.relationLedger),
+      chatThreadsJson: toJsonArray(save.chatThreads),
+      advisorMessagesJson: toJsonArray(save.advisorMessages),
+      timelineJson: toJsonArray(save.timelineSnapshots),
+      timelineHeadId: typeof save.timelineHeadId === "string" ? save.timelineHeadId : null,
+      mapPackJson,
       storySoFar: save.storySoFar || null,
       scenario: (parsedConfig.scenario as string) || null,
       playerNationId: (parsedConfig.playerNationId as string) || null,
@@ -97,6 +109,13 @@ export async function POST(req: NextRequest) {
             gameConfigJson: row.gameConfigJson,
             logsJson: row.logsJson,
             eventsJson: row.eventsJson,
+            relationsJson: row.relationsJson,
+            relationLedgerJson: row.relationLedgerJson,
+            chatThreadsJson: row.chatThreadsJson,
+            advisorMessagesJson: row.advisorMessagesJson,
+            timelineJson: row.timelineJson,
+            timelineHeadId: row.timelineHeadId,
+            mapPackJson: row.mapPackJson,
             storySoFar: row.storySoFar,
             scenario: row.scenario,
             playerNationId: row.playerNationId,
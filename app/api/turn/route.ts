@@ -1,136 +1,80 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import { buildGameMasterPrompt } from "@/lib/ai-prompts";
-import { callCliBridge } from "@/lib/cli-bridge";
+import { generateStructured, createJsonFieldStreamer, validateProviderConfig, ProviderConfig } from "@/lib/ai-provider";
+import { gameMasterSchema, GameMasterResponse, StructuredSchema } from "@/lib/ai-schemas";
+import { NationRef } from "@/lib/nation-registry";
+import { encodeSse } from "@/lib/sse";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
 
 // ---------------------------------------------------------------------------
-// Constants & Helpers
+// Constants
 // ---------------------------------------------------------------------------
 
-const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
-const FALLBACK_GEMINI_MODELS = [
-  "gemini-3-flash-preview",
-  "gemini-2.5-flash",
-  "gemini-flash-latest",
-];
-
-const normalizeGeminiModel = (model: string | undefined) => {
-  if (!model) return DEFAULT_GEMINI_MODEL;
-  const trimmed = model.trim();
-  if (!trimmed) return DEFAULT_GEMINI_MODEL;
-  return trimmed.startsWith("models/") ? trimmed.slice("models/".length) : trimmed;
-};
-
-const isModelSelectionError = (error: unknown) => {
-  const message = error instanceof Error ? error.message.toLowerCase() : "";
-  return (
-    message.includes("not found") ||
-    message.includes("unsupported") ||
-    message.includes("invalid model") ||
-    message.includes("404")
-  );
-};
+const SYSTEM_PROMPT =
+  "You are a JSON-only response bot for a grand strategy game. Never explain your answer, only return valid JSON.";
 
 // ---------------------------------------------------------------------------
-// Update types -- expanded to include "relation", "economy", and "crisis"
+// Streaming response
 // ---------------------------------------------------------------------------
 
-type ParsedUpdate =
-  | { type: "owner"; provinceName: string; newOwnerId: string }
-  | { type: "time"; amount: number }
-  | { type: "event"; description: string; eventType: "diplomacy" | "war" | "discovery" | "flavor" | "economy" | "crisis"; year: number }
-  | { type: "relation"; nationA: string; nationB: string; relationType: string; reason: string };
-
-const normalizeEventType = (
-  eventType: unknown
-): "diplomacy" | "war" | "discovery" | "flavor" | "economy" | "crisis" => {
-  if (
-    eventType === "diplomacy" ||
-    eventType === "war" ||
-    eventType === "discovery" ||
-    eventType === "flavor" ||
-    eventType === "economy" ||
-    eventType === "crisis"
-  ) {
-    return eventType;
-  }
-  return "flavor";
-};
-
-const sanitizeAiPayload = (
-  payload: unknown,
-  fallbackYear: number
-): { message: string; updates: ParsedUpdate[]; storySoFar?: string } => {
-  const safePayload = (payload && typeof payload === "object" ? payload : {}) as {
-    message?: unknown;
-    updates?: unknown;
-    storySoFar?: unknown;
-  };
-
-  const message =
-    typeof safePayload.message === "string" && safePayload.message.trim()
-      ? safePayload.message.trim()
-      : "The world watches your move. Issue your next command.";
-
-  const updates: ParsedUpdate[] = [];
-  if (Array.isArray(safePayload.updates)) {
-    safePayload.updates.forEach((update) => {
-      if (!update || typeof update !== "object") return;
-      const u = update as Record<string, unknown>;
-
-      if (u.type === "owner" && typeof u.provinceName === "string" && typeof u.newOwnerId === "string") {
-        updates.push({
-          type: "owner",
-          provinceName: u.provinceName.trim(),
-          newOwnerId: u.newOwnerId.trim(),
+/**
+ * SSE variant of the turn response. Narrative text is forwarded as `{ text }`
+ * events while the model writes it; the sanitized payload follows as a single
+ * `{ result }` event once the full JSON has been validated. Failures are sent as
+ * `{ error }` so the client can keep the partial narration visible. If the
+ * client disconnects, the model request is aborted and nothing more is sent.
+ */
+const streamTurn = (
+  systemPrompt: string,
+  config: ProviderConfig,
+  schema: StructuredSchema<GameMasterResponse>
+): Response => {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (payload: Parameters<typeof encodeSse>[0]) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeSse(payload)));
+      };
+
+      try {
+        const onText = createJsonFieldStreamer("message", (text) => send({ text }));
+        const { value, rejected } = await generateStructured(systemPrompt, SYSTEM_PROMPT, schema, {
+          config,
+          maxTokens: 2048,
+          onText,
+          signal: upstream.signal,
         });
-      }
-
-      if (u.type === "time") {
-        const rawAmount = typeof u.amount === "number" ? u.amount : Number(u.amount);
-        if (Number.isFinite(rawAmount)) {
-          updates.push({
-            type: "time",
-            amount: Math.trunc(rawAmount),
-          });
-        }
-      }
-
-      if (u.type === "event" && typeof u.description === "string") {
-        const rawYear = typeof u.year === "number" ? u.year : Number(u.year);
-        updates.push({
-          type: "event",
-          description: u.description.trim(),
-          eventType: normalizeEventType(u.eventType),
-          year: Number.isFinite(rawYear) ? Math.trunc(rawYear) : fallbackYear,
-        });
-      }
-
-      if (
-        u.type === "relation" &&
-        typeof u.nationA === "string" &&
-        typeof u.nationB === "string" &&
-        typeof u.relationType === "string"
-      ) {
-        updates.push({
-          type: "relation",
-          nationA: u.nationA.trim(),
-          nationB: u.nationB.trim(),
-          relationType: u.relationType.trim(),
-          reason: typeof u.reason === "string" ? u.reason.trim() : "",
+        send({ result: { ...value, rejected } });
+      } catch (error) {
+        if (upstream.signal.aborted) return;
+        console.error("AI Error:", error);
+        send({
+          error: `The Game Master encountered an error: ${error instanceof Error ? error.message : "Internal Server Error"}`,
         });
+      } finally {
+        if (!closed) {
+          send("[DONE]");
+          closed = true;
+          controller.close();
+        }
       }
-    });
-  }
-
-  const storySoFar = typeof safePayload.storySoFar === "string" && safePayload.storySoFar.trim()
-    ? safePayload.storySoFar.trim()
-    : undefined;
-
-  return { message, updates, storySoFar };
+    },
+    cancel() {
+      closed = true;
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 };
 
 // ---------------------------------------------------------------------------
@@ -148,10 +92,11 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const { command, gameState, config, history, events, relations, provinceSummary, storySoFar, promptOverrides } = await req.json();
+    const { command, gameState, config, history, events, relations, relationHistory, provinceSummary, storySoFar, promptOverrides, intelligence, stream } = await req.json();
 
-    if (config.provider !== "local" && !config.apiKey) {
-      return NextResponse.json({ error: "API Key missing" }, { status: 400 });
+    const configError = validateProviderConfig(config);
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 400 });
     }
 
     const systemPrompt = buildGameMasterPrompt({
@@ -161,110 +106,27 @@ export async function POST(req: NextRequest) {
       history,
       events,
       relations,
+      relationHistory,
       provinceSummary,
       storySoFar,
       promptOverrides,
+      intelligence,
     });
 
-    let responseText = "";
-
-    switch (config.provider) {
-      case "local": {
-        responseText = await callCliBridge({
-          provider: config.model || "claude",
-          prompt: systemPrompt,
-          systemPrompt: "You are a JSON-only response bot for a grand strategy game. Never explain your answer, only return valid JSON.",
-        });
-        break;
-      }
-      case "google": {
-        const genAI = new GoogleGenerativeAI(config.apiKey);
-        const preferredModel = normalizeGeminiModel(config.model);
-
-        const requestGemini = async (modelName: string) => {
-          const model = genAI.getGenerativeModel({
-            model: modelName,
-            generationConfig: { responseMimeType: "application/json" },
-          });
-          const result = await model.generateContent(systemPrompt);
-          return result.response.text();
-        };
-
-        const modelCandidates = Array.from(
-          new Set([preferredModel, ...FALLBACK_GEMINI_MODELS])
-        );
-
-        let lastModelError: unknown = null;
-        for (const modelName of modelCandidates) {
-          try {
-            responseText = await requestGemini(modelName);
-            lastModelError = null;
-            break;
-          } catch (error) {
-            if (!isModelSelectionError(error)) throw error;
-            lastModelError = error;
-          }
-        }
+    const nations: NationRef[] = Object.values((gameState.players ?? {}) as Record<string, NationRef>).map(
+      ({ id, name }) => ({ id, name })
+    );
+    const schema = gameMasterSchema(gameState.turn, nations);
 
-        if (!responseText && lastModelError) {
-          throw lastModelError;
-        }
-        break;
-      }
-      case "deepseek": {
-        const deepseek = new OpenAI({
-          apiKey: config.apiKey,
-          baseURL: "https://api.deepseek.com",
-        });
-        const completion = await deepseek.chat.completions.create({
-          messages: [{ role: "system", content: systemPrompt }],
-          model: config.model,
-        });
-        responseText = completion.choices[0].message.content || "{}";
-        break;
-      }
-      case "openai": {
-        const openai = new OpenAI({ apiKey: config.apiKey });
-        const isOSeries = config.model.startsWith("o");
-        const completion = await openai.chat.completions.create({
-          messages: [{ role: isOSeries ? "user" : "system", content: systemPrompt }],
-          model: config.model,
-          response_format:
-            config.model.includes("gpt-4o") || config.model.includes("o3")
-              ? { type: "json_object" }
-              : undefined,
-        });
-        responseText = completion.choices[0].message.content || "{}";
-        break;
-      }
-      case "anthropic": {
-        const anthropic = new Anthropic({ apiKey: config.apiKey });
-        const message = await anthropic.messages.create({
-          model: config.model,
-          max_tokens: 2048,
-          system:
-            "You are a JSON-only response bot for a grand strategy game. Never explain your answer, only return valid JSON.",
-          messages: [{ role: "user", content: systemPrompt }],
-        });
-        if (message.content[0].type === "text") {
-          responseText = message.content[0].text;
-        }
-        break;
-      }
-      default:
-        throw new Error(`Unsupported provider: ${config.provider}`);
+    if (stream) {
+      return streamTurn(systemPrompt, config, schema);
     }
 
-    // Robust JSON cleaning
-    const cleanJson =
-      responseText
-        .replace(/```json/g, "")
-        .replace(/```/g, "")
-        .match(/(\{[\s\S]*\})/)?.[1] || responseText.trim();
-
-    const parsed = JSON.parse(cleanJson);
-    const sanitized = sanitizeAiPayload(parsed, gameState.turn);
-    return NextResponse.json(sanitized);
+    const { value, rejected } = await generateStructured(systemPrompt, SYSTEM_PROMPT, schema, {
+      config,
+      maxTokens: 2048,
+    });
+    return NextResponse.json({ ...value, rejected });
   } catch (error) {
     console.error("AI Error:", error);
     return NextResponse.json(
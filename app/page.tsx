@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
 import GameSetup, { GameConfig } from "@/components/GameSetup";
 import CommandTerminal from "@/components/CommandTerminal";
@@ -8,14 +8,22 @@ import Timeline from "@/components/Timeline";
 import Advisor from "@/components/Advisor";
 import RelationsPanel from "@/components/RelationsPanel";
 import PromptSettings from "@/components/PromptSettings";
-import { DiplomaticRelation } from "@/lib/types";
-import { LogEntry } from "@/lib/game-storage";
-
-import { useGameState } from "@/hooks/useGameState";
+import OrderQueue from "@/components/OrderQueue";
+import MapModeControl from "@/components/MapModeControl";
+import ReplayPlayer from "@/components/ReplayPlayer";
+import { DiplomaticRelation, OrderTarget, RelationLedgerEntry } from "@/lib/types";
+import { LogEntry, SaveSubsystems } from "@/lib/game-storage";
+import { formatGameDate, getGameDate } from "@/lib/calendar";
+import { applyIntel, perceiveProvinces } from "@/lib/intelligence";
+import { MapMode, buildMapOverlay, recentOwnerChanges } from "@/lib/map-modes";
+import { hasStateDetail, mapPackCities } from "@/lib/map-packs";
+
+import { LoadSaveResult, useGameState } from "@/hooks/useGameState";
 import { useTurnProcessing } from "@/hooks/useTurnProcessing";
 import { useDiplomacy } from "@/hooks/useDiplomacy";
 import { useAdvisor } from "@/hooks/useAdvisor";
 import { useTimeline } from "@/hooks/useTimeline";
+import { useReplay } from "@/hooks/useReplay";
 import { useSaveLoad } from "@/hooks/useSaveLoad";
 
 // Dynamic imports for heavy components
@@ -41,9 +49,12 @@ function uid(): string {
 export default function GamePage({ initialGameId }: { initialGameId?: string } = {}) {
   // ── Shared relation state (needed by turn processing, diplomacy, timeline, advisor) ──
   const [relations, setRelations] = useState<DiplomaticRelation[]>([]);
+  const [relationLedger, setRelationLedger] = useState<RelationLedgerEntry[]>([]);
 
   // ── Core game state + initialization ──
-  const game = useGameState(initialGameId);
+  // A save named in the URL is applied by the same handler as one picked from the saves list, defined further down
+  const applyLoadedGameRef = useRef<(saveId: string, result: LoadSaveResult) => void>(() => {});
+  const game = useGameState(initialGameId, (saveId, result) => applyLoadedGameRef.current(saveId, result));
 
   // ── Timeline (needs setEvents and setRelations) ──
   // We pass a placeholder addLog first and fix after turn hook is created
@@ -52,9 +63,17 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     setGameState: game.setGameState,
     setEvents: (val) => turn.setEvents(val),
     setRelations,
+    setRelationLedger,
+    setLogs: (val) => turn.setLogs(val),
+    setStorySoFar: (val) => turn.setStorySoFar(val),
+    setChatThreads: (val) => diplomacy.setChatThreads(val),
+    getChatThreads: () => diplomacy.chatThreads,
     addLog: (text, type) => turn.addLog(text, type),
   });
 
+  // ── Time-lapse replay of a timeline branch ──
+  const replay = useReplay({ gameState: game.gameState, timelineSnapshots: timeline.timelineSnapshots });
+
   // ── Turn processing ──
   const turn = useTurnProcessing({
     gameState: game.gameState,
@@ -62,8 +81,12 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     setGameState: game.setGameState,
     relations,
     setRelations,
-    timelineSnapshots: timeline.timelineSnapshots,
-    setTimelineSnapshots: timeline.setTimelineSnapshots,
+    relationLedger,
+    setRelationLedger,
+    recordSnapshot: timeline.recordSnapshot,
+    onTurnResolved: (outcome) => advisor.briefAfterTurn(outcome),
+    onForeignMessages: (messages, date) => diplomacy.receiveForeignMessages(messages, date),
+    onNationsRenamed: (renames) => diplomacy.renameNations(renames),
   });
 
   // ── Diplomacy ──
@@ -72,7 +95,10 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     gameConfig: game.gameConfig,
     relations,
     setRelations,
+    relationLedger,
+    setRelationLedger,
     events: turn.events,
+    queueOrder: turn.queueOrder,
   });
 
   // ── Advisor ──
@@ -90,22 +116,29 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     logs: turn.logs,
     events: turn.events,
     storySoFar: turn.storySoFar,
+    relations,
+    relationLedger,
+    chatThreads: diplomacy.chatThreads,
+    advisorMessages: advisor.advisorMessages,
+    timelineSnapshots: timeline.timelineSnapshots,
+    timelineHeadId: timeline.headSnapshotId,
+    mapPack: game.mapPack,
     addLog: turn.addLog,
     refreshSavedGames: game.refreshSavedGames,
-    initialGameIdLoaded: game.initialGameIdLoaded,
   });
 
-  // ── Apply initial restore data from URL-loaded game ──
-  const initialApplied = useRef(false);
-  useEffect(() => {
-    if (initialApplied.current) return;
-    if (game.initialLogs.length > 0) {
-      initialApplied.current = true;
-      turn.setLogs(game.initialLogs);
-      turn.setEvents(game.initialEvents);
-      turn.setStorySoFar(game.initialStorySoFar);
-    }
-  }, [game.initialLogs]);
+  // ── Restore subsystem state from a save ──
+  const applySubsystems = useCallback(
+    (subsystems: SaveSubsystems) => {
+      setRelations(subsystems.relations);
+      setRelationLedger(subsystems.relationLedger);
+      diplomacy.setChatThreads(subsystems.chatThreads);
+      advisor.setAdvisorMessages(subsystems.advisorMessages);
+      timeline.setTimelineSnapshots(subsystems.timelineSnapshots);
+      timeline.setHeadSnapshotId(subsystems.timelineHeadId);
+    },
+    [diplomacy, advisor, timeline]
+  );
 
   // ── Game start handler (bridges game + turn + diplomacy + advisor state) ──
   const handleStartGame = useCallback(
@@ -117,6 +150,7 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
       diplomacy.setChatThreads([]);
       advisor.setAdvisorMessages([]);
       timeline.setTimelineSnapshots([]);
+      timeline.setHeadSnapshotId(null);
       turn.setPendingOrders([]);
 
       turn.setLogs([
@@ -128,29 +162,47 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
       turn.setEvents([]);
       turn.setStorySoFar("");
       setRelations([]);
+      setRelationLedger([]);
     },
     [game, save, diplomacy, advisor, timeline, turn]
   );
 
-  // ── Load saved game handler ──
-  const handleLoadSavedGame = useCallback(
-    async (saveId: string) => {
-      const result = await game.handleLoadSavedGame(saveId);
+  // ── Apply a loaded save to every subsystem (from the saves list or the URL) ──
+  const applyLoadedGame = useCallback(
+    (saveId: string, result: LoadSaveResult) => {
       if (!result) {
         turn.addLog(`Save "${saveId}" not found.`, "error");
         return;
       }
+      if ("error" in result) {
+        // Out of a game there is no log to show it in
+        if (game.gameConfig) turn.addLog(result.error, "error");
+        else alert(result.error);
+        return;
+      }
       turn.setEvents(result.events);
       turn.setStorySoFar(result.storySoFar);
+      applySubsystems(result.subsystems);
       turn.setLogs([
         ...result.logs,
         { id: uid(), type: "success" as LogEntry["type"], text: `Loaded save from ${new Date(Date.now()).toLocaleString()}.` },
       ]);
       save.onLoadComplete(saveId);
     },
-    [game, turn, save]
+    [game, turn, save, applySubsystems]
+  );
+
+  useEffect(() => {
+    applyLoadedGameRef.current = applyLoadedGame;
+  }, [applyLoadedGame]);
+
+  // ── Load saved game handler ──
+  const handleLoadSavedGame = useCallback(
+    async (saveId: string) => applyLoadedGame(saveId, await game.handleLoadSavedGame(saveId)),
+    [game, applyLoadedGame]
   );
 
+
   // ── Save & Exit (reset all subsystems) ──
   const handleSaveAndExit = useCallback(async () => {
     await save.handleSaveAndExit();
@@ -163,7 +215,9 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     turn.setPendingOrders([]);
     diplomacy.setChatThreads([]);
     setRelations([]);
+    setRelationLedger([]);
     timeline.setTimelineSnapshots([]);
+    timeline.setHeadSnapshotId(null);
     advisor.setAdvisorMessages([]);
     await game.refreshSavedGames();
   }, [save, game, turn, diplomacy, timeline, advisor]);
@@ -181,6 +235,48 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
     if (game.gameState) prevTurnRef.current = game.gameState.turn;
   }, [game.gameState?.turn]);
 
+  // ── Fog of war: the map shows what the player believes ──
+  const intelView = useMemo(
+    () => (game.gameState?.intel ? perceiveProvinces(game.gameState, relations, getGameDate(game.gameState)) : null),
+    [game.gameState, relations]
+  );
+  const mapProvinces = useMemo(
+    () => (game.gameState && intelView ? applyIntel(game.gameState.provinces, intelView) : game.gameState?.provinces ?? []),
+    [game.gameState, intelView]
+  );
+
+  const mapCities = useMemo(() => mapPackCities(game.mapPack), [game.mapPack]);
+
+  // ── Map modes ──
+  const [mapMode, setMapMode] = useState<MapMode>("political");
+  const [changeTurns, setChangeTurns] = useState(3);
+  const mapOverlay = useMemo(() => {
+    if (!game.gameState || mapMode === "political") return null;
+    const recentChanges =
+      mapMode === "changes"
+        ? recentOwnerChanges(timeline.timelineSnapshots, timeline.headSnapshotId, changeTurns, mapProvinces)
+        : undefined;
+    return buildMapOverlay(mapMode, mapProvinces, {
+      players: game.gameState.players,
+      relations,
+      recentChanges,
+      changeTurns,
+    });
+  }, [mapMode, changeTurns, mapProvinces, game.gameState, relations, timeline.timelineSnapshots, timeline.headSnapshotId]);
+
+  // ── Order targets offered from the map selection ──
+  const [showOrders, setShowOrders] = useState(false);
+  const selectionTargets = useMemo((): OrderTarget[] => {
+    const selectedId = game.gameState?.selectedProvinceId;
+    if (!game.gameState || selectedId === null || selectedId === undefined) return [];
+    const province = mapProvinces.find((p) => String(p.id) === String(selectedId));
+    if (!province) return [];
+    const targets: OrderTarget[] = [{ kind: "province", id: String(province.id), name: province.name }];
+    const owner = province.ownerId ? game.gameState.players[province.ownerId] : undefined;
+    if (owner && owner.id !== "player") targets.push({ kind: "nation", id: owner.id, name: owner.name });
+    return targets;
+  }, [game.gameState, mapProvinces]);
+
   // ── Render ──
 
   if (game.loading) {
@@ -215,7 +311,9 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
   if (!game.gameConfig) {
     return (
       <GameSetup
-        provinces={game.provincesCache}
+        provinces={game.setupProvinces}
+        mapPack={game.mapPack}
+        onMapPackChange={game.selectMapPack}
         onStartGame={handleStartGame}
         onBack={() => { game.setShowPresets(true); game.setSelectedPreset(null); }}
         preset={
@@ -229,6 +327,8 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
               }
             : null
         }
+        eraLabel={game.eraOverlay ? `${game.eraOverlay.label} (${game.eraOverlay.year})` : null}
+        onYearChange={game.setSetupYear}
       />
     );
   }
@@ -241,15 +341,49 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
       {/* Map */}
       {gameState && (
         <MapView
-          provinces={gameState.provinces}
-          players={gameState.players}
+          provinces={replay.replayFrame?.provinces ?? mapProvinces}
+          players={replay.replayFrame?.players ?? gameState.players}
           onSelectProvince={game.handleSelectProvince}
           selectedProvinceId={gameState.selectedProvinceId}
           theme={gameState.theme}
-          relations={relations}
+          relations={replay.replayFrame?.relations ?? relations}
+          intel={replay.replayFrame ? replay.replayFrame.intel : intelView}
+          overlay={replay.replayFrame ? null : mapOverlay}
+          cities={mapCities}
+          stateDetail={hasStateDetail(game.mapPack)}
         />
       )}
 
+      {/* Replay player (top-center) */}
+      {replay.replayFrame && (
+        <div className="absolute top-14 left-1/2 -translate-x-1/2 z-30">
+          <ReplayPlayer
+            frame={replay.replayFrame}
+            index={replay.replayIndex}
+            length={replay.replayLength}
+            playing={replay.replayPlaying}
+            speed={replay.replaySpeed}
+            onTogglePlaying={replay.togglePlaying}
+            onSeek={replay.seekReplay}
+            onSpeedChange={replay.setReplaySpeed}
+            onClose={replay.closeReplay}
+          />
+        </div>
+      )}
+
+      {/* Map mode switcher + legend (top-left) */}
+      {gameState && !replay.replaying && (
+        <div className="absolute top-20 left-4 z-20">
+          <MapModeControl
+            mode={mapMode}
+            onModeChange={setMapMode}
+            changeTurns={changeTurns}
+            onChangeTurnsChange={setChangeTurns}
+            legend={mapOverlay?.legend}
+          />
+        </div>
+      )}
+
       {/* Diplomacy Chat (top-right) */}
       {gameState && (
         <DiplomacyChat
@@ -260,6 +394,8 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
           currentYear={gameState.turn}
           onSendMessage={diplomacy.handleSendChatMessage}
           onCreateThread={diplomacy.handleCreateThread}
+          onReadThread={diplomacy.markThreadRead}
+          onRespondToProposal={diplomacy.respondToProposal}
           selectedProvinceId={gameState.selectedProvinceId}
           processing={diplomacy.processingChat}
         />
@@ -268,16 +404,31 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
       {/* Command Terminal + Advance Button (bottom-left) */}
       <div style={{ position: "absolute", bottom: timeline.timelineSnapshots.length > 0 ? 140 : 16, left: 16, zIndex: 20 }}>
         <CommandTerminal logs={turn.logs} onCommand={turn.queueOrder} processing={turn.processingTurn} />
+        {/* Order queue editor */}
+        {showOrders && (
+          <div className="mt-1 bg-slate-900/95 border border-slate-700 rounded backdrop-blur animate-slide-up">
+            <OrderQueue
+              orders={turn.pendingOrders}
+              onEdit={turn.editOrder}
+              onRemove={turn.cancelOrder}
+              onMove={turn.reorderOrder}
+              selectionTargets={selectionTargets}
+              disabled={turn.processingTurn}
+            />
+          </div>
+        )}
         {/* Inline advance bar below terminal */}
         <div className="mt-1 flex items-center gap-2 bg-slate-900/90 border border-slate-700 rounded px-2 py-1.5 backdrop-blur font-mono">
-          {turn.pendingOrders.length > 0 && (
-            <span className="text-amber-400 text-xs">
-              {turn.pendingOrders.length} order{turn.pendingOrders.length > 1 ? "s" : ""} queued
-            </span>
-          )}
-          {turn.pendingOrders.length === 0 && (
-            <span className="text-slate-500 text-xs">No orders queued</span>
-          )}
+          <button
+            onClick={() => setShowOrders(!showOrders)}
+            className={`text-xs hover:text-amber-300 ${turn.pendingOrders.length > 0 ? "text-amber-400" : "text-slate-500"}`}
+            title={showOrders ? "Hide order queue" : "Edit, reorder and target queued orders"}
+          >
+            {turn.pendingOrders.length > 0
+              ? `${turn.pendingOrders.length} order${turn.pendingOrders.length > 1 ? "s" : ""} queued`
+              : "No orders queued"}
+            <span className="ml-1 text-slate-500">{showOrders ? "\u25BC" : "\u25B2"}</span>
+          </button>
           <button
             onClick={() => turn.setPendingOrders([])}
             disabled={turn.pendingOrders.length === 0}
@@ -302,8 +453,11 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
         <Timeline
           snapshots={timeline.timelineSnapshots}
           currentYear={gameState?.turn || 0}
+          headSnapshotId={timeline.headSnapshotId}
           onRewind={timeline.handleTimelineRewind}
           onBranch={timeline.handleTimelineBranch}
+          onSwitchBranch={timeline.handleSwitchBranch}
+          onReplay={replay.openReplay}
         />
       )}
 
@@ -312,6 +466,11 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
         <Advisor
           messages={advisor.advisorMessages}
           onAskAdvisor={advisor.handleAskAdvisor}
+          onQueueOrder={turn.queueOrder}
+          unreadCount={advisor.unreadCount}
+          onMarkRead={advisor.markAdvisorRead}
+          autoBriefing={advisor.autoBriefing}
+          onAutoBriefingChange={advisor.setAutoBriefing}
           processing={advisor.processingAdvisor}
           playerNation={gameState.players["player"].name}
           currentYear={gameState.turn}
@@ -326,8 +485,10 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
         >
           <RelationsPanel
             relations={relations}
+            ledger={relationLedger}
             playerNationName={gameState.players["player"].name}
             provinces={gameState.provinces}
+            players={gameState.players}
           />
         </div>
       )}
@@ -355,8 +516,8 @@ export default function GamePage({ initialGameId }: { initialGameId?: string } =
         <div className="absolute top-0 left-0 w-full p-2 bg-gradient-to-b from-slate-950/90 to-transparent pointer-events-none flex justify-center items-center gap-8 text-slate-200 font-mono text-lg z-10">
           <div className="bg-slate-900/80 px-4 py-2 rounded-full border border-slate-700 backdrop-blur pointer-events-auto flex items-center gap-4">
             <div className={yearFlash ? "animate-flash-border rounded px-1 -mx-1" : ""}>
-              <span className="text-slate-500 text-sm uppercase mr-2">Year</span>
-              <span className="font-bold">{gameState.turn}</span>
+              <span className="text-slate-500 text-sm uppercase mr-2">Date</span>
+              <span className="font-bold">{formatGameDate(getGameDate(gameState))}</span>
             </div>
             <div className="w-px h-6 bg-slate-700" />
             <div>
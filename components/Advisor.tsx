@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useState, useRef, useEffect, useCallback } from "react";
-import { AdvisorMessage } from "@/lib/types";
+import { AdvisorAddressee, AdvisorMessage } from "@/lib/types";
+import { MINISTERS, addresseeTitle, getMinister } from "@/lib/council";
 
 // ---------------------------------------------------------------------------
 // Props
@@ -9,7 +10,14 @@ import { AdvisorMessage } from "@/lib/types";
 
 interface AdvisorProps {
   messages: AdvisorMessage[];
-  onAskAdvisor: (question: string) => void;
+  onAskAdvisor: (question: string, addressee: AdvisorAddressee) => void;
+  /** Push a suggested action onto the pending order queue. */
+  onQueueOrder: (order: string) => void;
+  /** Briefings the player has not seen yet. */
+  unreadCount: number;
+  onMarkRead: () => void;
+  autoBriefing: boolean;
+  onAutoBriefingChange: (enabled: boolean) => void;
   processing: boolean;
   playerNation: string;
   currentYear: number;
@@ -50,6 +58,12 @@ const QUICK_PROMPTS: {
   },
 ];
 
+const ADDRESSEES: { id: AdvisorAddressee; label: string }[] = [
+  { id: "advisor", label: "Grand Advisor" },
+  { id: "council", label: "Whole Council" },
+  ...MINISTERS.map((m) => ({ id: m.id, label: m.title })),
+];
+
 const CATEGORY_COLORS: Record<
   NonNullable<AdvisorMessage["category"]>,
   { badge: string; bg: string; border: string }
@@ -98,7 +112,10 @@ const PROMPT_BUTTON_COLORS: Record<
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Extract lines that look like suggested actions (lines starting with - or *) */
+/**
+ * Extract lines that look like suggested actions (lines starting with - or *).
+ * Only used for messages saved before the advisor returned structured suggestions.
+ */
 function extractSuggestions(content: string): string[] {
   const lines = content.split("\n");
   const suggestions: string[] = [];
@@ -129,6 +146,11 @@ function formatTime(ts: number): string {
 export default function Advisor({
   messages,
   onAskAdvisor,
+  onQueueOrder,
+  unreadCount,
+  onMarkRead,
+  autoBriefing,
+  onAutoBriefingChange,
   processing,
   playerNation,
   currentYear,
@@ -136,6 +158,10 @@ export default function Advisor({
   const [open, setOpen] = useState(false);
   const [minimized, setMinimized] = useState(false);
   const [input, setInput] = useState("");
+  const [addressee, setAddressee] = useState<AdvisorAddressee>("advisor");
+  // Suggestion keys are `${messageId}:${index}`
+  const [queuedKeys, setQueuedKeys] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ key: string; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -146,6 +172,11 @@ export default function Advisor({
     }
   }, [messages, open, minimized]);
 
+  // Anything arriving while the panel is open counts as seen
+  useEffect(() => {
+    if (open && !minimized && unreadCount > 0) onMarkRead();
+  }, [open, minimized, unreadCount, onMarkRead]);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -157,9 +188,9 @@ export default function Advisor({
   const handleSend = useCallback(() => {
     const trimmed = input.trim();
     if (!trimmed || processing) return;
-    onAskAdvisor(trimmed);
+    onAskAdvisor(trimmed, addressee);
     setInput("");
-  }, [input, processing, onAskAdvisor]);
+  }, [input, processing, onAskAdvisor, addressee]);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -174,17 +205,20 @@ export default function Advisor({
   const handleQuickPrompt = useCallback(
     (question: string) => {
       if (processing) return;
-      onAskAdvisor(question);
+      onAskAdvisor(question, addressee);
     },
-    [processing, onAskAdvisor]
+    [processing, onAskAdvisor, addressee]
   );
 
-  const handleSuggestionClick = useCallback(
-    (suggestion: string) => {
-      if (processing) return;
-      onAskAdvisor(suggestion);
+  const queueSuggestion = useCallback(
+    (key: string, order: string) => {
+      const trimmed = order.trim();
+      if (!trimmed) return;
+      onQueueOrder(trimmed);
+      setQueuedKeys((prev) => new Set(prev).add(key));
+      setEditing(null);
     },
-    [processing, onAskAdvisor]
+    [onQueueOrder]
   );
 
   // -------------------------------------------------------------------------
@@ -205,12 +239,18 @@ export default function Advisor({
             {"\u2726"}
           </div>
         </div>
-        {/* Pulse ring */}
-        {messages.length > 0 && (
-          <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-teal-400 rounded-full animate-ping opacity-60" />
-        )}
-        {messages.length > 0 && (
-          <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-teal-400 rounded-full" />
+        {/* Unread briefings badge, or a pulse ring once there is history */}
+        {unreadCount > 0 ? (
+          <>
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] bg-amber-500 rounded-full animate-ping opacity-60" />
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 bg-amber-500 text-slate-950 text-[10px] font-bold rounded-full flex items-center justify-center">
+              {unreadCount}
+            </span>
+          </>
+        ) : (
+          messages.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-teal-400 rounded-full" />
+          )
         )}
       </button>
     );
@@ -246,6 +286,16 @@ export default function Advisor({
           <span className="text-slate-600 text-[9px] mr-2">
             {playerNation} | {currentYear}
           </span>
+          <button
+            onClick={() => onAutoBriefingChange(!autoBriefing)}
+            className={`px-1.5 h-6 flex items-center text-[9px] uppercase rounded transition-colors hover:bg-slate-800 ${
+              autoBriefing ? "text-amber-400" : "text-slate-600"
+            }`}
+            aria-pressed={autoBriefing}
+            title={autoBriefing ? "Turn off turn briefings" : "Turn on turn briefings"}
+          >
+            Brief
+          </button>
           <button
             onClick={() => setMinimized((m) => !m)}
             className="w-6 h-6 flex items-center justify-center text-slate-500 hover:text-teal-400 transition-colors rounded hover:bg-slate-800"
@@ -271,6 +321,28 @@ export default function Advisor({
       {/* Body (hidden when minimized, handled by max-h overflow) */}
       {!minimized && (
         <>
+          {/* Addressee: Grand Advisor, whole council or a single minister */}
+          <div className="px-3 py-2 border-b border-slate-800/60 shrink-0">
+            <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-1.5">
+              Address
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {ADDRESSEES.map((a) => (
+                <button
+                  key={a.id}
+                  onClick={() => setAddressee(a.id)}
+                  className={`px-1.5 py-0.5 rounded border text-[9px] transition-colors ${
+                    addressee === a.id
+                      ? "bg-teal-800/50 border-teal-500/60 text-teal-200"
+                      : "bg-slate-900/40 border-slate-700/50 text-slate-500 hover:text-slate-300"
+                  }`}
+                >
+                  {a.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Quick prompts */}
           <div className="px-3 py-2 border-b border-slate-800/60 shrink-0">
             <div className="text-slate-500 text-[9px] uppercase tracking-wider mb-1.5">
@@ -311,7 +383,7 @@ export default function Advisor({
               const isUser = msg.role === "user";
               const cat = msg.category || "general";
               const catColors = CATEGORY_COLORS[cat];
-              const suggestions = !isUser ? extractSuggestions(msg.content) : [];
+              const suggestions = isUser ? [] : msg.suggestedActions ?? extractSuggestions(msg.content);
 
               return (
                 <div
@@ -328,7 +400,14 @@ export default function Advisor({
                       </span>
                     )}
                     <span className="text-slate-600 text-[9px]">
-                      {isUser ? "You" : "Advisor"} {"\u00B7"} {formatTime(msg.timestamp)}
+                      {isUser
+                        ? msg.addressee && msg.addressee !== "advisor"
+                          ? `You \u2192 ${addresseeTitle(msg.addressee)}`
+                          : "You"
+                        : msg.briefing
+                          ? "Turn Briefing"
+                          : addresseeTitle(msg.addressee)}{" "}
+                      {"\u00B7"} {formatTime(msg.timestamp)}
                     </span>
                   </div>
 
@@ -343,22 +422,97 @@ export default function Advisor({
                       }
                     `}
                   >
-                    {msg.content}
+                    {msg.debate && msg.debate.length > 0 ? (
+                      <>
+                        {msg.debate.map((statement, i) => {
+                          const minister = getMinister(statement.minister);
+                          return (
+                            <div key={i} className="mb-1.5">
+                              <span className={`px-1 py-px rounded text-[8px] font-bold uppercase mr-1 ${CATEGORY_COLORS[minister.category].badge}`}>
+                                {minister.title}
+                              </span>
+                              {statement.position}
+                            </div>
+                          );
+                        })}
+                        <div className="border-t border-slate-700/60 pt-1.5 mt-1">
+                          <span className="text-teal-400 text-[9px] font-bold uppercase tracking-wider mr-1">
+                            Consensus
+                          </span>
+                          {msg.content}
+                        </div>
+                      </>
+                    ) : (
+                      msg.content
+                    )}
                   </div>
 
-                  {/* Suggested action chips (advisor messages only) */}
+                  {/* Suggested action chips (advisor messages only); click to queue as an order */}
                   {suggestions.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-1 max-w-[92%]">
-                      {suggestions.map((sug, i) => (
-                        <button
-                          key={i}
-                          onClick={() => handleSuggestionClick(sug)}
-                          disabled={processing}
-                          className="px-2 py-0.5 bg-slate-800/60 hover:bg-teal-800/40 border border-slate-700/50 hover:border-teal-600/50 text-slate-400 hover:text-teal-300 text-[9px] rounded-full transition-colors disabled:opacity-40"
-                        >
-                          {sug}
-                        </button>
-                      ))}
+                      {suggestions.map((sug, i) => {
+                        const key = `${msg.id}:${i}`;
+                        const queued = queuedKeys.has(key);
+
+                        if (editing?.key === key) {
+                          return (
+                            <div key={key} className="flex w-full items-center gap-1">
+                              <input
+                                autoFocus
+                                value={editing.text}
+                                onChange={(e) => setEditing({ key, text: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") queueSuggestion(key, editing.text);
+                                  if (e.key === "Escape") setEditing(null);
+                                }}
+                                className="flex-1 bg-slate-900/60 border border-teal-700/60 rounded px-2 py-0.5 text-slate-200 text-[10px] outline-none focus:border-teal-500"
+                              />
+                              <button
+                                onClick={() => queueSuggestion(key, editing.text)}
+                                disabled={!editing.text.trim()}
+                                className="px-2 py-0.5 bg-teal-700/80 hover:bg-teal-600 text-white text-[9px] font-bold rounded transition-colors disabled:opacity-40"
+                              >
+                                Queue
+                              </button>
+                              <button
+                                onClick={() => setEditing(null)}
+                                className="px-1 text-slate-500 hover:text-slate-300 text-[10px]"
+                                aria-label="Cancel edit"
+                              >
+                                {"\u00D7"}
+                              </button>
+                            </div>
+                          );
+                        }
+
+                        return (
+                          <div
+                            key={key}
+                            className={`flex items-center border rounded-full text-[9px] transition-colors ${
+                              queued
+                                ? "bg-teal-900/30 border-teal-700/50 text-teal-400"
+                                : "bg-slate-800/60 border-slate-700/50 text-slate-400 hover:border-teal-600/50"
+                            }`}
+                          >
+                            <button
+                              onClick={() => queueSuggestion(key, sug)}
+                              className="pl-2 pr-1 py-0.5 hover:text-teal-300 text-left"
+                              title="Add to pending orders"
+                            >
+                              {queued ? "\u2713 " : "+ "}
+                              {sug}
+                            </button>
+                            <button
+                              onClick={() => setEditing({ key, text: sug })}
+                              className="pr-2 pl-1 py-0.5 text-slate-500 hover:text-teal-300"
+                              aria-label="Edit before queueing"
+                              title="Edit before queueing"
+                            >
+                              {"\u270E"}
+                            </button>
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
@@ -393,7 +547,7 @@ export default function Advisor({
                 disabled={processing}
                 rows={1}
                 className="flex-1 bg-slate-900/60 border border-slate-700/60 rounded-lg px-3 py-2 text-slate-200 text-[11px] placeholder-slate-600 focus:border-teal-600 focus:ring-1 focus:ring-teal-600/30 outline-none resize-none disabled:opacity-50 scrollbar-thin scrollbar-thumb-slate-700"
-                placeholder="Ask your advisor..."
+                placeholder={addressee === "advisor" ? "Ask your advisor..." : `Ask the ${addresseeTitle(addressee)}...`}
                 style={{ minHeight: "32px", maxHeight: "80px" }}
               />
               <button
@@ -203,9 +203,10 @@ export default function CommandTerminal({ logs, onCommand, processing }: Command
             );
           }
           return (
-            <div key={log.id} className={`${log.type === "command" ? "text-slate-400 font-bold" : ""} ${log.type === "info" ? "text-slate-300" : ""} ${log.type === "error" ? "text-red-400" : ""} ${log.type === "success" ? "text-emerald-400" : ""} ${entryAnim}`} style={staggerDelay ? { animationDelay: staggerDelay } : undefined}>
+            <div key={log.id} className={`${log.type === "command" ? "text-slate-400 font-bold" : ""} ${log.type === "info" ? "text-slate-300" : ""} ${log.type === "warning" ? "text-amber-300/90" : ""} ${log.type === "error" ? "text-red-400" : ""} ${log.type === "success" ? "text-emerald-400" : ""} ${entryAnim}`} style={staggerDelay ? { animationDelay: staggerDelay } : undefined}>
               {log.type === "command" && <span className="mr-2 text-slate-600">&gt;</span>}
               {log.text}
+              {log.streaming && <span className="ml-0.5 text-amber-500 animate-pulse">▍</span>}
             </div>
           );
         })}
@@ -7,7 +7,8 @@ import React, {
   useMemo,
   useCallback,
 } from "react";
-import { ChatThread, ChatMessage, Province, Player } from "@/lib/types";
+import { ChatThread, ChatMessage, DiplomaticProposal, Province, Player } from "@/lib/types";
+import { formatGameDate } from "@/lib/calendar";
 
 // ---------------------------------------------------------------------------
 // Props
@@ -25,6 +26,8 @@ interface DiplomacyChatProps {
     participantIds: string[],
     name?: string,
   ) => void;
+  onReadThread: (threadId: string) => void;
+  onRespondToProposal: (threadId: string, messageId: string, accept: boolean) => void;
   selectedProvinceId: string | number | null;
   processing: boolean;
 }
@@ -75,6 +78,14 @@ function toneLabel(tone?: ChatMessage["tone"]): string {
   }
 }
 
+const PROPOSAL_LABELS: Record<DiplomaticProposal["kind"], string> = {
+  ultimatum: "Ultimatum",
+  trade: "Trade offer",
+  alliance: "Alliance request",
+  peace: "Peace offer",
+  other: "Proposal",
+};
+
 /** Get all notable nations from provinces that aren't the player's own nation. */
 function getForeignNations(
   provinces: Province[],
@@ -410,11 +421,14 @@ function MessageBubble({
   message,
   isOwn,
   isGroup,
+  onRespond,
 }: {
   message: ChatMessage;
   isOwn: boolean;
   isGroup: boolean;
+  onRespond: (accept: boolean) => void;
 }) {
+  const proposal = message.proposal;
   return (
     <div
       className={`flex flex-col gap-0.5 mb-3 animate-in slide-in-from-bottom-2 fade-in duration-300 ${
@@ -451,9 +465,46 @@ function MessageBubble({
         <p className="whitespace-pre-wrap break-words">{message.content}</p>
       </div>
 
+      {/* Proposals from foreign leaders await an answer */}
+      {proposal && (
+        <div className="max-w-[85%] px-2.5 py-1.5 rounded-md border border-amber-800/50 bg-amber-950/30 text-[11px]">
+          <div className="text-amber-400 font-bold uppercase tracking-wider text-[9px]">
+            {PROPOSAL_LABELS[proposal.kind]}
+          </div>
+          <p className="text-slate-300 mt-0.5">{proposal.summary}</p>
+          {proposal.status === "pending" ? (
+            <div className="flex gap-1.5 mt-1.5">
+              <button
+                onClick={() => onRespond(true)}
+                className="px-2 py-0.5 rounded bg-emerald-800/60 hover:bg-emerald-700/70 text-emerald-200 text-[10px] font-bold uppercase tracking-wider transition-colors"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => onRespond(false)}
+                className="px-2 py-0.5 rounded bg-red-900/60 hover:bg-red-800/70 text-red-200 text-[10px] font-bold uppercase tracking-wider transition-colors"
+              >
+                Reject
+              </button>
+            </div>
+          ) : (
+            <p className={`mt-1 text-[10px] italic ${proposal.status === "accepted" ? "text-emerald-400" : "text-red-400"}`}>
+              {proposal.status === "accepted" ? "Accepted" : "Rejected"} &mdash; settled when time next advances
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Conference delegates show what they are after */}
+      {isGroup && !isOwn && message.agenda && (
+        <span className="text-[10px] italic text-slate-500 px-1 max-w-[85%]">
+          Agenda: {message.agenda}
+        </span>
+      )}
+
       {/* Timestamp */}
       <span className="text-[9px] text-slate-600 px-1 font-mono">
-        {formatYear(message.turnYear)}
+        {message.date ? formatGameDate(message.date) : formatYear(message.turnYear)}
       </span>
     </div>
   );
@@ -471,6 +522,8 @@ export default function DiplomacyChat({
   currentYear,
   onSendMessage,
   onCreateThread,
+  onReadThread,
+  onRespondToProposal,
   selectedProvinceId,
   processing,
 }: DiplomacyChatProps) {
@@ -539,17 +592,22 @@ export default function DiplomacyChat({
 
   // ----- Effects -----
 
-  // Auto-open newly created threads
+  // Auto-open threads the player just created; threads a foreign leader
+  // opened arrive with a message and wait in the list as unread
   const prevThreadCountRef = useRef(chatThreads.length);
   useEffect(() => {
     if (chatThreads.length > prevThreadCountRef.current) {
-      // A new thread was added - open it
       const newest = chatThreads[chatThreads.length - 1];
-      if (newest) setActiveThreadId(newest.id);
+      if (newest && newest.messages.length === 0) setActiveThreadId(newest.id);
     }
     prevThreadCountRef.current = chatThreads.length;
   }, [chatThreads]);
 
+  // Reading a thread clears its unread badge
+  useEffect(() => {
+    if (!collapsed && activeThread && activeThread.unreadCount > 0) onReadThread(activeThread.id);
+  }, [collapsed, activeThread, onReadThread]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     if (activeThread) {
@@ -847,6 +905,7 @@ export default function DiplomacyChat({
                     message={msg}
                     isOwn={msg.senderName === playerNationName}
                     isGroup={activeThread.type === "group"}
+                    onRespond={(accept) => onRespondToProposal(activeThread.id, msg.id, accept)}
                   />
                 ))}
 
@@ -920,7 +979,9 @@ export default function DiplomacyChat({
                       <div className="w-1 h-1 rounded-full bg-amber-500 animate-bounce" style={{ animationDelay: "300ms" }} />
                     </div>
                     <span className="text-[10px] text-amber-500/70">
-                      Awaiting response...
+                      {activeThread.type === "group" && activeThread.participants.length > 2
+                        ? "Delegates are deliberating..."
+                        : "Awaiting response..."}
                     </span>
                   </div>
                 )}
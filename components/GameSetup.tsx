@@ -2,16 +2,33 @@
 
 import React, { useState, useMemo } from "react";
 import { Province } from "@/lib/types";
+import { UNCLAIMED_COUNTRY_ID } from "@/lib/nation-registry";
 import { encryptKey, decryptKey } from "@/lib/crypto";
+import {
+  BUILT_IN_MAP_PACKS,
+  MAX_MAP_PACK_BYTES,
+  MapPack,
+  MapPackSource,
+  isUploadedMapPack,
+  validateMapPack,
+} from "@/lib/map-packs";
 
 interface GameSetupProps {
   provinces: Province[];
+  /** Map the provinces come from. */
+  mapPack: MapPackSource;
+  /** Load another map; resolves false when it has no usable provinces. */
+  onMapPackChange: (pack: MapPackSource) => Promise<boolean>;
   onStartGame: (config: GameConfig) => void;
   onBack?: () => void;
   preset?: { year: number; scenario: string; difficulty: string; suggestedNations: string[]; scenarioName?: string } | null;
+  /** Period the provinces' borders are drawn for, when the preset has era borders for the start year. */
+  eraLabel?: string | null;
+  /** Called as the start year is edited, so the borders can follow it. */
+  onYearChange?: (year: number) => void;
 }
 
-export type Provider = "local" | "google" | "openai" | "anthropic" | "deepseek";
+export type Provider = "local" | "google" | "openai" | "anthropic" | "deepseek" | "custom";
 
 export interface GameConfig {
   year: number;
@@ -20,7 +37,15 @@ export interface GameConfig {
   apiKey: string;
   provider: Provider;
   model: string;
+  /** OpenAI-compatible endpoint, only used when provider is "custom". */
+  baseUrl?: string;
   difficulty: "Sandbox" | "Easy" | "Realistic" | "Hardcore" | "Impossible";
+  /** Foreign provinces are only known as far as the player's intelligence reaches. */
+  fogOfWar?: boolean;
+  /** Map pack the game is played on; absent means the built-in world map. */
+  mapPackId?: string;
+  /** Year of the era borders the game started on; absent means present-day borders. */
+  eraYear?: number;
 }
 
 const MODELS: Record<Provider, { id: string; name: string }[]> = {
@@ -48,8 +73,22 @@ const MODELS: Record<Provider, { id: string; name: string }[]> = {
     { id: "claude-opus-4-6", name: "Claude Opus 4.6" },
     { id: "claude-haiku-4-5-20251001", name: "Claude Haiku 4.5" },
   ],
+  // Suggestions only — custom endpoints accept any model name the server exposes.
+  custom: [
+    { id: "llama3.1", name: "Llama 3.1 (Ollama)" },
+    { id: "qwen2.5", name: "Qwen 2.5 (Ollama)" },
+    { id: "mistral", name: "Mistral (Ollama)" },
+    { id: "meta-llama/llama-3.1-70b-instruct", name: "Llama 3.1 70B (OpenRouter)" },
+  ],
 };
 
+const CUSTOM_ENDPOINT_PRESETS: { name: string; url: string }[] = [
+  { name: "Ollama", url: "http://localhost:11434/v1" },
+  { name: "LM Studio", url: "http://localhost:1234/v1" },
+  { name: "vLLM", url: "http://localhost:8000/v1" },
+  { name: "OpenRouter", url: "https://openrouter.ai/api/v1" },
+];
+
 const DIFFICULTY_OPTIONS: { value: GameConfig["difficulty"]; label: string; icon: string }[] = [
   { value: "Sandbox", label: "Sandbox", icon: "\u{1F3D6}\uFE0F" },
   { value: "Easy", label: "Easy", icon: "\u{1F33F}" },
@@ -75,6 +114,24 @@ const loadProviderKey = (provider: Provider) => {
   } catch { return { apiKey: "", remember: false }; }
 };
 
+// Base URL and model for the custom endpoint are not secrets, so they are stored in plain text.
+const CUSTOM_ENDPOINT_STORAGE_KEY = "oh_custom_endpoint";
+
+const loadCustomEndpoint = (): { baseUrl: string; model: string } => {
+  if (typeof window === "undefined") return { baseUrl: "", model: "" };
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_ENDPOINT_STORAGE_KEY) || "{}");
+    return { baseUrl: saved.baseUrl || "", model: saved.model || "" };
+  } catch { return { baseUrl: "", model: "" }; }
+};
+
+const persistCustomEndpoint = (baseUrl: string, model: string) => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(CUSTOM_ENDPOINT_STORAGE_KEY, JSON.stringify({ baseUrl, model }));
+  } catch { /* ignore */ }
+};
+
 const persistProviderKey = (provider: Provider, rawApiKey: string, remember: boolean) => {
   if (typeof window === "undefined") return;
   const storageKey = getProviderStorageKey(provider);
@@ -119,7 +176,7 @@ const IconChevron = () => (
 /* Component                                                                  */
 /* -------------------------------------------------------------------------- */
 
-export default function GameSetup({ provinces, onStartGame, onBack, preset }: GameSetupProps) {
+export default function GameSetup({ provinces, mapPack, onMapPackChange, onStartGame, onBack, preset, eraLabel, onYearChange }: GameSetupProps) {
   const [year, setYear] = useState(preset?.year ?? 2026);
   const [scenario, setScenario] = useState(preset?.scenario ?? "The global order is shifting. New alliances are forming...");
   const [playerNationId, setPlayerNationId] = useState("");
@@ -127,12 +184,44 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
   const [apiKey, setApiKey] = useState(() => loadProviderKey(DEFAULT_PROVIDER).apiKey);
   const [rememberKey, setRememberKey] = useState(() => loadProviderKey(DEFAULT_PROVIDER).remember);
   const [model, setModel] = useState(MODELS[DEFAULT_PROVIDER][0].id);
+  const [baseUrl, setBaseUrl] = useState(() => loadCustomEndpoint().baseUrl);
   const [difficulty, setDifficulty] = useState<GameConfig["difficulty"]>((preset?.difficulty as GameConfig["difficulty"]) || "Realistic");
+  const [fogOfWar, setFogOfWar] = useState(false);
   const [editingScenario, setEditingScenario] = useState(false);
+  const [uploadedPacks, setUploadedPacks] = useState<MapPack[]>(() => (isUploadedMapPack(mapPack) ? [mapPack] : []));
+  const [mapPackStatus, setMapPackStatus] = useState<{ loading?: boolean; error?: string; warnings?: string[] }>({});
+
+  const changeMapPack = async (pack: MapPackSource, warnings: string[] = []) => {
+    setMapPackStatus({ loading: true });
+    const ok = await onMapPackChange(pack);
+    setMapPackStatus(ok ? { warnings } : { error: `"${pack.name}" has no provinces the game can use.` });
+    if (ok) setPlayerNationId("");
+  };
+
+  const handleMapPackFile = async (file: File) => {
+    if (file.size > MAX_MAP_PACK_BYTES) {
+      setMapPackStatus({ error: `${file.name} is larger than ${MAX_MAP_PACK_BYTES / 1024 / 1024} MB.` });
+      return;
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setMapPackStatus({ error: `${file.name} is not valid JSON.` });
+      return;
+    }
+    const check = validateMapPack(raw, file.name);
+    if ("error" in check) {
+      setMapPackStatus({ error: check.error });
+      return;
+    }
+    setUploadedPacks((prev) => [...prev.filter((p) => p.id !== check.pack.id), check.pack]);
+    await changeMapPack(check.pack, check.warnings);
+  };
 
   const handleProviderChange = (newProvider: Provider) => {
     setProvider(newProvider);
-    setModel(MODELS[newProvider][0].id);
+    setModel(newProvider === "custom" ? (loadCustomEndpoint().model || MODELS.custom[0].id) : MODELS[newProvider][0].id);
     const { apiKey: savedApiKey, remember } = loadProviderKey(newProvider);
     setApiKey(savedApiKey);
     setRememberKey(remember);
@@ -144,7 +233,7 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
   const majorNations = useMemo(() => {
     const seen = new Set<string>();
     return provinces
-      .filter(p => p.name !== "Antarctica" && !p.name.startsWith("Region"))
+      .filter(p => p.name !== "Antarctica" && !p.name.startsWith("Region") && p.parentCountryId !== UNCLAIMED_COUNTRY_ID)
       .filter(p => {
         // For sub-national provinces, deduplicate by parent country
         const key = p.parentCountryId || String(p.id);
@@ -179,12 +268,21 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const k = apiKey.trim();
+    if (provider === "custom") {
+      const url = baseUrl.trim();
+      const m = model.trim();
+      if (!playerNationId || !url || !m) { alert("Please select a nation and provide the endpoint base URL and model."); return; }
+      persistProviderKey(provider, k, rememberKey);
+      persistCustomEndpoint(url, m);
+      onStartGame({ year, scenario, playerNationId, apiKey: k, provider, model: m, baseUrl: url, difficulty, fogOfWar });
+      return;
+    }
     if (!playerNationId || (provider !== "local" && !k)) { alert("Please select a nation and provide an API Key."); return; }
     persistProviderKey(provider, k, rememberKey);
-    onStartGame({ year, scenario, playerNationId, apiKey: k, provider, model, difficulty });
+    onStartGame({ year, scenario, playerNationId, apiKey: k, provider, model, difficulty, fogOfWar });
   };
 
-  const providerLabel = provider === "local" ? "Local CLI Bridge (No Key)" : provider === "deepseek" ? "DeepSeek" : provider === "google" ? "Google Gemini" : provider === "openai" ? "OpenAI" : "Anthropic Claude";
+  const providerLabel = provider === "local" ? "Local CLI Bridge (No Key)" : provider === "deepseek" ? "DeepSeek" : provider === "google" ? "Google Gemini" : provider === "openai" ? "OpenAI" : provider === "custom" ? "Custom Endpoint" : "Anthropic Claude";
 
   /* ---- card wrapper: matches the reference design exactly ---- */
   const Card = ({ children, glowFrom, glowTo }: { children: React.ReactNode; glowFrom: string; glowTo: string }) => (
@@ -258,13 +356,60 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                       <option value="google">Google Gemini</option>
                       <option value="openai">OpenAI</option>
                       <option value="anthropic">Anthropic Claude</option>
+                      <option value="custom">Custom Endpoint (OpenAI-compatible)</option>
                     </select>
                   </SelectWrapper>
                 </div>
 
+                {/* Custom endpoint base URL */}
+                {provider === "custom" && (
+                  <div className="space-y-2">
+                    <label className="text-xs text-gray-400 ml-1 mb-1 block">Base URL</label>
+                    <input
+                      type="url"
+                      value={baseUrl}
+                      onChange={e => setBaseUrl(e.target.value)}
+                      className="w-full bg-[#1E2538] border-none rounded-xl py-3 px-4 text-sm text-gray-200 font-mono shadow-inner placeholder-gray-600 focus:ring-2 focus:ring-blue-500 outline-none"
+                      placeholder="http://localhost:11434/v1"
+                    />
+                    <div className="flex flex-wrap gap-1.5 px-1">
+                      {CUSTOM_ENDPOINT_PRESETS.map(p => (
+                        <button
+                          key={p.name}
+                          type="button"
+                          onClick={() => setBaseUrl(p.url)}
+                          className={`px-2 py-0.5 rounded text-[10px] border transition-colors ${
+                            baseUrl === p.url
+                              ? "bg-blue-500/20 border-blue-500/40 text-blue-300"
+                              : "bg-[#1E2538] border-gray-700 text-gray-500 hover:text-gray-300"
+                          }`}
+                        >
+                          {p.name}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-gray-500 ml-1">Called from the game server, so &quot;localhost&quot; is the server&apos;s machine. The host must be allowed in CUSTOM_PROVIDER_HOSTS.</p>
+                  </div>
+                )}
+
                 {/* Model */}
                 <div>
                   <label className="text-xs text-gray-400 ml-1 mb-1 block">Model</label>
+                  {provider === "custom" ? (
+                    <>
+                      <input
+                        type="text"
+                        list="custom-model-suggestions"
+                        value={model}
+                        onChange={e => setModel(e.target.value)}
+                        className="w-full bg-[#1E2538] border-none rounded-xl py-3 px-4 text-sm text-gray-200 font-mono shadow-inner placeholder-gray-600 focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder="Model name exposed by the server"
+                      />
+                      <datalist id="custom-model-suggestions">
+                        {MODELS.custom.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                      </datalist>
+                    </>
+                  ) : (
                   <SelectWrapper>
                     <select
                       value={model}
@@ -274,6 +419,7 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                       {MODELS[provider].map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                     </select>
                   </SelectWrapper>
+                  )}
                 </div>
 
                 {/* Status / API Key */}
@@ -286,7 +432,7 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    <label className="text-xs text-gray-400 ml-1 mb-1 block">API Key</label>
+                    <label className="text-xs text-gray-400 ml-1 mb-1 block">API Key{provider === "custom" && <span className="text-gray-600"> (optional)</span>}</label>
                     <input
                       type="password"
                       value={apiKey}
@@ -315,6 +461,56 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                 <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-400">Nation</h2>
               </div>
 
+              {/* Map pack */}
+              <div className="mb-4">
+                <label className="text-xs text-gray-400 ml-1 mb-1 block">Map</label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <select
+                      value={mapPack.id}
+                      disabled={mapPackStatus.loading}
+                      onChange={e => {
+                        const pack = BUILT_IN_MAP_PACKS[e.target.value] ?? uploadedPacks.find(p => p.id === e.target.value);
+                        if (pack) changeMapPack(pack);
+                      }}
+                      className="w-full bg-[#1E2538] border-none rounded-xl py-3 pl-4 pr-10 text-sm text-gray-200 shadow-inner appearance-none focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer disabled:opacity-50"
+                    >
+                      {Object.values(BUILT_IN_MAP_PACKS).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      {uploadedPacks.map(p => <option key={p.id} value={p.id}>{p.name} (uploaded)</option>)}
+                    </select>
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"><IconChevron /></span>
+                  </div>
+                  <label className="shrink-0 flex items-center px-3 rounded-xl bg-gray-800 text-xs text-gray-300 hover:bg-indigo-900/30 cursor-pointer transition-colors" title="Load a map pack: a TopoJSON world with optional nations, resources and cities">
+                    Upload
+                    <input
+                      type="file"
+                      accept=".json,.topojson,application/json"
+                      className="hidden"
+                      onChange={e => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) handleMapPackFile(file);
+                      }}
+                    />
+                  </label>
+                </div>
+                {mapPackStatus.loading ? (
+                  <p className="text-[10px] text-gray-500 mt-1 ml-1">Loading map...</p>
+                ) : mapPackStatus.error ? (
+                  <p className="text-[10px] text-rose-400 mt-1 ml-1">{mapPackStatus.error}</p>
+                ) : (
+                  mapPack.description && <p className="text-[10px] text-gray-500 mt-1 ml-1">{mapPack.description}</p>
+                )}
+                {mapPackStatus.warnings && mapPackStatus.warnings.length > 0 && (
+                  <details className="text-[10px] text-amber-500/80 mt-1 ml-1">
+                    <summary className="cursor-pointer">{mapPackStatus.warnings.length} problem{mapPackStatus.warnings.length > 1 ? "s" : ""} in the map pack were skipped</summary>
+                    <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto">
+                      {mapPackStatus.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                    </ul>
+                  </details>
+                )}
+              </div>
+
               {/* Suggested nations */}
               {suggestedNationPicks.length > 0 && (
                 <div className="mb-4">
@@ -358,6 +554,7 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                   </select>
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"><IconChevron /></span>
                 </div>
+                {eraLabel && <p className="text-[10px] text-gray-500 mt-1 ml-1">Borders as of {eraLabel}</p>}
               </div>
 
               {/* Year */}
@@ -366,7 +563,11 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                 <input
                   type="number"
                   value={isNaN(year) ? "" : year}
-                  onChange={e => setYear(parseInt(e.target.value))}
+                  onChange={e => {
+                    const next = parseInt(e.target.value);
+                    setYear(next);
+                    onYearChange?.(next);
+                  }}
                   className="w-full bg-[#1E2538] border-none rounded-xl py-3 px-4 text-sm font-mono font-bold text-white shadow-inner focus:ring-2 focus:ring-orange-500 outline-none"
                 />
               </div>
@@ -395,6 +596,10 @@ export default function GameSetup({ provinces, onStartGame, onBack, preset }: Ga
                     );
                   })}
                 </div>
+                <label className="flex items-center gap-1.5 cursor-pointer text-[10px] text-gray-500 hover:text-gray-400 transition-colors mt-2 ml-1">
+                  <input type="checkbox" checked={fogOfWar} onChange={e => setFogOfWar(e.target.checked)} className="accent-amber-600 w-3 h-3" />
+                  Fog of war: foreign provinces are only known through borders, allies and spies
+                </label>
               </div>
             </Card>
           </div>
@@ -1,16 +1,21 @@
 "use client";
 
 import React from "react";
-import { Province, Player } from "@/lib/types";
+import { Province, Player, ResourceKey } from "@/lib/types";
+import type { ProvinceIntel } from "@/lib/intelligence";
+import ResourceDelta from "./ResourceDelta";
+import IntelNote from "./IntelNote";
 
 interface GlobeTooltipProps {
   province: Province | null;
   owner?: Player;
   position: { x: number; y: number };
   visible: boolean;
+  /** Fog of war: what the player knows of this province; estimates are marked with "~". */
+  intel?: ProvinceIntel;
 }
 
-export default function GlobeTooltip({ province, owner, position, visible }: GlobeTooltipProps) {
+export default function GlobeTooltip({ province, owner, position, visible, intel }: GlobeTooltipProps) {
   if (!visible || !province) return null;
 
   const isRight = typeof window !== "undefined" && position.x > window.innerWidth - 280;
@@ -29,6 +34,11 @@ export default function GlobeTooltip({ province, owner, position, visible }: Glo
   };
 
   const isPlayerOwned = owner?.id === "player";
+  const resources = intel?.resources ?? province.resources;
+  const approx = intel?.estimated ? "~" : "";
+  // Deltas would give away exact figures
+  const delta = (resource: ResourceKey) =>
+    approx ? null : <ResourceDelta province={province} resource={resource} />;
 
   return (
     <div
@@ -72,11 +82,13 @@ export default function GlobeTooltip({ province, owner, position, visible }: Glo
             Population
           </div>
           <div className="text-emerald-400 font-semibold text-sm">
-            {province.resources.population >= 1000000
-              ? `${(province.resources.population / 1000000).toFixed(1)}M`
-              : province.resources.population >= 1000
-              ? `${(province.resources.population / 1000).toFixed(0)}K`
-              : province.resources.population.toLocaleString()}
+            {approx}
+            {resources.population >= 1000000
+              ? `${(resources.population / 1000000).toFixed(1)}M`
+              : resources.population >= 1000
+              ? `${(resources.population / 1000).toFixed(0)}K`
+              : resources.population.toLocaleString()}
+            {delta("population")}
           </div>
         </div>
         <div className="bg-slate-800/60 p-2 rounded-lg border border-slate-700/40">
@@ -84,7 +96,8 @@ export default function GlobeTooltip({ province, owner, position, visible }: Glo
             Defense
           </div>
           <div className="text-rose-400 font-semibold text-sm">
-            {province.resources.defense}
+            {approx}{resources.defense}
+            {delta("defense")}
           </div>
         </div>
         <div className="bg-slate-800/60 p-2 rounded-lg border border-slate-700/40">
@@ -92,7 +105,8 @@ export default function GlobeTooltip({ province, owner, position, visible }: Glo
             Economy
           </div>
           <div className="text-sky-400 font-semibold text-sm">
-            {province.resources.economy}
+            {approx}{resources.economy}
+            {delta("economy")}
           </div>
         </div>
         <div className="bg-slate-800/60 p-2 rounded-lg border border-slate-700/40">
@@ -100,11 +114,14 @@ export default function GlobeTooltip({ province, owner, position, visible }: Glo
             Technology
           </div>
           <div className="text-violet-400 font-semibold text-sm">
-            {province.resources.technology}
+            {approx}{resources.technology}
+            {delta("technology")}
           </div>
         </div>
       </div>
 
+      {intel && <IntelNote intel={intel} />}
+
       {/* Subtle hint */}
       <div className="text-[10px] text-slate-600 text-center mt-0.5 font-sans">
         Click to select
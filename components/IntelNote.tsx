@@ -0,0 +1,25 @@
+import React from "react";
+import { INTEL_LABELS, ProvinceIntel } from "@/lib/intelligence";
+import { formatGameMonth } from "@/lib/calendar";
+
+interface IntelNoteProps {
+  intel: ProvinceIntel;
+  className?: string;
+}
+
+/** One-line intelligence caveat for a fogged province: the level, and how old the report is. */
+export default function IntelNote({ intel, className = "" }: IntelNoteProps) {
+  if (intel.level === "full") return null;
+
+  const detail = intel.asOf
+    ? `last reported ${formatGameMonth(intel.asOf)}`
+    : intel.estimated
+    ? "figures estimated"
+    : "current";
+
+  return (
+    <div className={`text-[10px] font-mono ${intel.asOf ? "text-amber-500/80" : "text-slate-500"} ${className}`}>
+      {INTEL_LABELS[intel.level]} · {detail}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import { CHANGE_WINDOWS, MAP_MODES, MapLegend, MapMode } from "@/lib/map-modes";
+
+interface MapModeControlProps {
+  mode: MapMode;
+  onModeChange: (mode: MapMode) => void;
+  /** Turns the changes mode looks back over. */
+  changeTurns: number;
+  onChangeTurnsChange: (turns: number) => void;
+  legend?: MapLegend | null;
+}
+
+/** Map mode switcher with the active mode's legend. */
+export default function MapModeControl({ mode, onModeChange, changeTurns, onChangeTurnsChange, legend }: MapModeControlProps) {
+  return (
+    <div className="font-mono text-xs select-none w-44 bg-slate-900/90 border border-slate-700 rounded-lg backdrop-blur shadow-xl overflow-hidden">
+      <div className="px-2 py-1.5 border-b border-slate-800 flex items-center gap-2">
+        <span className="text-slate-400 text-[10px] uppercase tracking-wider">Map</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as MapMode)}
+          className="flex-1 bg-slate-800 text-white text-xs border border-slate-700 rounded px-1 py-0.5 outline-none"
+        >
+          {MAP_MODES.map((m) => (
+            <option key={m.id} value={m.id}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {mode === "changes" && (
+        <div className="px-2 pt-1.5 flex items-center gap-1 text-[10px] text-slate-500">
+          <span>Last</span>
+          {CHANGE_WINDOWS.map((n) => (
+            <button
+              key={n}
+              onClick={() => onChangeTurnsChange(n)}
+              className={`px-1.5 rounded ${n === changeTurns ? "bg-amber-700/60 text-amber-100" : "hover:text-slate-300"}`}
+            >
+              {n}
+            </button>
+          ))}
+          <span>turns</span>
+        </div>
+      )}
+
+      {legend && (
+        <div className="p-2 space-y-1">
+          <div className="text-[10px] text-slate-400 uppercase tracking-wider">{legend.title}</div>
+          {legend.entries.map((entry) => (
+            <div key={entry.label} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm shrink-0 border border-slate-700" style={{ backgroundColor: entry.color }} />
+              <span className="text-slate-300 truncate">{entry.label}</span>
+            </div>
+          ))}
+          {legend.note && <div className="text-[10px] text-slate-500 pt-0.5">{legend.note}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,7 +17,9 @@ import "maplibre-gl/dist/maplibre-gl.css";
 import * as topojson from "topojson-client";
 import type { FeatureCollection, Feature, Geometry, Polygon, MultiPolygon } from "geojson";
 import { Province, Player, MapTheme, DiplomaticRelation } from "@/lib/types";
-import { WORLD_CITIES } from "@/lib/cities";
+import { CityMarker, WORLD_CITIES } from "@/lib/cities";
+import type { ProvinceIntel } from "@/lib/intelligence";
+import { MapOverlay, overlayColor } from "@/lib/map-modes";
 import Tooltip from "./Tooltip";
 
 // ---------------------------------------------------------------------------
@@ -31,6 +33,14 @@ interface MapViewProps {
   selectedProvinceId: string | number | null;
   theme?: MapTheme;
   relations?: DiplomaticRelation[];
+  /** Fog of war: the player's knowledge by province id; `provinces` should already show believed owners. */
+  intel?: Map<string, ProvinceIntel> | null;
+  /** Map mode colors replacing owner colors; null shows the political map. */
+  overlay?: MapOverlay | null;
+  /** City labels of the map pack. */
+  cities?: CityMarker[];
+  /** Load state outlines (tier 3) when zoomed in; they only match the built-in world map. */
+  stateDetail?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -224,7 +234,8 @@ function computeFillColor(
 function buildTier2GeoJSON(
   provinces: Province[],
   players: Record<string, Player>,
-  landColor: string
+  landColor: string,
+  overlay: MapOverlay | null
 ): FeatureCollection {
   const landRgb = parseColor(landColor);
   const features: Feature[] = provinces.map((p) => ({
@@ -235,7 +246,7 @@ function buildTier2GeoJSON(
       id: String(p.id),
       name: p.name,
       ownerId: p.ownerId || "",
-      fillColor: computeFillColor(p, players, landRgb),
+      fillColor: overlayColor(overlay?.provinceColors, String(p.id)) ?? computeFillColor(p, players, landRgb),
       parentCountryId: p.parentCountryId || String(p.id),
       isSubNational: p.isSubNational ? 1 : 0,
       isPlayer: p.ownerId === "player" ? 1 : 0,
@@ -248,10 +259,13 @@ function buildTier2GeoJSON(
   return { type: "FeatureCollection", features };
 }
 
+// One feature per map country. Transfers, merges and renames (lib/territory.ts)
+// rewrite the provinces' country fields and geometry, so the borders follow.
 function buildTier1GeoJSON(
   provinces: Province[],
   players: Record<string, Player>,
-  landColor: string
+  landColor: string,
+  overlay: MapOverlay | null
 ): FeatureCollection {
   type CountryEntry = {
     polygons: number[][][][];
@@ -295,7 +309,10 @@ function buildTier1GeoJSON(
     if (entry.polygons.length === 0) continue;
 
     let fillColor: string;
-    if (entry.allSameOwner && entry.ownerId && players[entry.ownerId]) {
+    const overlayFill = overlayColor(overlay?.countryColors, cid);
+    if (overlayFill) {
+      fillColor = overlayFill;
+    } else if (entry.allSameOwner && entry.ownerId && players[entry.ownerId]) {
       const ownerRgb = parseColor(players[entry.ownerId].color);
       const boost = entry.ownerId === "player" ? 1.2 : 1.05;
       fillColor = rgbToHex(
@@ -339,10 +356,10 @@ function buildTier1GeoJSON(
   return { type: "FeatureCollection", features };
 }
 
-function buildCitiesGeoJSON(): FeatureCollection {
+function buildCitiesGeoJSON(cities: CityMarker[]): FeatureCollection {
   return {
     type: "FeatureCollection",
-    features: WORLD_CITIES.map((city) => ({
+    features: cities.map((city) => ({
       type: "Feature" as const,
       geometry: { type: "Point" as const, coordinates: [city.lon, city.lat] },
       properties: { name: city.name, tier: city.tier },
@@ -409,6 +426,10 @@ export default function MapView({
   selectedProvinceId,
   theme = "classic",
   relations = [],
+  intel = null,
+  overlay = null,
+  cities = WORLD_CITIES,
+  stateDetail = true,
 }: MapViewProps) {
   const mapRef = useRef<MapRef>(null);
   const th = THEMES[theme];
@@ -470,16 +491,16 @@ export default function MapView({
   // ---------------------------------------------------------------------------
 
   const tier2GeoJSON = useMemo(
-    () => buildTier2GeoJSON(provinces, players, th.land),
-    [provinces, players, th.land]
+    () => buildTier2GeoJSON(provinces, players, th.land, overlay),
+    [provinces, players, th.land, overlay]
   );
 
   const tier1GeoJSON = useMemo(
-    () => buildTier1GeoJSON(provinces, players, th.land),
-    [provinces, players, th.land]
+    () => buildTier1GeoJSON(provinces, players, th.land, overlay),
+    [provinces, players, th.land, overlay]
   );
 
-  const citiesGeoJSON = useMemo(() => buildCitiesGeoJSON(), []);
+  const citiesGeoJSON = useMemo(() => buildCitiesGeoJSON(cities), [cities]);
 
   const warBorderGeoJSON = useMemo(
     () => buildRelationBorderGeoJSON(provinces, warPairs),
@@ -527,7 +548,7 @@ export default function MapView({
   // ---------------------------------------------------------------------------
 
   const tier3Colored = useMemo<FeatureCollection | null>(() => {
-    if (!tier3GeoJSON) return null;
+    if (!tier3GeoJSON || !stateDetail) return null;
     const regionColorMap: globalThis.Map<string, string> = new globalThis.Map();
     for (const f of tier2GeoJSON.features) {
       if (f.properties) {
@@ -536,12 +557,16 @@ export default function MapView({
     }
     const features = tier3GeoJSON.features.map((f) => {
       const regionId = f.properties?.regionId || "";
+      // States outside any region keep their own color on the political map only
       const fillColor =
-        regionColorMap.get(regionId) || f.properties?.color || "#334155";
+        regionColorMap.get(regionId) ||
+        overlayColor(overlay?.provinceColors, regionId) ||
+        f.properties?.color ||
+        "#334155";
       return { ...f, properties: { ...f.properties, fillColor } };
     });
     return { type: "FeatureCollection", features };
-  }, [tier3GeoJSON, tier2GeoJSON]);
+  }, [tier3GeoJSON, tier2GeoJSON, overlay, stateDetail]);
 
   // ---------------------------------------------------------------------------
   // MapLibre Style
@@ -647,7 +672,7 @@ export default function MapView({
   // ---------------------------------------------------------------------------
 
   const handleZoomEnd = useCallback(() => {
-    if (tier3LoadedRef.current) return;
+    if (tier3LoadedRef.current || !stateDetail) return;
     const zoom = mapRef.current?.getZoom();
     if (zoom && zoom >= 5) {
       tier3LoadedRef.current = true;
@@ -666,7 +691,7 @@ export default function MapView({
           tier3LoadedRef.current = false;
         });
     }
-  }, []);
+  }, [stateDetail]);
 
   // ---------------------------------------------------------------------------
   // Click handler
@@ -1230,6 +1255,7 @@ export default function MapView({
           province={tooltipData.province}
           owner={tooltipData.owner}
           position={tooltipScreenPos}
+          intel={intel?.get(String(tooltipData.province.id))}
         />
       )}
     </>
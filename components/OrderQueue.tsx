@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Order, OrderTarget } from "@/lib/types";
+import { ORDER_CATEGORIES, ORDER_PRIORITIES } from "@/lib/orders";
+
+interface OrderQueueProps {
+  orders: Order[];
+  onEdit: (id: string, patch: Partial<Omit<Order, "id">>) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  /** Targets offered from the current map selection: the province and its owner. */
+  selectionTargets?: OrderTarget[];
+  disabled?: boolean;
+}
+
+const PRIORITY_COLORS: Record<Order["priority"], string> = {
+  high: "text-rose-300 border-rose-800/60",
+  normal: "text-slate-300 border-slate-700",
+  low: "text-slate-500 border-slate-800",
+};
+
+/** Editable list of the orders queued for the next turn, in execution order. */
+export default function OrderQueue({ orders, onEdit, onRemove, onMove, selectionTargets = [], disabled }: OrderQueueProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEdit = (order: Order) => {
+    setEditingId(order.id);
+    setDraft(order.text);
+  };
+
+  const commitEdit = () => {
+    if (editingId && draft.trim()) onEdit(editingId, { text: draft.trim() });
+    setEditingId(null);
+  };
+
+  if (orders.length === 0) {
+    return <div className="text-slate-500 text-xs px-2 py-1.5">No orders queued</div>;
+  }
+
+  return (
+    <div className="max-h-56 overflow-y-auto p-1.5 space-y-1 text-xs font-mono">
+      {orders.map((order, idx) => (
+        <div key={order.id} className="bg-slate-950/60 border border-slate-800 rounded px-2 py-1.5">
+          <div className="flex items-start gap-2">
+            <span className="text-slate-600 shrink-0 w-4 text-right">{idx + 1}.</span>
+            {editingId === order.id ? (
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitEdit}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitEdit();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="flex-1 bg-slate-900 border border-amber-700 rounded px-1 text-slate-100 outline-none"
+              />
+            ) : (
+              <span
+                onClick={() => !disabled && startEdit(order)}
+                title="Click to edit"
+                className="flex-1 text-slate-200 break-words cursor-text hover:text-white"
+              >
+                {order.text}
+              </span>
+            )}
+            <div className="flex items-center shrink-0 text-slate-500">
+              <button onClick={() => onMove(order.id, -1)} disabled={disabled || idx === 0} className="px-1 hover:text-slate-200 disabled:opacity-30" title="Move up">
+                {"▲"}
+              </button>
+              <button onClick={() => onMove(order.id, 1)} disabled={disabled || idx === orders.length - 1} className="px-1 hover:text-slate-200 disabled:opacity-30" title="Move down">
+                {"▼"}
+              </button>
+              <button onClick={() => onRemove(order.id)} disabled={disabled} className="px-1 hover:text-rose-400 disabled:opacity-30" title="Remove order">
+                {"✕"}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1.5 mt-1 ml-6 text-[10px]">
+            <select
+              value={order.priority}
+              onChange={(e) => onEdit(order.id, { priority: e.target.value as Order["priority"] })}
+              disabled={disabled}
+              className={`bg-slate-900 border rounded px-1 py-0.5 uppercase outline-none ${PRIORITY_COLORS[order.priority]}`}
+            >
+              {ORDER_PRIORITIES.map((p) => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+            <select
+              value={order.category}
+              onChange={(e) => onEdit(order.id, { category: e.target.value as Order["category"] })}
+              disabled={disabled}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-400 outline-none"
+            >
+              {ORDER_CATEGORIES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            {order.target ? (
+              <span className="flex items-center gap-1 text-amber-300 truncate">
+                {"→"} {order.target.name}
+                <button onClick={() => onEdit(order.id, { target: undefined })} disabled={disabled} className="text-slate-500 hover:text-rose-400" title="Clear target">
+                  {"✕"}
+                </button>
+              </span>
+            ) : (
+              selectionTargets.map((t) => (
+                <button
+                  key={`${t.kind}-${t.id}`}
+                  onClick={() => onEdit(order.id, { target: t })}
+                  disabled={disabled}
+                  className="text-slate-500 hover:text-amber-300 truncate"
+                  title={`Target the selected ${t.kind}`}
+                >
+                  + {t.name}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      ))}
+      {selectionTargets.length === 0 && (
+        <div className="text-[10px] text-slate-600 px-1">Select a province on the map to target an order at it.</div>
+      )}
+    </div>
+  );
+}
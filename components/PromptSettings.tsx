@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import { MINISTERS } from "@/lib/council";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -11,6 +12,11 @@ export interface PromptOverrides {
   adjudicationRules: string;
   diplomacyInstructions: string;
   advisorPersonality: string;
+  warMinisterPersonality: string;
+  foreignMinisterPersonality: string;
+  treasuryMinisterPersonality: string;
+  interiorMinisterPersonality: string;
+  spymasterPersonality: string;
 }
 
 const STORAGE_KEY = "open-historia-prompt-overrides";
@@ -36,6 +42,16 @@ Only change relations for SIGNIFICANT shifts (treaty agreed, threat made, trust
   advisorPersonality: `You are the Grand Advisor to the ruler. Loyal, blunt, strategically brilliant. Address the ruler appropriately for the era ("my liege", "your majesty", "sir/madam", etc.).
 
 Think in terms of grand strategy across military, diplomatic, economic, and domestic dimensions. Consider second-order effects ("if we do X, then Y happens, making Z possible"). Reference specific nations and events. Give concrete, actionable recommendations.`,
+
+  // Council ministers share their defaults with the prompt builder via lib/council.ts
+  ...(Object.fromEntries(MINISTERS.map((m) => [m.overrideKey, m.defaultPersonality])) as Pick<
+    PromptOverrides,
+    | "warMinisterPersonality"
+    | "foreignMinisterPersonality"
+    | "treasuryMinisterPersonality"
+    | "interiorMinisterPersonality"
+    | "spymasterPersonality"
+  >),
 };
 
 // ---------------------------------------------------------------------------
@@ -73,6 +89,7 @@ const FIELDS: { key: keyof PromptOverrides; label: string; rows: number }[] = [
   { key: "adjudicationRules", label: "Adjudication Rules", rows: 10 },
   { key: "diplomacyInstructions", label: "Diplomacy Instructions", rows: 5 },
   { key: "advisorPersonality", label: "Advisor Personality", rows: 5 },
+  ...MINISTERS.map((m) => ({ key: m.overrideKey, label: `${m.title} Personality`, rows: 4 })),
 ];
 
 export default function PromptSettings({ open, onClose }: Props) {
@@ -139,7 +156,7 @@ export default function PromptSettings({ open, onClose }: Props) {
         {/* Body */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
           <p className="text-xs text-slate-400">
-            Customize the AI prompt templates used by the Game Master, Diplomacy, and Advisor systems.
+            Customize the AI prompt templates used by the Game Master, Diplomacy, Advisor and Council systems.
             Changes apply to all future AI calls. Reset to restore original prompts.
           </p>
 
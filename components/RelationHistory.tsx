@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { RelationChangeSource, RelationLedgerEntry } from "@/lib/types";
+import { formatGameMonth } from "@/lib/calendar";
+import { nationLedger } from "@/lib/relation-ledger";
+
+interface RelationHistoryProps {
+  ledger: RelationLedgerEntry[];
+  /** Display name of the nation whose history is shown. */
+  nation: string;
+  /** Maps a stored name to the one shown; defaults to the name itself. */
+  resolveName?: (name: string) => string;
+  /** Called when a counterpart is clicked, to switch to its history. */
+  onSelectNation?: (nation: string) => void;
+}
+
+export const RELATION_COLORS: Record<string, { bg: string; text: string; border: string }> = {
+  allied:  { bg: "bg-emerald-900/40", text: "text-emerald-400", border: "border-emerald-600" },
+  friendly: { bg: "bg-sky-900/40", text: "text-sky-400", border: "border-sky-600" },
+  neutral: { bg: "bg-slate-800/40", text: "text-slate-400", border: "border-slate-600" },
+  hostile: { bg: "bg-orange-900/40", text: "text-orange-400", border: "border-orange-600" },
+  war:     { bg: "bg-red-900/40", text: "text-red-400", border: "border-red-600" },
+  vassal:  { bg: "bg-purple-900/40", text: "text-purple-400", border: "border-purple-600" },
+};
+
+const SOURCE_LABELS: Record<RelationChangeSource, string> = {
+  turn: "World events",
+  diplomacy: "Envoy talks",
+  conference: "Conference",
+};
+
+/** A nation's relation changes with everyone, newest first. */
+export default function RelationHistory({ ledger, nation, resolveName = (n) => n, onSelectNation }: RelationHistoryProps) {
+  const entries = useMemo(() => [...nationLedger(ledger, nation)].reverse(), [ledger, nation]);
+
+  if (entries.length === 0) {
+    return <div className="text-slate-500 text-center py-2">No relation changes recorded for {resolveName(nation)}</div>;
+  }
+
+  return (
+    <ol className="relative ml-1 pl-3 border-l border-slate-800 space-y-2">
+      {entries.map((e) => {
+        const other = e.nationA === nation ? e.nationB : e.nationA;
+        const to = RELATION_COLORS[e.to] || RELATION_COLORS.neutral;
+        return (
+          <li key={e.id} className="relative">
+            <span className={`absolute -left-[17px] top-1 w-2 h-2 rounded-full border ${to.border} ${to.bg}`} />
+            <div className="flex items-center gap-2">
+              <span className="text-slate-500 shrink-0">{formatGameMonth(e.date)}</span>
+              <button
+                onClick={() => onSelectNation?.(other)}
+                disabled={!onSelectNation}
+                className="text-slate-200 truncate flex-1 text-left enabled:hover:text-amber-300 transition-colors"
+                title={onSelectNation ? `Show ${resolveName(other)}'s history` : undefined}
+              >
+                {resolveName(other)}
+              </button>
+              <span className="shrink-0 text-[9px] uppercase">
+                <span className={RELATION_COLORS[e.from]?.text ?? "text-slate-400"}>{e.from}</span>
+                <span className="text-slate-600"> {"\u2192"} </span>
+                <span className={`${to.text} font-bold`}>{e.to}</span>
+              </span>
+            </div>
+            <div className="text-[10px] text-slate-400">{e.cause}</div>
+            {e.message && (
+              <div className="text-[10px] text-slate-500 italic truncate" title={e.message}>
+                {"\u201C"}{e.message}{"\u201D"}
+              </div>
+            )}
+            <div className="text-[9px] text-slate-600 uppercase tracking-wider">{SOURCE_LABELS[e.source] ?? e.source}</div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,31 +1,78 @@
 "use client";
 
 import React, { useState, useMemo } from "react";
-import type { DiplomaticRelation, Province } from "@/lib/types";
+import type { DiplomaticRelation, Player, Province, RelationLedgerEntry, Treaty } from "@/lib/types";
+import { nationDisplayName } from "@/lib/nation-registry";
+import { formatGameMonth } from "@/lib/calendar";
+import { TREATY_LABELS, collectTreaties, treatyEndDate } from "@/lib/treaties";
+import { formatOpinion, opinionScore } from "@/lib/opinion";
+import { resolveLedger } from "@/lib/relation-ledger";
+import RelationHistory, { RELATION_COLORS } from "./RelationHistory";
 
 interface RelationsPanelProps {
   relations: DiplomaticRelation[];
+  ledger: RelationLedgerEntry[];
   playerNationName: string;
   provinces: Province[];
+  players: Record<string, Player>;
 }
 
-const RELATION_COLORS: Record<string, { bg: string; text: string; border: string }> = {
-  allied:  { bg: "bg-emerald-900/40", text: "text-emerald-400", border: "border-emerald-600" },
-  friendly: { bg: "bg-sky-900/40", text: "text-sky-400", border: "border-sky-600" },
-  neutral: { bg: "bg-slate-800/40", text: "text-slate-400", border: "border-slate-600" },
-  hostile: { bg: "bg-orange-900/40", text: "text-orange-400", border: "border-orange-600" },
-  war:     { bg: "bg-red-900/40", text: "text-red-400", border: "border-red-600" },
-  vassal:  { bg: "bg-purple-900/40", text: "text-purple-400", border: "border-purple-600" },
+const RELATION_ORDER = ["war", "hostile", "allied", "friendly", "vassal", "neutral"];
+
+const TREATY_STATUS_COLORS: Record<Treaty["status"], string> = {
+  active: "text-emerald-400 border-emerald-700",
+  expired: "text-slate-500 border-slate-700",
+  broken: "text-red-400 border-red-700",
 };
 
-const RELATION_ORDER = ["war", "hostile", "allied", "friendly", "vassal", "neutral"];
+const opinionColor = (score: number) =>
+  score >= 25 ? "text-emerald-400" : score > 0 ? "text-sky-400" : score <= -25 ? "text-red-400" : score < 0 ? "text-orange-400" : "text-slate-500";
 
-export default function RelationsPanel({ relations, playerNationName, provinces }: RelationsPanelProps) {
+const describeTerm = (treaty: Treaty) => {
+  const end = treatyEndDate(treaty);
+  const start = formatGameMonth(treaty.startDate);
+  if (treaty.status === "broken" && treaty.endedOn) return `${start} \u2013 broken ${formatGameMonth(treaty.endedOn)}`;
+  return end ? `${start} \u2013 ${formatGameMonth(end)}` : `${start}, no end date`;
+};
+
+export default function RelationsPanel({ relations, ledger, playerNationName, provinces, players }: RelationsPanelProps) {
   const [expanded, setExpanded] = useState(false);
   const [showNeutral, setShowNeutral] = useState(false);
+  const [view, setView] = useState<"relations" | "treaties" | "history">("relations");
+  const [showEnded, setShowEnded] = useState(false);
+  /** Pair whose opinion breakdown is open. */
+  const [openPair, setOpenPair] = useState<string | null>(null);
+  /** Nation whose relation history is shown; the player's own by default. */
+  const [historyNation, setHistoryNation] = useState<string | null>(null);
+  const historyOf = historyNation ?? playerNationName;
 
   const nonNeutralCount = relations.filter((r) => r.type !== "neutral").length;
 
+  const treaties = useMemo(() => collectTreaties(relations), [relations]);
+  const activeTreatyCount = treaties.filter((t) => t.status === "active").length;
+  const visibleTreaties = useMemo(() => {
+    const shown = showEnded ? treaties : treaties.filter((t) => t.status === "active");
+    // Active treaties first, each group newest first (collectTreaties order)
+    return [...shown].sort((a, b) => Number(a.status !== "active") - Number(b.status !== "active"));
+  }, [treaties, showEnded]);
+
+  const changes = useMemo(() => resolveLedger(ledger), [ledger]);
+
+  /** Every nation with a recorded relation change, for the history picker. */
+  const historyNations = useMemo(() => {
+    const names = new Set([playerNationName, historyOf]);
+    changes.forEach((e) => {
+      names.add(e.nationA);
+      names.add(e.nationB);
+    });
+    return [...names].sort((a, b) => (a === playerNationName ? -1 : b === playerNationName ? 1 : a.localeCompare(b)));
+  }, [changes, playerNationName, historyOf]);
+
+  const showHistory = (nation: string) => {
+    setHistoryNation(nation);
+    setView("history");
+  };
+
   const sortedRelations = useMemo(() => {
     const isPlayerRelation = (r: DiplomaticRelation) =>
       r.nationA === playerNationName || r.nationB === playerNationName ||
@@ -48,7 +95,7 @@ export default function RelationsPanel({ relations, playerNationName, provinces
 
   const resolveNationName = (name: string) => {
     if (name === "player") return playerNationName;
-    return name;
+    return nationDisplayName(players, name);
   };
 
   const isPlayerRelation = (r: DiplomaticRelation) =>
@@ -76,45 +123,164 @@ export default function RelationsPanel({ relations, playerNationName, provinces
       {/* Expanded Panel */}
       {expanded && (
         <div className="mt-1 bg-slate-900/95 border border-slate-700 rounded-lg backdrop-blur shadow-xl overflow-hidden animate-slide-up">
-          <div className="max-h-64 overflow-y-auto p-2 space-y-1">
-            {sortedRelations.map((rel, idx) => {
-              const colors = RELATION_COLORS[rel.type] || RELATION_COLORS.neutral;
-              const isPlayer = isPlayerRelation(rel);
+          {/* View tabs */}
+          <div className="flex border-b border-slate-800">
+            {(["relations", "treaties", "history"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`flex-1 py-1.5 text-[10px] uppercase tracking-wider transition-colors ${view === v ? "text-amber-300 bg-slate-800/60" : "text-slate-500 hover:text-slate-300"}`}
+              >
+                {v === "treaties" ? `Treaties (${activeTreatyCount})` : v === "history" ? "History" : "Relations"}
+              </button>
+            ))}
+          </div>
 
-              return (
+          {view === "history" ? (
+            <div className="max-h-64 overflow-y-auto p-2">
+              <RelationHistory
+                ledger={ledger}
+                nation={historyOf}
+                resolveName={resolveNationName}
+                onSelectNation={setHistoryNation}
+              />
+            </div>
+          ) : view === "treaties" ? (
+            <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+              {visibleTreaties.map((treaty, idx) => (
                 <div
-                  key={`${rel.nationA}-${rel.nationB}-${idx}`}
-                  className={`flex items-center gap-2 px-2 py-1.5 rounded ${isPlayer ? "bg-amber-950/20 border border-amber-900/30" : "border border-transparent"} animate-slide-in-left`}
+                  key={treaty.id}
+                  className={`px-2 py-1.5 rounded border ${treaty.parties.includes(playerNationName) ? "bg-amber-950/20 border-amber-900/30" : "border-slate-800"} ${treaty.status === "active" ? "" : "opacity-60"} animate-slide-in-left`}
                   style={{ animationDelay: `${idx * 30}ms` }}
                 >
-                  <span className={`${isPlayer ? "text-amber-200" : "text-slate-300"} truncate flex-1`}>
-                    {resolveNationName(rel.nationA)}
-                  </span>
-                  <span className="text-slate-600 shrink-0">{"\u2194"}</span>
-                  <span className={`${isPlayer ? "text-amber-200" : "text-slate-300"} truncate flex-1 text-right`}>
-                    {resolveNationName(rel.nationB)}
-                  </span>
-                  <span className={`shrink-0 ${colors.bg} ${colors.text} border ${colors.border} text-[9px] uppercase font-bold px-1.5 py-0.5 rounded`}>
-                    {rel.type}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-slate-200 truncate flex-1">{treaty.name}</span>
+                    <span className={`shrink-0 border text-[9px] uppercase font-bold px-1.5 py-0.5 rounded ${TREATY_STATUS_COLORS[treaty.status]}`}>
+                      {treaty.status}
+                    </span>
+                  </div>
+                  <div className="text-[10px] text-slate-400 truncate">
+                    {TREATY_LABELS[treaty.type]}: {treaty.parties.map(resolveNationName).join(", ")}
+                  </div>
+                  <div className="text-[10px] text-slate-500">
+                    {describeTerm(treaty)}
+                    {treaty.brokenBy && <span className="text-red-400"> by {resolveNationName(treaty.brokenBy)}</span>}
+                  </div>
+                  {treaty.terms && <div className="text-[10px] text-slate-500 italic mt-0.5">{treaty.terms}</div>}
                 </div>
-              );
-            })}
+              ))}
 
-            {sortedRelations.length === 0 && (
-              <div className="text-slate-500 text-center py-2">No active relations</div>
-            )}
-          </div>
+              {visibleTreaties.length === 0 && (
+                <div className="text-slate-500 text-center py-2">{showEnded ? "No treaties yet" : "No treaties in force"}</div>
+              )}
+            </div>
+          ) : (
+            <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+              {sortedRelations.map((rel, idx) => {
+                const colors = RELATION_COLORS[rel.type] || RELATION_COLORS.neutral;
+                const isPlayer = isPlayerRelation(rel);
+                const pair = `${rel.nationA}-${rel.nationB}`;
+                const score = opinionScore(rel);
+                const modifiers = [...(rel.opinionModifiers ?? [])].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+                return (
+                  <div key={`${pair}-${idx}`}>
+                    <div
+                      onClick={() => setOpenPair(openPair === pair ? null : pair)}
+                      title="Show opinion modifiers"
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer ${isPlayer ? "bg-amber-950/20 border border-amber-900/30" : "border border-transparent hover:border-slate-800"} animate-slide-in-left`}
+                      style={{ animationDelay: `${idx * 30}ms` }}
+                    >
+                      <span className={`${isPlayer ? "text-amber-200" : "text-slate-300"} truncate flex-1`}>
+                        {resolveNationName(rel.nationA)}
+                      </span>
+                      <span className="text-slate-600 shrink-0">{"\u2194"}</span>
+                      <span className={`${isPlayer ? "text-amber-200" : "text-slate-300"} truncate flex-1 text-right`}>
+                        {resolveNationName(rel.nationB)}
+                      </span>
+                      <span className={`shrink-0 w-8 text-right font-bold ${opinionColor(score)}`}>
+                        {formatOpinion(score)}
+                      </span>
+                      <span className={`shrink-0 ${colors.bg} ${colors.text} border ${colors.border} text-[9px] uppercase font-bold px-1.5 py-0.5 rounded`}>
+                        {rel.type}
+                      </span>
+                    </div>
+
+                    {/* Opinion breakdown */}
+                    {openPair === pair && (
+                      <div className="ml-3 mt-0.5 mb-1 pl-2 border-l border-slate-800 space-y-0.5 text-[10px]">
+                        {modifiers.map((m) => (
+                          <div key={m.key} className="flex items-center gap-2">
+                            <span className="text-slate-400 truncate flex-1">
+                              {m.label}
+                              {m.situational && <span className="text-slate-600"> (current)</span>}
+                            </span>
+                            <span className={`shrink-0 ${opinionColor(m.value)}`}>{formatOpinion(Math.round(m.value))}</span>
+                          </div>
+                        ))}
+                        {modifiers.length === 0 && <div className="text-slate-600 italic">No opinion modifiers yet</div>}
+                        <div className="flex items-center gap-2 pt-0.5">
+                          <span className="text-slate-600">History:</span>
+                          {[rel.nationA, rel.nationB].map((n) => (
+                            <button
+                              key={n}
+                              onClick={() => showHistory(n)}
+                              className="text-slate-500 hover:text-amber-300 transition-colors truncate"
+                            >
+                              {resolveNationName(n)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {sortedRelations.length === 0 && (
+                <div className="text-slate-500 text-center py-2">No active relations</div>
+              )}
+            </div>
+          )}
 
           {/* Footer controls */}
           <div className="border-t border-slate-800 px-2 py-1.5 flex items-center justify-between">
-            <button
-              onClick={() => setShowNeutral(!showNeutral)}
-              className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
-            >
-              {showNeutral ? "Hide neutral" : "Show neutral"}
-            </button>
-            <span className="text-[10px] text-slate-600">{relations.length} total</span>
+            {view === "history" ? (
+              <>
+                <select
+                  value={historyOf}
+                  onChange={(e) => setHistoryNation(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 px-1 py-0.5 max-w-[60%] outline-none focus:border-amber-600"
+                >
+                  {historyNations.map((n) => (
+                    <option key={n} value={n}>
+                      {resolveNationName(n)}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[10px] text-slate-600">{changes.length} changes</span>
+              </>
+            ) : view === "treaties" ? (
+              <>
+                <button
+                  onClick={() => setShowEnded(!showEnded)}
+                  className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+                >
+                  {showEnded ? "Hide ended" : "Show ended"}
+                </button>
+                <span className="text-[10px] text-slate-600">{treaties.length} total</span>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => setShowNeutral(!showNeutral)}
+                  className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+                >
+                  {showNeutral ? "Hide neutral" : "Show neutral"}
+                </button>
+                <span className="text-[10px] text-slate-600">{relations.length} total</span>
+              </>
+            )}
           </div>
         </div>
       )}
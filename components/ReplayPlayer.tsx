@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import { formatGameDate } from "@/lib/calendar";
+import { REPLAY_SPEEDS, ReplayFrame } from "@/lib/replay";
+
+interface ReplayPlayerProps {
+  frame: ReplayFrame;
+  index: number;
+  length: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlaying: () => void;
+  onSeek: (index: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+/** Playback controls and event captions for a time-lapse of one timeline branch. */
+export default function ReplayPlayer({
+  frame,
+  index,
+  length,
+  playing,
+  speed,
+  onTogglePlaying,
+  onSeek,
+  onSpeedChange,
+  onClose,
+}: ReplayPlayerProps) {
+  const { snapshot, captions } = frame;
+
+  return (
+    <div className="w-[28rem] font-mono text-xs select-none bg-slate-900/95 border border-amber-700/60 rounded-lg shadow-2xl backdrop-blur-md animate-slide-down">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-800">
+        <span className="text-[10px] uppercase tracking-widest text-amber-500">Replay</span>
+        <span className="text-amber-300 font-bold">
+          {snapshot.date ? formatGameDate(snapshot.date) : `Year ${snapshot.turnYear}`}
+        </span>
+        <button onClick={onClose} className="text-slate-500 hover:text-rose-400" title="Close replay">
+          {"✕"}
+        </button>
+      </div>
+
+      {/* Captions */}
+      <div className="px-3 py-2 space-y-1 min-h-[3.5rem]">
+        {captions.map((caption, i) => (
+          <div key={`${snapshot.id}-${i}`} className="text-slate-200 leading-snug">
+            {caption}
+          </div>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-t border-slate-800">
+        <button onClick={() => onSeek(index - 1)} disabled={index === 0} className="text-slate-400 hover:text-white disabled:opacity-30" title="Previous turn">
+          {"◀◀"}
+        </button>
+        <button
+          onClick={onTogglePlaying}
+          disabled={length < 2}
+          className="w-6 text-amber-400 hover:text-amber-200 disabled:opacity-30"
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? "❚❚" : "▶"}
+        </button>
+        <button onClick={() => onSeek(index + 1)} disabled={index >= length - 1} className="text-slate-400 hover:text-white disabled:opacity-30" title="Next turn">
+          {"▶▶"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, length - 1)}
+          value={index}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-amber-500"
+          aria-label="Scrub through turns"
+        />
+        <span className="text-slate-500 w-12 text-right">
+          {index + 1}/{length}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          className="bg-slate-800 text-slate-300 border border-slate-700 rounded px-1 py-0.5 outline-none"
+          title="Playback speed"
+        >
+          {REPLAY_SPEEDS.map((s) => (
+            <option key={s} value={s}>{s}x</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+import { Province, ResourceKey } from "@/lib/types";
+import { formatResourceDelta } from "@/lib/province-resources";
+
+interface ResourceDeltaProps {
+  province: Province;
+  resource: ResourceKey;
+  className?: string;
+}
+
+/** Small +/- badge for the province's most recent GM-driven resource change. */
+export default function ResourceDelta({ province, resource, className = "" }: ResourceDeltaProps) {
+  const change = province.lastResourceChange;
+  const delta = change?.deltas[resource];
+  if (!change || !delta) return null;
+
+  return (
+    <span
+      className={`ml-1 text-[10px] font-mono ${delta > 0 ? "text-emerald-400" : "text-rose-400"} ${className}`}
+      title={`Changed in ${change.turn}`}
+    >
+      {formatResourceDelta(delta)}
+    </span>
+  );
+}
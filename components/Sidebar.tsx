@@ -1,14 +1,23 @@
 import React, { useState } from "react";
-import { Province, Player } from "@/lib/types";
+import { Province, Player, RelationLedgerEntry, ResourceKey } from "@/lib/types";
+import type { ProvinceIntel } from "@/lib/intelligence";
+import ResourceDelta from "./ResourceDelta";
+import RelationHistory from "./RelationHistory";
+import IntelNote from "./IntelNote";
 
 interface SidebarProps {
   province: Province | null;
   owner: Player | undefined;
   onSendMessage: (provinceId: string | number, message: string) => void;
+  /** Relation ledger; when given, the owner's diplomatic history can be opened here. */
+  ledger?: RelationLedgerEntry[];
+  /** Fog of war: what the player knows of this province; `owner` should be the believed owner. */
+  intel?: ProvinceIntel;
 }
 
-export default function Sidebar({ province, owner, onSendMessage }: SidebarProps) {
+export default function Sidebar({ province, owner, onSendMessage, ledger, intel }: SidebarProps) {
   const [message, setMessage] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleSend = (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,6 +38,13 @@ export default function Sidebar({ province, owner, onSendMessage }: SidebarProps
   // Determine status color
   const isPlayerOwned = owner?.id === "player";
   const statusColor = isPlayerOwned ? "text-blue-400" : "text-amber-400";
+  const resources = intel?.resources ?? province.resources;
+  const approx = intel?.estimated ? "~" : "";
+  // Deltas would give away exact figures
+  const delta = (resource: ResourceKey) => (approx ? null : <ResourceDelta province={province} resource={resource} />);
+  const assessment = intel?.level === "rumour"
+    ? "Our agents have little to report from this region."
+    : `Current intelligence suggests a state of ${resources.defense > 7 ? "high alert" : "peace"}.`;
 
   return (
     <div className="absolute top-4 right-4 w-80 bg-slate-900/95 text-slate-100 rounded-xl border border-slate-700 shadow-2xl backdrop-blur-md overflow-hidden flex flex-col max-h-[80vh]">
@@ -50,20 +66,59 @@ export default function Sidebar({ province, owner, onSendMessage }: SidebarProps
         <div className="grid grid-cols-2 gap-4">
             <div className="bg-slate-950/50 p-3 rounded border border-slate-800">
                 <label className="text-xs font-bold text-slate-500 uppercase">Population</label>
-                <p className="text-lg font-mono text-slate-200">{province.resources.population.toLocaleString()}M</p>
+                <p className="text-lg font-mono text-slate-200">
+                    {approx}{resources.population.toLocaleString()}M
+                    {delta("population")}
+                </p>
             </div>
             <div className="bg-slate-950/50 p-3 rounded border border-slate-800">
                 <label className="text-xs font-bold text-slate-500 uppercase">Defenses</label>
-                <p className="text-lg font-mono text-slate-200">Level {province.resources.defense}</p>
+                <p className="text-lg font-mono text-slate-200">
+                    Level {approx}{resources.defense}
+                    {delta("defense")}
+                </p>
+            </div>
+            <div className="bg-slate-950/50 p-3 rounded border border-slate-800">
+                <label className="text-xs font-bold text-slate-500 uppercase">Economy</label>
+                <p className="text-lg font-mono text-slate-200">
+                    {approx}${resources.economy.toLocaleString()}B
+                    {delta("economy")}
+                </p>
+            </div>
+            <div className="bg-slate-950/50 p-3 rounded border border-slate-800">
+                <label className="text-xs font-bold text-slate-500 uppercase">Technology</label>
+                <p className="text-lg font-mono text-slate-200">
+                    Level {approx}{resources.technology}
+                    {delta("technology")}
+                </p>
             </div>
         </div>
         
         {/* Context / State */}
         <div className="p-3 bg-slate-800/30 rounded border border-slate-700 text-sm text-slate-300 italic">
-             &quot;Current intelligence suggests a state of {province.resources.defense > 7 ? "high alert" : "peace"}.&quot;
+             &quot;{assessment}&quot;
         </div>
+        {intel && <IntelNote intel={intel} />}
       </div>
 
+      {/* Diplomatic History */}
+      {ledger && owner && (
+        <div className="px-6 pb-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="w-full flex items-center justify-between text-xs font-bold text-slate-500 uppercase hover:text-slate-300 transition-colors"
+          >
+            <span>Diplomatic History of {owner.name}</span>
+            <span>{showHistory ? "\u25BC" : "\u25B6"}</span>
+          </button>
+          {showHistory && (
+            <div className="mt-3 max-h-48 overflow-y-auto font-mono text-xs">
+              <RelationHistory ledger={ledger} nation={owner.name} />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Diplomatic Interface */}
       <div className="flex-1 p-6 bg-slate-950/30 border-t border-slate-800 flex flex-col">
         <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">
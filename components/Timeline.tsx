@@ -2,20 +2,32 @@
 
 import React, { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { TimelineSnapshot, GameEvent } from "@/lib/types";
+import { formatGameDate, formatGameMonth } from "@/lib/calendar";
+import { branchTips } from "@/lib/timeline";
 
 interface TimelineProps {
   snapshots: TimelineSnapshot[];
   currentYear: number;
+  /** Snapshot the game currently continues from. */
+  headSnapshotId: string | null;
   onRewind: (snapshotId: string) => void;
   onBranch: (snapshotId: string) => void;
+  onSwitchBranch: (tipId: string) => void;
+  /** Play back the branch leading to a snapshot. */
+  onReplay: (snapshotId: string) => void;
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Events from the snapshot's own year; `gameStateSlim.events` holds the whole recent history. */
+function snapshotEvents(snapshot: TimelineSnapshot): GameEvent[] {
+  return snapshot.gameStateSlim.events.filter((e) => e.year === snapshot.turnYear);
+}
+
 function classifySnapshot(snapshot: TimelineSnapshot): "war" | "diplomacy" | "discovery" | "economy" | "default" {
-  const events = snapshot.gameStateSlim.events;
+  const events = snapshotEvents(snapshot);
   if (events.some((e: GameEvent) => e.type === "war" || e.type === "crisis")) return "war";
   if (events.some((e: GameEvent) => e.type === "diplomacy")) return "diplomacy";
   if (events.some((e: GameEvent) => e.type === "discovery")) return "discovery";
@@ -124,8 +136,11 @@ const TRACK_Y = 40;
 export default function Timeline({
   snapshots,
   currentYear,
+  headSnapshotId,
   onRewind,
   onBranch,
+  onSwitchBranch,
+  onReplay,
 }: TimelineProps) {
   const [collapsed, setCollapsed] = useState(false);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
@@ -134,12 +149,10 @@ export default function Timeline({
   const isDragging = useRef(false);
   const dragStart = useRef({ x: 0, scrollLeft: 0 });
 
-  // Determine the last snapshot in the primary branch as "current"
   const branches = useMemo(() => buildBranches(snapshots), [snapshots]);
-  const primaryBranch = branches[0] || null;
-  const currentSnapshotId = primaryBranch
-    ? primaryBranch.nodeIds[primaryBranch.nodeIds.length - 1]
-    : null;
+  const tips = useMemo(() => branchTips(snapshots), [snapshots]);
+  const tipIds = useMemo(() => new Set(tips.map((t) => t.id)), [tips]);
+  const currentSnapshotId = headSnapshotId;
 
   // Build a lookup: snapshotId -> { branchIndex, positionInBranch }
   const layout = useMemo(() => {
@@ -171,6 +184,8 @@ export default function Timeline({
     return map;
   }, [branches]);
 
+  const activeBranchIdx = currentSnapshotId ? layout.get(currentSnapshotId)?.branchIdx ?? 0 : 0;
+
   const totalWidth = useMemo(() => {
     let max = 0;
     layout.forEach((pos) => {
@@ -305,7 +320,7 @@ export default function Timeline({
                         y2={b.y}
                         stroke="#d97706"
                         strokeWidth={2}
-                        opacity={bIdx === 0 ? 0.8 : 0.4}
+                        opacity={bIdx === activeBranchIdx ? 0.8 : 0.4}
                       />
                     );
                   }
@@ -362,7 +377,7 @@ export default function Timeline({
                         isCurrent ? "text-amber-400 font-bold" : "text-slate-500"
                       }`}
                     >
-                      {snap.turnYear}
+                      {snap.date ? formatGameMonth(snap.date) : snap.turnYear}
                     </div>
 
                     {/* Description label further below */}
@@ -380,8 +395,44 @@ export default function Timeline({
           </div>
         )}
 
+        {/* Branch tips, when the timeline has diverged */}
+        {tips.length > 1 && (
+          <div className="absolute top-2 left-3 flex items-center gap-1.5 max-w-[60%] overflow-x-auto">
+            <span className="text-slate-500 text-[10px] uppercase tracking-wider shrink-0">
+              Branches
+            </span>
+            {tips.map((tip) => {
+              const isHead = tip.id === currentSnapshotId;
+              return (
+                <button
+                  key={tip.id}
+                  onClick={() => onSwitchBranch(tip.id)}
+                  disabled={isHead}
+                  title={tip.description}
+                  className={`shrink-0 px-2 py-0.5 rounded border text-[10px] transition-colors ${
+                    isHead
+                      ? "border-amber-500 text-amber-400 cursor-default"
+                      : "border-slate-700 text-slate-400 hover:border-sky-500 hover:text-sky-300"
+                  }`}
+                >
+                  {tip.date ? formatGameMonth(tip.date) : tip.turnYear}: {truncate(tip.description, 18)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Current year indicator in top-right of timeline bar */}
         <div className="absolute top-2 right-3 flex items-center gap-3">
+          {currentSnapshotId && (
+            <button
+              onClick={() => onReplay(currentSnapshotId)}
+              className="px-2 py-0.5 rounded border border-slate-700 text-slate-400 hover:border-amber-500 hover:text-amber-300 text-[10px] uppercase tracking-wider transition-colors"
+              title="Play back this branch turn by turn"
+            >
+              {"▶"} Replay
+            </button>
+          )}
           <span className="text-slate-500 text-[10px] uppercase tracking-wider">
             Current
           </span>
@@ -418,7 +469,7 @@ export default function Timeline({
               }}
             >
               <div className="text-amber-400 font-bold text-[11px] mb-2 text-center">
-                Year {snap.turnYear}
+                {snap.date ? formatGameDate(snap.date) : `Year ${snap.turnYear}`}
               </div>
               <button
                 onClick={(e) => {
@@ -440,6 +491,28 @@ export default function Timeline({
               >
                 Branch Timeline
               </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onReplay(snap.id);
+                  setActiveId(null);
+                }}
+                className="w-full mt-1.5 px-3 py-1.5 bg-slate-700/80 hover:bg-slate-600 text-white text-[11px] font-bold rounded transition-colors uppercase tracking-wide"
+              >
+                Replay to Here
+              </button>
+              {tipIds.has(snap.id) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSwitchBranch(snap.id);
+                    setActiveId(null);
+                  }}
+                  className="w-full mt-1.5 px-3 py-1.5 bg-emerald-700/80 hover:bg-emerald-600 text-white text-[11px] font-bold rounded transition-colors uppercase tracking-wide"
+                >
+                  Switch to This Branch
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -455,6 +528,7 @@ export default function Timeline({
 
         // Hover tooltip
         if (hoveredId === snap.id && !activeId) {
+          const tooltipEvents = snapshotEvents(snap);
           return (
             <div
               className="fixed w-56 bg-slate-900/95 border border-slate-600 rounded-lg p-3 shadow-2xl backdrop-blur-lg pointer-events-none z-[60]"
@@ -466,7 +540,7 @@ export default function Timeline({
             >
               <div className="flex items-center justify-between mb-1.5">
                 <span className="font-bold text-amber-400">
-                  Year {snap.turnYear}
+                  {snap.date ? formatGameDate(snap.date) : `Year ${snap.turnYear}`}
                 </span>
                 <span className={`text-[9px] uppercase font-bold ${colors.badge}`}>
                   {category}
@@ -478,12 +552,12 @@ export default function Timeline({
               <div className="text-slate-500 text-[10px] italic mb-1">
                 &gt; {truncate(snap.command, 40)}
               </div>
-              {snap.gameStateSlim.events.length > 0 && (
+              {tooltipEvents.length > 0 && (
                 <div className="border-t border-slate-700 pt-1.5 mt-1.5">
                   <div className="text-slate-500 text-[9px] uppercase mb-1">
                     Events
                   </div>
-                  {snap.gameStateSlim.events.slice(0, 3).map((evt, i) => (
+                  {tooltipEvents.slice(0, 3).map((evt, i) => (
                     <div
                       key={i}
                       className="text-slate-400 text-[10px] truncate"
@@ -491,9 +565,9 @@ export default function Timeline({
                       {evt.description}
                     </div>
                   ))}
-                  {snap.gameStateSlim.events.length > 3 && (
+                  {tooltipEvents.length > 3 && (
                     <div className="text-slate-600 text-[9px]">
-                      +{snap.gameStateSlim.events.length - 3} more
+                      +{tooltipEvents.length - 3} more
                     </div>
                   )}
                 </div>
@@ -1,13 +1,17 @@
 import React from "react";
 import { Province, Player } from "@/lib/types";
+import type { ProvinceIntel } from "@/lib/intelligence";
+import IntelNote from "./IntelNote";
 
 interface TooltipProps {
   province: Province;
   owner?: Player;
   position: { x: number; y: number };
+  /** Fog of war: what the player knows of this province. */
+  intel?: ProvinceIntel;
 }
 
-export default function Tooltip({ province, owner, position }: TooltipProps) {
+export default function Tooltip({ province, owner, position, intel }: TooltipProps) {
   // Simple boundary check to keep tooltip on screen
   // Assuming generic tooltip width ~220px and height ~160px for safety threshold
   const isRight = typeof window !== 'undefined' && position.x > window.innerWidth - 240;
@@ -25,6 +29,9 @@ export default function Tooltip({ province, owner, position }: TooltipProps) {
     zIndex: 50,
   };
 
+  const resources = intel?.resources ?? province.resources;
+  const approx = intel?.estimated ? "~" : "";
+
   return (
     <div 
       className="flex flex-col gap-1 p-3 bg-slate-900/90 border border-slate-700 backdrop-blur-sm rounded-lg shadow-xl text-slate-100 min-w-[180px] animate-in fade-in duration-200"
@@ -52,16 +59,18 @@ export default function Tooltip({ province, owner, position }: TooltipProps) {
         <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50">
             <div className="text-slate-500 uppercase tracking-wider text-[10px]">Pop</div>
             <div className="text-emerald-400 font-semibold">
-                {(province.resources.population / 1000000).toFixed(1)}M
+                {approx}{(resources.population / 1000000).toFixed(1)}M
             </div>
         </div>
         <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50">
             <div className="text-slate-500 uppercase tracking-wider text-[10px]">Def</div>
             <div className="text-rose-400 font-semibold">
-                {province.resources.defense}
+                {approx}{resources.defense}
             </div>
         </div>
       </div>
+
+      {intel && <IntelNote intel={intel} className="mt-1" />}
     </div>
   );
 }
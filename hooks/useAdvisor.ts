@@ -1,14 +1,31 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { GameConfig } from "@/components/GameSetup";
 import {
   GameState,
   GameEvent,
   DiplomaticRelation,
+  AdvisorAddressee,
   AdvisorMessage,
+  CouncilStatement,
 } from "@/lib/types";
 import { loadPromptOverrides } from "@/components/PromptSettings";
+import { getGameDate } from "@/lib/calendar";
+import { getMinister, isMinisterId } from "@/lib/council";
+import { buildTurnBriefing, TurnOutcome } from "@/lib/briefing";
+
+const AUTO_BRIEFING_KEY = "open-historia-auto-briefing";
+
+/** Briefings are on unless turned off; storage that cannot be read counts as on. */
+const loadAutoBriefing = () => {
+  if (typeof window === "undefined") return true;
+  try {
+    return localStorage.getItem(AUTO_BRIEFING_KEY) !== "off";
+  } catch {
+    return true;
+  }
+};
 
 function uid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -27,9 +44,41 @@ export function useAdvisor(deps: {
 
   const [advisorMessages, setAdvisorMessages] = useState<AdvisorMessage[]>([]);
   const [processingAdvisor, setProcessingAdvisor] = useState(false);
+  const [autoBriefing, setAutoBriefingState] = useState(loadAutoBriefing);
+
+  const unreadCount = useMemo(() => advisorMessages.filter((m) => m.unread).length, [advisorMessages]);
+
+  const setAutoBriefing = useCallback((enabled: boolean) => {
+    setAutoBriefingState(enabled);
+    try {
+      localStorage.setItem(AUTO_BRIEFING_KEY, enabled ? "on" : "off");
+    } catch (error) {
+      // The choice still holds for this session
+      console.error("Failed to save the briefing setting:", error);
+    }
+  }, []);
+
+  /** Post a briefing on what the turn changed, if auto-briefings are on and anything happened. */
+  const briefAfterTurn = useCallback(
+    (outcome: TurnOutcome) => {
+      if (!autoBriefing) return;
+      const briefing = buildTurnBriefing(outcome);
+      if (!briefing) return;
+      setAdvisorMessages((prev) => [
+        ...prev,
+        { id: uid(), role: "advisor", timestamp: Date.now(), briefing: true, unread: true, ...briefing },
+      ]);
+    },
+    [autoBriefing]
+  );
+
+  const markAdvisorRead = useCallback(() => {
+    setAdvisorMessages((prev) => (prev.some((m) => m.unread) ? prev.map((m) => (m.unread ? { ...m, unread: false } : m)) : prev));
+  }, []);
 
+  /** Ask the Grand Advisor, a single minister, or the whole council. */
   const handleAskAdvisor = useCallback(
-    async (question: string) => {
+    async (question: string, addressee: AdvisorAddressee = "advisor") => {
       if (!gameConfig || !gameState) return;
 
       setProcessingAdvisor(true);
@@ -39,6 +88,7 @@ export function useAdvisor(deps: {
         role: "user",
         content: question,
         timestamp: Date.now(),
+        addressee,
       };
       setAdvisorMessages((prev) => [...prev, userMsg]);
 
@@ -51,6 +101,7 @@ export function useAdvisor(deps: {
             playerNation: gameState.players["player"].name,
             gameContext: {
               year: gameState.turn,
+              date: getGameDate(gameState),
               scenario: gameConfig.scenario,
               difficulty: gameConfig.difficulty,
             },
@@ -62,6 +113,7 @@ export function useAdvisor(deps: {
             })),
             config: gameConfig,
             promptOverrides: loadPromptOverrides(),
+            addressee,
           }),
         });
 
@@ -72,7 +124,13 @@ export function useAdvisor(deps: {
           role: "advisor",
           content: data.advice || "I need more time to analyze the situation.",
           timestamp: Date.now(),
-          category: data.category || "general",
+          category: data.category || (isMinisterId(addressee) ? getMinister(addressee).category : "general"),
+          addressee,
+          debate: Array.isArray(data.debate) ? (data.debate as CouncilStatement[]) : undefined,
+          // Error responses carry placeholder suggestions that make no sense as orders
+          suggestedActions: res.ok && Array.isArray(data.suggestedActions)
+            ? data.suggestedActions.filter((a: unknown): a is string => typeof a === "string" && a.trim() !== "")
+            : undefined,
         };
         setAdvisorMessages((prev) => [...prev, advisorMsg]);
       } catch (err) {
@@ -85,6 +143,7 @@ export function useAdvisor(deps: {
             content: "My intelligence networks are disrupted. Please try again.",
             timestamp: Date.now(),
             category: "general",
+            addressee,
           },
         ]);
       } finally {
@@ -99,5 +158,10 @@ export function useAdvisor(deps: {
     setAdvisorMessages,
     processingAdvisor,
     handleAskAdvisor,
+    autoBriefing,
+    setAutoBriefing,
+    briefAfterTurn,
+    unreadCount,
+    markAdvisorRead,
   };
 }
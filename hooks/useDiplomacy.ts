@@ -8,11 +8,70 @@ import {
   ChatThread,
   ChatMessage,
   DiplomaticRelation,
+  ForeignMessage,
+  GameDate,
+  RelationLedgerEntry,
+  RelationType,
+  Treaty,
 } from "@/lib/types";
 import { LogEntry } from "@/lib/game-storage";
 import { loadPromptOverrides } from "@/components/PromptSettings";
+import { getGameDate } from "@/lib/calendar";
+import type { ConferenceReply, ConferenceTreaty, DiplomacyResponse } from "@/lib/ai-schemas";
+import { TREATY_LABELS, changeRelation, createTreaty, signTreaty } from "@/lib/treaties";
+import { appendLedger, ledgerEntries, recentLedger } from "@/lib/relation-ledger";
+import { renameNationInThreads } from "@/lib/territory";
 
 const MAX_MESSAGES_PER_THREAD = 100;
+/** Ledger entries between the nations in a thread sent with each message. */
+const PROMPT_LEDGER_ENTRIES = 12;
+
+type RelationChange = (relations: DiplomaticRelation[]) => DiplomaticRelation[];
+
+/**
+ * Turn a leader's relationChange with the player into relation changes under
+ * the difficulty's transition rules, reporting any treaty it signs or breaks
+ * and why a change fell short. The leader makes the change, so a declaration
+ * of war breaks their treaties.
+ */
+function leaderRelationChange(
+  relations: DiplomaticRelation[],
+  leader: string,
+  playerName: string,
+  change: NonNullable<DiplomacyResponse["relationChange"]>,
+  date: GameDate,
+  difficulty: string
+): { changes: RelationChange[]; broken: Treaty[]; signed: Treaty | null; blocked: string | null } {
+  const requested = (change.newType as RelationType) || "neutral";
+  const { broken, type, blocked } = changeRelation(relations, leader, playerName, requested, date, difficulty);
+  const changes: RelationChange[] = [
+    (prev) => changeRelation(prev, leader, playerName, requested, date, difficulty).relations,
+  ];
+  const held = blocked ? `Relations with ${leader} stay ${type} for now: ${blocked}.` : null;
+  if (!change.treaty) return { changes, broken, signed: null, blocked: held };
+
+  const signed = createTreaty({
+    type: change.treaty.treatyType,
+    parties: [playerName, leader],
+    startDate: date,
+    durationMonths: change.treaty.durationMonths,
+    terms: change.treaty.terms,
+  });
+  return { changes: [...changes, (prev) => signTreaty(prev, signed, date, difficulty, type).relations], broken, signed, blocked: held };
+}
+
+const conferenceTreaty = (treaty: ConferenceTreaty, date: GameDate): Treaty =>
+  createTreaty({
+    type: treaty.treatyType,
+    parties: treaty.signatories,
+    startDate: date,
+    name: treaty.name,
+    durationMonths: treaty.durationMonths,
+    terms: treaty.terms,
+  });
+
+const describeSigned = (t: Treaty) =>
+  `Treaty signed: ${t.name}${t.name === TREATY_LABELS[t.type] ? "" : ` (${TREATY_LABELS[t.type]})`} between ${t.parties.join(", ")}.${t.terms ? ` ${t.terms}` : ""}`;
 
 function uid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -26,9 +85,13 @@ export function useDiplomacy(deps: {
   gameConfig: GameConfig | null;
   relations: DiplomaticRelation[];
   setRelations: React.Dispatch<React.SetStateAction<DiplomaticRelation[]>>;
+  relationLedger: RelationLedgerEntry[];
+  setRelationLedger: React.Dispatch<React.SetStateAction<RelationLedgerEntry[]>>;
   events: GameEvent[];
+  /** Answers to proposals are queued as orders for the next turn; supplied by useTurnProcessing. */
+  queueOrder: (cmd: string) => void;
 }) {
-  const { gameState, gameConfig, relations, setRelations, events } = deps;
+  const { gameState, gameConfig, relations, setRelations, relationLedger, setRelationLedger, events, queueOrder } = deps;
 
   const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
   const [processingChat, setProcessingChat] = useState(false);
@@ -63,6 +126,7 @@ export function useDiplomacy(deps: {
       if (!thread || !gameConfig || !gameState) return;
 
       setProcessingChat(true);
+      const date = getGameDate(gameState);
 
       const playerMsg: ChatMessage = {
         id: uid(),
@@ -71,15 +135,36 @@ export function useDiplomacy(deps: {
         content: message,
         timestamp: Date.now(),
         turnYear: gameState.turn,
+        date,
       };
 
-      setChatThreads((prev) =>
-        prev.map((t) => {
-          if (t.id !== threadId) return t;
-          const msgs = [...t.messages, playerMsg];
-          return { ...t, messages: msgs.length > MAX_MESSAGES_PER_THREAD ? msgs.slice(-MAX_MESSAGES_PER_THREAD) : msgs };
-        })
-      );
+      const appendMessages = (msgs: ChatMessage[]) =>
+        setChatThreads((prev) =>
+          prev.map((t) => {
+            if (t.id !== threadId) return t;
+            const next = [...t.messages, ...msgs];
+            return { ...t, messages: next.length > MAX_MESSAGES_PER_THREAD ? next.slice(-MAX_MESSAGES_PER_THREAD) : next };
+          })
+        );
+
+      appendMessages([playerMsg]);
+
+      const systemMessage = (content: string, tone: ChatMessage["tone"]): ChatMessage => ({
+        id: uid(),
+        senderId: "system",
+        senderName: "System",
+        content,
+        timestamp: Date.now(),
+        turnYear: gameState.turn,
+        date,
+        tone,
+      });
+
+      const playerName = gameState.players["player"].name;
+      const delegates = thread.participants.filter((p) => p !== "player");
+      // Group threads with several nations run as a conference: everyone answers
+      const isConference = thread.type === "group" && delegates.length > 1;
+      const atTable = new Set([playerName, ...delegates]);
 
       try {
         const targetNation =
@@ -96,27 +181,100 @@ export function useDiplomacy(deps: {
               sender: m.senderName,
               content: m.content,
               turnYear: m.turnYear,
+              date: m.date,
             })),
             gameContext: {
               year: gameState.turn,
+              date,
               scenario: gameConfig.scenario,
               difficulty: gameConfig.difficulty,
             },
             relations: relations.find(
               (r) =>
-                (r.nationA === "player" && r.nationB === targetNation) ||
-                (r.nationB === "player" && r.nationA === targetNation)
+                (r.nationA === playerName && r.nationB === targetNation) ||
+                (r.nationB === playerName && r.nationA === targetNation)
             ) || null,
+            relationHistory: recentLedger(
+              relationLedger,
+              PROMPT_LEDGER_ENTRIES,
+              isConference ? [...atTable] : [playerName, targetNation]
+            ),
             recentEvents: events
               .slice(-10)
-              .map((e) => ({ year: e.year, description: e.description })),
+              .map((e) => ({ year: e.year, date: e.date, description: e.description })),
             config: gameConfig,
             promptOverrides: loadPromptOverrides(),
+            ...(isConference
+              ? {
+                  participants: delegates,
+                  conferenceName: thread.name,
+                  conferenceRelations: relations.filter((r) => atTable.has(r.nationA) && atTable.has(r.nationB)),
+                }
+              : {}),
           }),
         });
 
         const data = await res.json();
 
+        if (isConference) {
+          const replies: ConferenceReply[] = Array.isArray(data.replies) ? data.replies : [];
+          const treaty: ConferenceTreaty | null = data.treaty ?? null;
+          const msgs: ChatMessage[] = replies.map((r) => ({
+            id: uid(),
+            senderId: r.nation,
+            senderName: r.nation,
+            content: r.message,
+            timestamp: Date.now(),
+            turnYear: gameState.turn,
+            date,
+            tone: r.tone || "neutral",
+            agenda: r.agenda || undefined,
+          }));
+          if (msgs.length === 0) {
+            msgs.push(systemMessage(data.message || "The delegates sit in silence.", "neutral"));
+          }
+
+          const changes: RelationChange[] = [];
+          const ledger: RelationLedgerEntry[] = [];
+          let current = relations;
+          for (const r of replies) {
+            if (!r.relationChange) continue;
+            const result = leaderRelationChange(current, r.nation, playerName, r.relationChange, date, gameConfig.difficulty);
+            changes.push(...result.changes);
+            const next = result.changes.reduce((acc, change) => change(acc), current);
+            ledger.push(
+              ...ledgerEntries(current, next, { date, cause: r.relationChange.reason, source: "conference", message })
+            );
+            current = next;
+            result.broken.forEach((t) => msgs.push(systemMessage(`${r.nation} has broken the ${t.name}.`, "hostile")));
+            if (result.blocked) msgs.push(systemMessage(result.blocked, "neutral"));
+            if (result.signed) msgs.push(systemMessage(describeSigned(result.signed), "friendly"));
+          }
+          if (treaty) {
+            const signed = conferenceTreaty(treaty, date);
+            const difficulty = gameConfig.difficulty;
+            changes.push((prev) => signTreaty(prev, signed, date, difficulty, treaty.relationType).relations);
+            const result = signTreaty(current, signed, date, difficulty, treaty.relationType);
+            ledger.push(
+              ...ledgerEntries(current, result.relations, { date, cause: `Signed the ${signed.name}`, source: "conference", message })
+            );
+            msgs.push(systemMessage(describeSigned(signed), "friendly"));
+            result.broken.forEach((t) => msgs.push(systemMessage(`${t.brokenBy} has broken the ${t.name}.`, "hostile")));
+            result.held.forEach((h) =>
+              msgs.push(systemMessage(`${h.nationA} and ${h.nationB} stay ${h.type} for now: ${h.blocked}.`, "neutral"))
+            );
+          }
+          appendMessages(msgs);
+
+          if (changes.length > 0) {
+            setRelations((prev) => changes.reduce((acc, change) => change(acc), prev));
+          }
+          if (ledger.length > 0) {
+            setRelationLedger((prev) => appendLedger(prev, ledger));
+          }
+          return;
+        }
+
         const aiMsg: ChatMessage = {
           id: uid(),
           senderId: targetNation,
@@ -124,34 +282,38 @@ export function useDiplomacy(deps: {
           content: data.message || "...",
           timestamp: Date.now(),
           turnYear: gameState.turn,
+          date,
           tone: data.tone || "neutral",
         };
 
-        setChatThreads((prev) =>
-          prev.map((t) => {
-            if (t.id !== threadId) return t;
-            const msgs = [...t.messages, aiMsg];
-            return { ...t, messages: msgs.length > MAX_MESSAGES_PER_THREAD ? msgs.slice(-MAX_MESSAGES_PER_THREAD) : msgs };
-          })
-        );
+        if (!data.relationChange) {
+          appendMessages([aiMsg]);
+          return;
+        }
 
-        if (data.relationChange) {
-          const rel: DiplomaticRelation = {
-            nationA: gameState.players["player"].name,
-            nationB: targetNation,
-            type: data.relationChange.newType || "neutral",
-            treaties: [],
-          };
-          setRelations((prev) => {
-            const filtered = prev.filter(
-              (r) =>
-                !(
-                  (r.nationA === rel.nationA && r.nationB === rel.nationB) ||
-                  (r.nationA === rel.nationB && r.nationB === rel.nationA)
-                )
-            );
-            return [...filtered, rel];
-          });
+        const { changes, broken, signed, blocked } = leaderRelationChange(
+          relations,
+          targetNation,
+          playerName,
+          data.relationChange,
+          date,
+          gameConfig.difficulty
+        );
+        appendMessages([
+          aiMsg,
+          ...broken.map((t) => systemMessage(`${targetNation} has broken the ${t.name}.`, "hostile")),
+          ...(blocked ? [systemMessage(blocked, "neutral")] : []),
+          ...(signed ? [systemMessage(describeSigned(signed), "friendly")] : []),
+        ]);
+        setRelations((prev) => changes.reduce((acc, change) => change(acc), prev));
+        const ledger = ledgerEntries(relations, changes.reduce((acc, change) => change(acc), relations), {
+          date,
+          cause: data.relationChange.reason,
+          source: "diplomacy",
+          message,
+        });
+        if (ledger.length > 0) {
+          setRelationLedger((prev) => appendLedger(prev, ledger));
         }
       } catch (err) {
         console.error(err);
@@ -162,6 +324,7 @@ export function useDiplomacy(deps: {
           content: "Communication channel disrupted. Try again.",
           timestamp: Date.now(),
           turnYear: gameState.turn,
+          date,
           tone: "hostile",
         };
         setChatThreads((prev) =>
@@ -173,7 +336,87 @@ export function useDiplomacy(deps: {
         setProcessingChat(false);
       }
     },
-    [chatThreads, gameConfig, gameState, relations, events, setRelations]
+    [chatThreads, gameConfig, gameState, relations, relationLedger, events, setRelations, setRelationLedger]
+  );
+
+  /** File messages foreign leaders sent during a turn into their threads, opening threads as needed. */
+  const receiveForeignMessages = useCallback(
+    (messages: ForeignMessage[], date: GameDate) => {
+      const incoming = messages.map((m) => {
+        const message: ChatMessage = {
+          id: uid(),
+          senderId: m.nation,
+          senderName: m.nation,
+          content: m.content,
+          timestamp: Date.now(),
+          turnYear: date.year,
+          date,
+          tone: m.tone,
+          proposal: m.proposal ? { ...m.proposal, status: "pending" } : undefined,
+        };
+        return { nation: m.nation, message };
+      });
+
+      setChatThreads((prev) => {
+        let next = prev;
+        for (const { nation, message } of incoming) {
+          const existing = next.find((t) => t.type === "bilateral" && t.participants.includes(nation));
+          const thread: ChatThread = existing ?? {
+            id: uid(),
+            type: "bilateral",
+            participants: ["player", nation],
+            name: nation,
+            messages: [],
+            unreadCount: 0,
+          };
+          const msgs = [...thread.messages, message];
+          const updated = {
+            ...thread,
+            messages: msgs.length > MAX_MESSAGES_PER_THREAD ? msgs.slice(-MAX_MESSAGES_PER_THREAD) : msgs,
+            unreadCount: thread.unreadCount + 1,
+          };
+          next = existing ? next.map((t) => (t.id === thread.id ? updated : t)) : [...next, updated];
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  /** Retitle the threads of nations renamed during a turn. */
+  const renameNations = useCallback((renames: [string, string][]) => {
+    setChatThreads((prev) => renames.reduce((acc, [from, to]) => renameNationInThreads(acc, from, to), prev));
+  }, []);
+
+  const markThreadRead = useCallback((threadId: string) => {
+    setChatThreads((prev) => prev.map((t) => (t.id === threadId && t.unreadCount > 0 ? { ...t, unreadCount: 0 } : t)));
+  }, []);
+
+  /** Accept or reject a foreign proposal; the answer is queued as an order the next turn settles. */
+  const respondToProposal = useCallback(
+    (threadId: string, messageId: string, accept: boolean) => {
+      const message = chatThreads.find((t) => t.id === threadId)?.messages.find((m) => m.id === messageId);
+      if (!message?.proposal || message.proposal.status !== "pending") return;
+
+      const { kind, summary } = message.proposal;
+      setChatThreads((prev) =>
+        prev.map((t) =>
+          t.id !== threadId
+            ? t
+            : {
+                ...t,
+                messages: t.messages.map((m) =>
+                  m.id === messageId && m.proposal
+                    ? { ...m, proposal: { ...m.proposal, status: accept ? "accepted" : "rejected" } }
+                    : m
+                ),
+              }
+        )
+      );
+      const label = kind === "other" ? "proposal" : `${kind} proposal`;
+      queueOrder(`${accept ? "Accept" : "Reject"} ${message.senderName}'s ${label}: ${summary}`);
+    },
+    [chatThreads, queueOrder]
   );
 
   return {
@@ -182,5 +425,9 @@ export function useDiplomacy(deps: {
     processingChat,
     handleCreateThread,
     handleSendChatMessage,
+    receiveForeignMessages,
+    renameNations,
+    markThreadRead,
+    respondToProposal,
   };
 }
@@ -1,21 +1,69 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { GameConfig } from "@/components/GameSetup";
-import { Province, GameState, MapTheme, Preset } from "@/lib/types";
+import { Province, GameEvent, GameState, MapTheme, Preset } from "@/lib/types";
 import { loadWorldData } from "@/lib/world-loader";
-import { INITIAL_PLAYERS } from "@/lib/map-generator";
+import { claimCountryProvinces, createNationRegistry } from "@/lib/nation-registry";
+import { startOfYear } from "@/lib/calendar";
+import { createIntelState } from "@/lib/intelligence";
+import { applyEraOverlay, eraCapitals, eraLeaders, EraOverlay, findEraOverlayYear, loadEraOverlay } from "@/lib/era-borders";
+import {
+  BUILT_IN_MAP_PACKS,
+  DEFAULT_MAP_PACK_ID,
+  MapPack,
+  MapPackSource,
+  isUploadedMapPack,
+  mapPackCapitals,
+  resolveMapPack,
+  validateMapPack,
+} from "@/lib/map-packs";
 import {
   listSavedGames,
   loadGame,
   deleteGame,
   restoreSavedGameState,
+  restoreSaveSubsystems,
   setAuthenticated,
   SavedGame,
+  SaveSubsystems,
   LogEntry,
 } from "@/lib/game-storage";
 import { authClient } from "@/lib/auth-client";
 
+type SaveMap = { pack: MapPackSource; base: Province[]; provinces: Province[] };
+
+/**
+ * The map a save was played on: its provinces as loaded (`base`, reusing
+ * `loaded` when it is the same built-in map) and redrawn onto the era the
+ * game started in. A stored pack is checked like an upload first, since the
+ * save may have been edited or damaged; `error` says why the map can't be used.
+ */
+async function loadSaveMap(
+  saved: SavedGame,
+  loaded: { pack: MapPackSource; provinces: Province[] }
+): Promise<SaveMap | { error: string }> {
+  let uploaded: MapPack | null = null;
+  if (saved.mapPack) {
+    const check = validateMapPack(saved.mapPack, saved.mapPack.name);
+    if ("error" in check) return { error: `This save's map pack is unusable: ${check.error}` };
+    // Validation derives a fresh id; keep the one the save refers to
+    uploaded = { ...check.pack, id: saved.mapPack.id };
+  }
+
+  const pack = resolveMapPack(saved.gameConfig.mapPackId, uploaded);
+  const reuse = !isUploadedMapPack(pack) && pack.id === loaded.pack.id && loaded.provinces.length > 0;
+  try {
+    const base = reuse ? loaded.provinces : await loadWorldData(pack);
+    const { eraYear } = saved.gameConfig;
+    const era = eraYear !== undefined ? await loadEraOverlay(eraYear) : null;
+    return { pack, base, provinces: era ? applyEraOverlay(base, era) : base };
+  } catch (error) {
+    console.error("Failed to load save map:", error);
+    return { error: `This save's map could not be loaded${isUploadedMapPack(pack) ? ` from map pack "${pack.name}"` : ""}.` };
+  }
+}
+
 function uid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
     return crypto.randomUUID();
@@ -23,13 +71,38 @@ function uid(): string {
   return `id-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
-export function useGameState(initialGameId?: string) {
+/** A loaded save's state for the caller to apply, why its map can't be used, or null if it is gone. */
+export type LoadSaveResult =
+  | {
+      config: GameConfig;
+      state: GameState;
+      provinces: Province[];
+      events: GameEvent[];
+      storySoFar: string;
+      logs: LogEntry[];
+      subsystems: SaveSubsystems;
+    }
+  | { error: string }
+  | null;
+
+export function useGameState(
+  initialGameId?: string,
+  onInitialGameLoaded?: (saveId: string, result: LoadSaveResult) => void
+) {
   const [gameConfig, setGameConfig] = useState<GameConfig | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [loading, setLoading] = useState(true);
   const [provincesCache, setProvincesCache] = useState<Province[]>([]);
+  /** Provinces of the map pack as loaded, before any game or era touched them. */
+  const [mapBase, setMapBase] = useState<Province[]>([]);
+  /** Map the setup screen offers and the current game is played on. */
+  const [mapPack, setMapPack] = useState<MapPackSource>(BUILT_IN_MAP_PACKS[DEFAULT_MAP_PACK_ID]);
   const [showPresets, setShowPresets] = useState(true);
   const [selectedPreset, setSelectedPreset] = useState<Preset | null>(null);
+  /** Start year typed at setup; null while it is still the preset's own. */
+  const [setupYear, setSetupYear] = useState<number | null>(null);
+  /** Last era overlay loaded; see eraOverlay below for the one in use. */
+  const [loadedEraOverlay, setLoadedEraOverlay] = useState<EraOverlay | null>(null);
   const [savedGames, setSavedGames] = useState<SavedGame[]>([]);
   const [savesLoading, setSavesLoading] = useState(false);
 
@@ -53,53 +126,105 @@ export function useGameState(initialGameId?: string) {
     refreshSavedGames();
   }, [authSession, refreshSavedGames]);
 
-  // Initial data load + optional game restore from URL
-  const [initialLogs, setInitialLogs] = useState<LogEntry[]>([]);
-  const [initialEvents, setInitialEvents] = useState<import("@/lib/types").GameEvent[]>([]);
-  const [initialStorySoFar, setInitialStorySoFar] = useState("");
-  const [initialGameIdLoaded, setInitialGameIdLoaded] = useState<string | null>(null);
+  /** Load a save onto its map, reusing `loaded` when it is the same built-in map. */
+  const restoreSave = useCallback(
+    async (saveId: string, loaded: { pack: MapPackSource; provinces: Province[] }): Promise<LoadSaveResult> => {
+      const saved = await loadGame(saveId);
+      if (!saved) {
+        await refreshSavedGames();
+        return null;
+      }
+      const map = await loadSaveMap(saved, loaded);
+      if ("error" in map) return map;
+      if (map.provinces.length === 0) return null;
+
+      const restoredState = restoreSavedGameState(saved, map.provinces);
+      setMapPack(map.pack);
+      setMapBase(map.base);
+      setGameConfig(saved.gameConfig);
+      setGameState(restoredState);
+      setProvincesCache(restoredState.provinces);
+      setShowPresets(false);
+      window.history.replaceState(null, "", `/${saveId}`);
+
+      return {
+        config: saved.gameConfig,
+        state: restoredState,
+        provinces: restoredState.provinces,
+        events: saved.events || [],
+        storySoFar: saved.storySoFar || "",
+        logs: saved.logs?.length ? saved.logs : [],
+        subsystems: restoreSaveSubsystems(saved),
+      };
+    },
+    [refreshSavedGames]
+  );
 
+  // Initial data load + optional game restore from URL, handed to the page like any other loaded save
   useEffect(() => {
     async function load() {
-      const data = await loadWorldData();
+      const world = BUILT_IN_MAP_PACKS[DEFAULT_MAP_PACK_ID];
+      const data = await loadWorldData(world);
+      setMapBase(data);
       setProvincesCache(data);
       await refreshSavedGames();
 
       if (initialGameId) {
-        const saved = await loadGame(initialGameId);
-        if (saved && data.length > 0) {
-          const restoredState = restoreSavedGameState(saved, data);
-          setGameConfig(saved.gameConfig);
-          setGameState(restoredState);
-          setProvincesCache(restoredState.provinces);
-          setInitialEvents(saved.events || []);
-          setInitialStorySoFar(saved.storySoFar || "");
-          setShowPresets(false);
-          setInitialGameIdLoaded(initialGameId);
-          const restoredLogs = saved.logs?.length ? saved.logs : [];
-          setInitialLogs([
-            ...restoredLogs,
-            { id: uid(), type: "success", text: `Resumed game from ${new Date(saved.timestamp).toLocaleString()}.` },
-          ]);
-        }
+        const result = await restoreSave(initialGameId, { pack: world, provinces: data });
+        onInitialGameLoaded?.(initialGameId, result);
       }
 
       setLoading(false);
     }
     load();
-  }, [refreshSavedGames]);
+  }, [refreshSavedGames, restoreSave]);
 
   // Preset selection
   const handleSelectPreset = useCallback((preset: Preset) => {
     setSelectedPreset(preset);
+    setSetupYear(null);
     setShowPresets(false);
   }, []);
 
   const handleCustomScenario = useCallback(() => {
     setSelectedPreset(null);
+    setSetupYear(null);
     setShowPresets(false);
   }, []);
 
+  // Period borders of the selected preset, for the start year the player chose. Built-in
+  // maps only, since uploaded ones have their own provinces.
+  const eraYear =
+    selectedPreset && !isUploadedMapPack(mapPack) ? findEraOverlayYear(setupYear ?? selectedPreset.year) : null;
+  const eraOverlay = loadedEraOverlay && loadedEraOverlay.year === eraYear ? loadedEraOverlay : null;
+
+  useEffect(() => {
+    if (eraYear === null) return;
+    let cancelled = false;
+    loadEraOverlay(eraYear).then((overlay) => {
+      if (!cancelled) setLoadedEraOverlay(overlay);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [eraYear]);
+
+  /** Provinces offered at setup, on the selected preset's era borders when it has them. */
+  const setupProvinces = useMemo(
+    () => (eraOverlay ? applyEraOverlay(mapBase, eraOverlay) : mapBase),
+    [mapBase, eraOverlay]
+  );
+
+  /** Switch the map offered at setup; false when the pack has no usable provinces. */
+  const selectMapPack = useCallback(async (pack: MapPackSource): Promise<boolean> => {
+    const provinces = await loadWorldData(pack);
+    if (provinces.length === 0) return false;
+    setMapPack(pack);
+    setMapBase(provinces);
+    setProvincesCache(provinces);
+    return true;
+  }, []);
+
   // Province selection
   const handleSelectProvince = useCallback((provinceId: string | number | null) => {
     setGameState((prev) => {
@@ -114,7 +239,9 @@ export function useGameState(initialGameId?: string) {
       const gameId = uid();
       window.history.replaceState(null, "", `/${gameId}`);
 
-      setGameConfig(config);
+      // The overlay is only used when the year the game starts in still matches it
+      const era = eraOverlay && eraOverlay.year === findEraOverlayYear(config.year) ? eraOverlay : null;
+      setGameConfig({ ...config, mapPackId: mapPack.id, ...(era ? { eraYear: era.year } : {}) });
 
       let theme: MapTheme = "classic";
       const s = config.scenario.toLowerCase();
@@ -131,27 +258,39 @@ export function useGameState(initialGameId?: string) {
       ) {
         theme = "blueprint";
       }
+      if (mapPack.defaultTheme) theme = mapPack.defaultTheme;
 
-      const initialPlayers = { ...INITIAL_PLAYERS };
-      const nation = provincesCache.find((p) => p.id === config.playerNationId);
+      const startProvinces = era ? applyEraOverlay(mapBase, era) : mapBase;
+      const nation = startProvinces.find((p) => p.id === config.playerNationId);
+      const parentId = nation ? nation.parentCountryId || String(nation.id) : null;
 
-      let provinces = provincesCache;
+      let provinces = startProvinces;
       if (nation) {
-        initialPlayers["player"].name = nation.parentCountryName || nation.name;
-        const parentId = nation.parentCountryId || String(nation.id);
-        provinces = provincesCache.map((p) => {
+        provinces = startProvinces.map((p) => {
           const pParent = p.parentCountryId || String(p.id);
           return pParent === parentId ? { ...p, ownerId: "player" } : p;
         });
-        setProvincesCache(provinces);
       }
+      // A preset's rulers only hold for its own start year
+      const presetLeaders = selectedPreset?.year === config.year ? selectedPreset.leaders : undefined;
+      const initialPlayers = createNationRegistry(
+        startProvinces,
+        parentId,
+        nation?.parentCountryName || nation?.name,
+        { ...mapPackCapitals(mapPack), ...eraCapitals(era) },
+        { ...presetLeaders, ...eraLeaders(era) }
+      );
+      provinces = claimCountryProvinces(provinces, initialPlayers);
+      setProvincesCache(provinces);
 
       const newState: GameState = {
         turn: config.year,
+        date: startOfYear(config.year),
         players: initialPlayers,
         provinces,
         selectedProvinceId: null,
         theme,
+        ...(config.fogOfWar ? { intel: createIntelState() } : {}),
         events: [],
         relations: [],
         chatThreads: [],
@@ -163,7 +302,7 @@ export function useGameState(initialGameId?: string) {
 
       return gameId;
     },
-    [provincesCache]
+    [mapBase, mapPack, eraOverlay, selectedPreset]
   );
 
   // Delete saved game
@@ -175,40 +314,10 @@ export function useGameState(initialGameId?: string) {
     [refreshSavedGames]
   );
 
-  // Load saved game — returns restored data for the caller to apply
+  // Load saved game — returns restored data for the caller to apply, or why its map can't be loaded
   const handleLoadSavedGame = useCallback(
-    async (saveId: string): Promise<{
-      config: GameConfig;
-      state: GameState;
-      provinces: Province[];
-      events: import("@/lib/types").GameEvent[];
-      storySoFar: string;
-      logs: LogEntry[];
-    } | null> => {
-      const saved = await loadGame(saveId);
-      if (!saved) {
-        await refreshSavedGames();
-        return null;
-      }
-      if (provincesCache.length === 0) return null;
-
-      const restoredState = restoreSavedGameState(saved, provincesCache);
-      setGameConfig(saved.gameConfig);
-      setGameState(restoredState);
-      setProvincesCache(restoredState.provinces);
-      setShowPresets(false);
-      window.history.replaceState(null, "", `/${saveId}`);
-
-      return {
-        config: saved.gameConfig,
-        state: restoredState,
-        provinces: restoredState.provinces,
-        events: saved.events || [],
-        storySoFar: saved.storySoFar || "",
-        logs: saved.logs?.length ? saved.logs : [],
-      };
-    },
-    [provincesCache, refreshSavedGames]
+    (saveId: string) => restoreSave(saveId, { pack: mapPack, provinces: mapBase }),
+    [restoreSave, mapBase, mapPack]
   );
 
   // Nation label helper
@@ -228,6 +337,10 @@ export function useGameState(initialGameId?: string) {
     loading,
     provincesCache,
     setProvincesCache,
+    setupProvinces,
+    eraOverlay,
+    setSetupYear,
+    mapPack,
     showPresets,
     setShowPresets,
     selectedPreset,
@@ -236,16 +349,11 @@ export function useGameState(initialGameId?: string) {
     savesLoading,
     authSession,
 
-    // Initial restore data
-    initialLogs,
-    initialEvents,
-    initialStorySoFar,
-    initialGameIdLoaded,
-
     // Actions
     refreshSavedGames,
     handleSelectPreset,
     handleCustomScenario,
+    selectMapPack,
     handleSelectProvince,
     handleStartGame,
     handleLoadSavedGame,
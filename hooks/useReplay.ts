@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { GameState, TimelineSnapshot } from "@/lib/types";
+import { buildReplayFrame, REPLAY_FRAME_MS, replayPath } from "@/lib/replay";
+import { resolveSnapshot } from "@/lib/timeline";
+
+export function useReplay(deps: { gameState: GameState | null; timelineSnapshots: TimelineSnapshot[] }) {
+  const { gameState, timelineSnapshots } = deps;
+
+  /** Snapshots being replayed, oldest first; empty when no replay is open. */
+  const [openPath, setPath] = useState<TimelineSnapshot[]>([]);
+  const [index, setIndex] = useState(0);
+  const [playRequested, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // A new or loaded game drops the history being replayed, which closes the replay
+  const path = useMemo(() => {
+    const ids = new Set(timelineSnapshots.map((s) => s.id));
+    return openPath.every((s) => ids.has(s.id)) ? openPath : [];
+  }, [openPath, timelineSnapshots]);
+  // Nothing plays once the replay is gone or on its last frame
+  const playing = playRequested && index < path.length - 1;
+
+  /** Replay the branch leading to `snapshotId` from its first recorded turn. */
+  const openReplay = useCallback(
+    (snapshotId: string) => {
+      const next = replayPath(timelineSnapshots, snapshotId);
+      if (next.length === 0) return;
+      setPath(next);
+      setIndex(0);
+      setPlaying(next.length > 1);
+    },
+    [timelineSnapshots]
+  );
+
+  const closeReplay = useCallback(() => {
+    setPath([]);
+    setPlaying(false);
+  }, []);
+
+  const seek = useCallback(
+    (to: number) => setIndex(Math.max(0, Math.min(path.length - 1, to))),
+    [path.length]
+  );
+
+  const togglePlaying = useCallback(() => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Playing from the last frame starts over
+    if (index >= path.length - 1) setIndex(0);
+    setPlaying(true);
+  }, [playing, index, path.length]);
+
+  // Advance one frame per tick, stopping on the last one
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      setIndex(index + 1);
+      if (index + 1 >= path.length - 1) setPlaying(false);
+    }, REPLAY_FRAME_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, path.length, speed]);
+
+  const frame = useMemo(() => {
+    const snapshot = path[index];
+    if (!gameState || !snapshot) return null;
+    // The path runs from the root, so it holds every snapshot this one is stored relative to
+    const resolved = resolveSnapshot(path, snapshot.id) ?? snapshot.gameStateSlim;
+    return buildReplayFrame(gameState, snapshot, resolved, path[index - 1] ?? null);
+  }, [gameState, path, index]);
+
+  return {
+    replaying: path.length > 0,
+    replayLength: path.length,
+    replayIndex: index,
+    replayFrame: frame,
+    replayPlaying: playing,
+    replaySpeed: speed,
+    setReplaySpeed: setSpeed,
+    openReplay,
+    closeReplay,
+    seekReplay: seek,
+    togglePlaying,
+  };
+}
@@ -1,14 +1,24 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { GameConfig } from "@/components/GameSetup";
-import { GameState, GameEvent, Province } from "@/lib/types";
+import {
+  GameState,
+  GameEvent,
+  Province,
+  DiplomaticRelation,
+  RelationLedgerEntry,
+  ChatThread,
+  AdvisorMessage,
+  TimelineSnapshot,
+} from "@/lib/types";
 import {
   saveGame,
   autoSave,
   LogEntry,
   SavedGame,
 } from "@/lib/game-storage";
+import { MapPackSource, isUploadedMapPack } from "@/lib/map-packs";
 
 function uid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -23,9 +33,16 @@ export function useSaveLoad(deps: {
   logs: LogEntry[];
   events: GameEvent[];
   storySoFar: string;
+  relations: DiplomaticRelation[];
+  relationLedger: RelationLedgerEntry[];
+  chatThreads: ChatThread[];
+  advisorMessages: AdvisorMessage[];
+  timelineSnapshots: TimelineSnapshot[];
+  timelineHeadId: string | null;
+  /** Uploaded packs are written into every save; built-in ones are named in gameConfig. */
+  mapPack: MapPackSource;
   addLog: (text: string, type?: LogEntry["type"]) => void;
   refreshSavedGames: () => Promise<void>;
-  initialGameIdLoaded: string | null;
 }) {
   const {
     gameState,
@@ -33,24 +50,30 @@ export function useSaveLoad(deps: {
     logs,
     events,
     storySoFar,
+    relations,
+    relationLedger,
+    chatThreads,
+    advisorMessages,
+    timelineSnapshots,
+    timelineHeadId,
+    mapPack,
     addLog,
     refreshSavedGames,
-    initialGameIdLoaded,
   } = deps;
 
+  const subsystems = useMemo(
+    () => ({ relations, relationLedger, chatThreads, advisorMessages, timelineSnapshots, timelineHeadId }),
+    [relations, relationLedger, chatThreads, advisorMessages, timelineSnapshots, timelineHeadId]
+  );
+
+  const uploadedPack = isUploadedMapPack(mapPack) ? mapPack : null;
+
   const [currentGameId, setCurrentGameId] = useState<string | null>(null);
   const [lastSaveTime, setLastSaveTime] = useState<number | null>(null);
   const [showSaveNotif, setShowSaveNotif] = useState(false);
   const [showSavesPanel, setShowSavesPanel] = useState(false);
   const [showPromptSettings, setShowPromptSettings] = useState(false);
 
-  // Initialize from URL-loaded game
-  useEffect(() => {
-    if (initialGameIdLoaded) {
-      setCurrentGameId(initialGameIdLoaded);
-    }
-  }, [initialGameIdLoaded]);
-
   const handleSaveGame = useCallback(async () => {
     if (!gameState || !gameConfig) return;
     try {
@@ -59,7 +82,7 @@ export function useSaveLoad(deps: {
         setCurrentGameId(id);
         window.history.replaceState(null, "", `/${id}`);
       }
-      await saveGame(gameState, gameConfig, logs, id, events, storySoFar);
+      await saveGame(gameState, gameConfig, logs, id, events, storySoFar, subsystems, uploadedPack);
       setLastSaveTime(Date.now());
       setShowSaveNotif(true);
       setTimeout(() => setShowSaveNotif(false), 2000);
@@ -71,7 +94,7 @@ export function useSaveLoad(deps: {
         "error"
       );
     }
-  }, [gameState, gameConfig, logs, events, storySoFar, currentGameId, refreshSavedGames, addLog]);
+  }, [gameState, gameConfig, logs, events, storySoFar, subsystems, uploadedPack, currentGameId, refreshSavedGames, addLog]);
 
   const handleSaveAndExit = useCallback(async (): Promise<void> => {
     if (!gameState || !gameConfig) return;
@@ -94,8 +117,8 @@ export function useSaveLoad(deps: {
   // Auto-save
   useEffect(() => {
     if (!gameState || !gameConfig) return;
-    autoSave(gameState, gameConfig, logs, events, 2000, currentGameId || "autosave", storySoFar);
-  }, [gameState, gameConfig, logs, events, currentGameId, storySoFar]);
+    autoSave(gameState, gameConfig, logs, events, 2000, currentGameId || "autosave", storySoFar, subsystems, uploadedPack);
+  }, [gameState, gameConfig, logs, events, currentGameId, storySoFar, subsystems, uploadedPack]);
 
   return {
     currentGameId,
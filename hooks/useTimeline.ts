@@ -2,59 +2,153 @@
 
 import { useState, useCallback } from "react";
 import {
+  ChatThread,
+  GameDate,
   GameState,
   GameEvent,
   DiplomaticRelation,
+  RelationLedgerEntry,
   TimelineSnapshot,
 } from "@/lib/types";
 import { LogEntry } from "@/lib/game-storage";
+import { formatGameDate } from "@/lib/calendar";
+import {
+  captureTimelineState,
+  descendantIds,
+  pruneSnapshots,
+  resolveSnapshot,
+  restoreTimelineGameState,
+  TimelineCapture,
+} from "@/lib/timeline";
+import { restoreLedger } from "@/lib/relation-ledger";
+
+const MAX_SNAPSHOTS = 100;
+
+function uid(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `id-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const describeSnapshot = (snapshot: TimelineSnapshot) =>
+  snapshot.date ? formatGameDate(snapshot.date) : `Year ${snapshot.turnYear}`;
 
 export function useTimeline(deps: {
   gameState: GameState | null;
   setGameState: React.Dispatch<React.SetStateAction<GameState | null>>;
   setEvents: React.Dispatch<React.SetStateAction<GameEvent[]>>;
   setRelations: React.Dispatch<React.SetStateAction<DiplomaticRelation[]>>;
+  setRelationLedger: React.Dispatch<React.SetStateAction<RelationLedgerEntry[]>>;
+  setLogs: React.Dispatch<React.SetStateAction<LogEntry[]>>;
+  setStorySoFar: React.Dispatch<React.SetStateAction<string>>;
+  setChatThreads: React.Dispatch<React.SetStateAction<ChatThread[]>>;
+  /** Chat lives in a hook created after this one, so it is read lazily. */
+  getChatThreads: () => ChatThread[];
   addLog: (text: string, type?: LogEntry["type"]) => void;
 }) {
-  const { gameState, setGameState, setEvents, setRelations, addLog } = deps;
+  const {
+    gameState,
+    setGameState,
+    setEvents,
+    setRelations,
+    setRelationLedger,
+    setLogs,
+    setStorySoFar,
+    setChatThreads,
+    getChatThreads,
+    addLog,
+  } = deps;
 
   const [timelineSnapshots, setTimelineSnapshots] = useState<TimelineSnapshot[]>([]);
+  /** Snapshot the current game continues from; the next recorded turn becomes its child. */
+  const [headSnapshotId, setHeadSnapshotId] = useState<string | null>(null);
+
+  /** Record the state right after a turn as a child of the current head. */
+  const recordSnapshot = useCallback(
+    (entry: { description: string; command: string; date: GameDate } & Omit<TimelineCapture, "chatThreads">) => {
+      const snapshot: TimelineSnapshot = {
+        id: uid(),
+        turnYear: entry.date.year,
+        date: entry.date,
+        timestamp: Date.now(),
+        description: entry.description,
+        command: entry.command,
+        gameStateSlim: captureTimelineState(
+          { ...entry, chatThreads: getChatThreads() },
+          headSnapshotId ? resolveSnapshot(timelineSnapshots, headSnapshotId) : null
+        ),
+        parentSnapshotId: headSnapshotId,
+      };
+      setTimelineSnapshots((prev) => pruneSnapshots([...prev, snapshot], snapshot.id, MAX_SNAPSHOTS));
+      setHeadSnapshotId(snapshot.id);
+    },
+    [headSnapshotId, timelineSnapshots, getChatThreads]
+  );
+
+  const restoreSnapshot = useCallback(
+    (snapshot: TimelineSnapshot) => {
+      const state = resolveSnapshot(timelineSnapshots, snapshot.id) ?? snapshot.gameStateSlim;
+      setGameState((prev) => (prev ? restoreTimelineGameState(prev, state) : prev));
+      setEvents(state.events);
+      setRelations(state.relations);
+      // Snapshots from before full-state capture leave the story, log and chat alone
+      if (state.storySoFar !== undefined) setStorySoFar(state.storySoFar);
+      if (state.logs) setLogs(state.logs);
+      if (state.chatThreads) setChatThreads(state.chatThreads);
+      const ledger = state.relationLedger;
+      if (ledger) setRelationLedger((prev) => restoreLedger(prev, ledger));
+      setHeadSnapshotId(snapshot.id);
+    },
+    [timelineSnapshots, setGameState, setEvents, setRelations, setRelationLedger, setStorySoFar, setLogs, setChatThreads]
+  );
 
+  /** Go back to a snapshot and discard everything that came after it. */
   const handleTimelineRewind = useCallback(
     (snapshotId: string) => {
       const snapshot = timelineSnapshots.find((s) => s.id === snapshotId);
       if (!snapshot || !gameState) return;
 
-      const restoredProvinces = gameState.provinces.map((p) => ({
-        ...p,
-        ownerId:
-          snapshot.gameStateSlim.provinceOwners[String(p.id)] ?? p.ownerId,
-      }));
-
-      setGameState({
-        ...gameState,
-        turn: snapshot.gameStateSlim.turn,
-        provinces: restoredProvinces,
-      });
-      setEvents(snapshot.gameStateSlim.events);
-      setRelations(snapshot.gameStateSlim.relations);
-      addLog(`Rewound to Year ${snapshot.turnYear}.`, "success");
+      const discarded = descendantIds(timelineSnapshots, snapshotId);
+      restoreSnapshot(snapshot);
+      setTimelineSnapshots((prev) => prev.filter((s) => !discarded.has(s.id)));
+      addLog(`Rewound to ${describeSnapshot(snapshot)}.`, "success");
     },
-    [timelineSnapshots, gameState, setGameState, setEvents, setRelations, addLog]
+    [timelineSnapshots, gameState, restoreSnapshot, addLog]
   );
 
+  /** Go back to a snapshot but keep later turns; the next turn starts a new branch. */
   const handleTimelineBranch = useCallback(
     (snapshotId: string) => {
-      handleTimelineRewind(snapshotId);
-      addLog("Created alternate timeline branch.", "info");
+      const snapshot = timelineSnapshots.find((s) => s.id === snapshotId);
+      if (!snapshot || !gameState) return;
+
+      restoreSnapshot(snapshot);
+      addLog(`Branched from ${describeSnapshot(snapshot)}. The original timeline is kept.`, "success");
+    },
+    [timelineSnapshots, gameState, restoreSnapshot, addLog]
+  );
+
+  /** Jump to the latest point of another branch. */
+  const handleSwitchBranch = useCallback(
+    (tipId: string) => {
+      const snapshot = timelineSnapshots.find((s) => s.id === tipId);
+      if (!snapshot || !gameState || snapshot.id === headSnapshotId) return;
+
+      restoreSnapshot(snapshot);
+      addLog(`Switched to the branch ending ${describeSnapshot(snapshot)}: ${snapshot.description}`, "success");
     },
-    [handleTimelineRewind, addLog]
+    [timelineSnapshots, gameState, headSnapshotId, restoreSnapshot, addLog]
   );
 
   return {
     timelineSnapshots,
     setTimelineSnapshots,
+    headSnapshotId,
+    setHeadSnapshotId,
+    recordSnapshot,
     handleTimelineRewind,
     handleTimelineBranch,
+    handleSwitchBranch,
   };
 }
@@ -1,18 +1,142 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { GameConfig } from "@/components/GameSetup";
 import {
+  GameDate,
   GameState,
   GameEvent,
   DiplomaticRelation,
-  TimelineSnapshot,
+  ForeignMessage,
+  Order,
+  OrderOutcome,
+  OrderStatus,
+  Player,
+  Province,
+  ProvinceResources,
+  RelationLedgerEntry,
+  ResourceKey,
+  TreatyType,
 } from "@/lib/types";
 import { LogEntry } from "@/lib/game-storage";
 import { loadPromptOverrides } from "@/components/PromptSettings";
+import { readSseStream } from "@/lib/sse";
+import {
+  createProvinceResolver,
+  loadStateAliases,
+  ProvinceCandidate,
+  ProvinceResolution,
+  StateAlias,
+} from "@/lib/province-resolver";
+import { applyResourceDelta, formatResourceDelta, getEraBounds } from "@/lib/province-resources";
+import { foundNation } from "@/lib/nation-registry";
+import { advanceDate, formatGameDate, getGameDate, monthsBetween, parseTimeStep } from "@/lib/calendar";
+import type { TurnOutcome } from "@/lib/briefing";
+import { TREATY_LABELS, changeRelation, createTreaty, expireTreaties, signTreaty } from "@/lib/treaties";
+import { findRelation, refreshOpinions } from "@/lib/opinion";
+import { appendLedger, ledgerEntries, recentLedger, renameEntries } from "@/lib/relation-ledger";
+import { OrderOptions, createOrder, formatOrderList, matchOutcomes, moveOrder, removeOrder, updateOrder } from "@/lib/orders";
+import { DEFAULT_NETWORK_MONTHS, establishNetwork, summarizeIntel, updateIntel } from "@/lib/intelligence";
+import {
+  mergeProvinces,
+  renameCountry,
+  renameNationInRelations,
+  renameProvince,
+  transferProvinces,
+} from "@/lib/territory";
 
 const MAX_LOGS = 200;
 const MAX_EVENTS = 200;
+/** Ledger entries sent to the Game Master, which sees them summarised per pair. */
+const PROMPT_LEDGER_ENTRIES = 40;
+/** Unprompted messages foreign leaders may send in one turn; the Game Master is asked for no more. */
+const MAX_FOREIGN_MESSAGES = 2;
+
+const TIME_STEP_LABELS: Record<string, string> = {
+  "5d": "5 days",
+  "1m": "1 month",
+  "6m": "6 months",
+  "1y": "1 year",
+};
+
+type TurnResponse = {
+  message?: string;
+  updates?: Record<string, unknown>[];
+  storySoFar?: string;
+  /** Validation errors the Game Master could not repair; the offending updates were not applied. */
+  rejected?: string[];
+  orderOutcomes?: OrderOutcome[];
+};
+
+const OUTCOME_LOG_TYPES: Record<OrderStatus, LogEntry["type"]> = {
+  succeeded: "success",
+  partial: "warning",
+  failed: "error",
+};
+
+const formatCandidates = (candidates: ProvinceCandidate[]) =>
+  candidates.map((c) => `${c.name} (${Math.round(c.confidence * 100)}%)`).join(", ");
+
+/** Warning text for an owner/resource update whose province could not be pinned down. */
+function describeUnresolved(kind: string, query: string, resolution: ProvinceResolution): string {
+  if (resolution.status === "ambiguous") {
+    return `${kind} update for "${query}" skipped: ambiguous between ${formatCandidates(resolution.alternatives)}.`;
+  }
+  const closest = resolution.alternatives.length > 0 ? ` Closest: ${formatCandidates(resolution.alternatives)}.` : "";
+  return `${kind} update for "${query}" skipped: no matching province.${closest}`;
+}
+
+type ResourceChangeEntry = { resources: ProvinceResources; deltas: Partial<ProvinceResources> };
+type NationChange = Partial<Pick<Player, "name" | "leader" | "capital">>;
+type RelationChange = (relations: DiplomaticRelation[]) => DiplomaticRelation[];
+/** A rename, transfer or merge; see lib/territory.ts. */
+type ProvinceChange = (provinces: Province[]) => Province[];
+
+// Turn changes are collected first and applied with these, once to live state
+// and once to the pre-turn closure to build the timeline snapshot.
+
+// Owners and resources change first, so merged provinces pool this turn's figures.
+const applyProvinceChanges = (
+  provinces: Province[],
+  owners: Map<string, string>,
+  resources: Map<string, ResourceChangeEntry>,
+  edits: ProvinceChange[],
+  turnYear: number
+): Province[] =>
+  edits.reduce(
+    (acc, change) => change(acc),
+    provinces.map((p) => {
+      const key = String(p.id);
+      const owner = owners.get(key);
+      const change = resources.get(key);
+      if (owner === undefined && !change) return p;
+      return {
+        ...p,
+        ...(owner !== undefined ? { ownerId: owner } : {}),
+        ...(change ? { resources: change.resources, lastResourceChange: { turn: turnYear, deltas: change.deltas } } : {}),
+      };
+    })
+  );
+
+const applyNationChanges = (
+  players: Record<string, Player>,
+  changes: Map<string, NationChange>,
+  founded: Map<string, Player>
+) => {
+  if (changes.size === 0 && founded.size === 0) return players;
+  const next = { ...players, ...Object.fromEntries(founded) };
+  changes.forEach((change, id) => {
+    if (next[id]) next[id] = { ...next[id], ...change };
+  });
+  return next;
+};
+
+// Relation changes are kept in order: a treaty signed and broken in the same
+// turn must be signed first.
+const applyRelationChanges = (relations: DiplomaticRelation[], changes: RelationChange[]) =>
+  changes.reduce((acc, change) => change(acc), relations);
+
+const capEvents = (events: GameEvent[]) => (events.length > MAX_EVENTS ? events.slice(-MAX_EVENTS) : events);
 
 function uid(): string {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -27,8 +151,27 @@ export function useTurnProcessing(deps: {
   setGameState: React.Dispatch<React.SetStateAction<GameState | null>>;
   relations: DiplomaticRelation[];
   setRelations: React.Dispatch<React.SetStateAction<DiplomaticRelation[]>>;
-  timelineSnapshots: TimelineSnapshot[];
-  setTimelineSnapshots: React.Dispatch<React.SetStateAction<TimelineSnapshot[]>>;
+  relationLedger: RelationLedgerEntry[];
+  setRelationLedger: React.Dispatch<React.SetStateAction<RelationLedgerEntry[]>>;
+  /** Records the post-turn world on the timeline; supplied by useTimeline. */
+  recordSnapshot: (entry: {
+    description: string;
+    command: string;
+    date: GameDate;
+    gameState: GameState;
+    events: GameEvent[];
+    relations: DiplomaticRelation[];
+    relationLedger: RelationLedgerEntry[];
+    storySoFar: string;
+    logs: LogEntry[];
+    ownerChanges: Record<string, string | null>;
+  }) => void;
+  /** Called once a turn's updates are applied; drives the advisor's turn briefing. */
+  onTurnResolved?: (outcome: TurnOutcome) => void;
+  /** Delivers messages foreign leaders sent this turn; supplied by useDiplomacy. */
+  onForeignMessages?: (messages: ForeignMessage[], date: GameDate) => void;
+  /** Nations renamed this turn, old name first; lets useDiplomacy retitle their threads. */
+  onNationsRenamed?: (renames: [string, string][]) => void;
 }) {
   const {
     gameState,
@@ -36,40 +179,93 @@ export function useTurnProcessing(deps: {
     setGameState,
     relations,
     setRelations,
-    timelineSnapshots,
-    setTimelineSnapshots,
+    relationLedger,
+    setRelationLedger,
+    recordSnapshot,
+    onTurnResolved,
+    onForeignMessages,
+    onNationsRenamed,
   } = deps;
 
   const [processingTurn, setProcessingTurn] = useState(false);
-  const [pendingOrders, setPendingOrders] = useState<string[]>([]);
+  const [pendingOrders, setPendingOrders] = useState<Order[]>([]);
   const [timeStep, setTimeStep] = useState("1m");
   const [customTime, setCustomTime] = useState("");
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [events, setEvents] = useState<GameEvent[]>([]);
   const [storySoFar, setStorySoFar] = useState("");
+  const [stateAliases, setStateAliases] = useState<StateAlias[]>([]);
 
-  const addLog = useCallback((text: string, type: LogEntry["type"] = "info") => {
+  // State names ("California") resolve to their region; loaded once in the background
+  useEffect(() => {
+    let cancelled = false;
+    loadStateAliases().then((aliases) => {
+      if (!cancelled) setStateAliases(aliases);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const provinceResolver = useMemo(
+    () => createProvinceResolver(gameState?.provinces ?? [], stateAliases),
+    [gameState?.provinces, stateAliases]
+  );
+
+  const addLog = useCallback((text: string, type: LogEntry["type"] = "info"): LogEntry => {
+    const entry = { id: uid(), type, text };
     setLogs((prev) => {
-      const next = [...prev, { id: uid(), type, text }];
+      const next = [...prev, entry];
+      return next.length > MAX_LOGS ? next.slice(-MAX_LOGS) : next;
+    });
+    return entry;
+  }, []);
+
+  /** Insert or replace a log entry by id; used to grow the streamed narration in place. */
+  const upsertLog = useCallback((id: string, text: string, streaming: boolean) => {
+    setLogs((prev) => {
+      if (prev.some((l) => l.id === id)) {
+        return prev.map((l) => (l.id === id ? { ...l, text, streaming } : l));
+      }
+      const next = [...prev, { id, type: "info" as const, text, streaming }];
       return next.length > MAX_LOGS ? next.slice(-MAX_LOGS) : next;
     });
   }, []);
 
   const queueOrder = useCallback(
-    (cmd: string) => {
-      if (!gameState || !gameConfig) return;
+    (cmd: string, options?: OrderOptions) => {
+      if (!gameState || !gameConfig || !cmd.trim()) return;
       addLog(cmd, "command");
-      setPendingOrders((prev) => [...prev, cmd]);
+      setPendingOrders((prev) => [...prev, createOrder(uid(), cmd, options)]);
       addLog("Order queued. Click Advance to execute.", "info");
     },
     [gameState, gameConfig, addLog]
   );
 
+  const editOrder = useCallback((id: string, patch: Partial<Omit<Order, "id">>) => {
+    setPendingOrders((prev) => updateOrder(prev, id, patch));
+  }, []);
+
+  const cancelOrder = useCallback((id: string) => {
+    setPendingOrders((prev) => removeOrder(prev, id));
+  }, []);
+
+  const reorderOrder = useCallback((id: string, offset: number) => {
+    setPendingOrders((prev) => moveOrder(prev, id, offset));
+  }, []);
+
+  /**
+   * `asOf` is the date the turn resolves at; handleNextTurn passes the
+   * post-advance date and the orders listed in `cmd`, so outcomes can be matched.
+   */
   const processCommand = useCallback(
-    async (cmd: string) => {
+    async (cmd: string, asOf?: GameDate, orders: Order[] = []) => {
       if (!gameState || !gameConfig || processingTurn) return;
 
       setProcessingTurn(true);
+      const date = asOf ?? getGameDate(gameState);
+      // Treaties that ran out by this date are gone before the GM sees the world
+      const expiry = expireTreaties(relations, date);
 
       try {
         const provinceSummary = gameState.provinces
@@ -82,24 +278,65 @@ export function useTurnProcessing(deps: {
           body: JSON.stringify({
             command: cmd,
             gameState: {
-              turn: gameState.turn,
+              turn: date.year,
+              date,
               players: gameState.players,
               provinces: provinceSummary,
             },
             config: gameConfig,
             history: logs.slice(-15),
             events: events.slice(-10),
-            relations,
+            relations: expiry.relations,
+            relationHistory: recentLedger(relationLedger, PROMPT_LEDGER_ENTRIES),
             provinceSummary,
             storySoFar,
             promptOverrides: loadPromptOverrides(),
+            intelligence: gameState.intel ? summarizeIntel(gameState, expiry.relations, date) : undefined,
+            stream: true,
           }),
         });
 
-        const data = await res.json();
+        // Log entries from this turn, kept for the timeline snapshot
+        const turnLogs: LogEntry[] = [];
+        const log = (text: string, type: LogEntry["type"] = "info") => {
+          turnLogs.push(addLog(text, type));
+        };
 
-        if (data.message) {
-          addLog(data.message, "info");
+        // Errors before the model is called (validation, rate limit) still come back as JSON
+        let data: TurnResponse;
+        if (res.headers.get("content-type")?.includes("text/event-stream")) {
+          const narrationId = uid();
+          let narration = "";
+          let result: TurnResponse | null = null;
+          try {
+            await readSseStream(res.body, (event) => {
+              if (typeof event.text === "string") {
+                narration += event.text;
+                upsertLog(narrationId, narration, true);
+              }
+              if (event.result) result = event.result as TurnResponse;
+            });
+          } catch (streamErr) {
+            if (narration) upsertLog(narrationId, narration, false);
+            addLog(streamErr instanceof Error ? streamErr.message : "The Game Master went silent.", "error");
+            return;
+          }
+          if (!result) {
+            if (narration) upsertLog(narrationId, narration, false);
+            addLog("The Game Master's response was cut off. No changes were applied.", "error");
+            return;
+          }
+          data = result;
+          // Replace the raw streamed text with the validated message
+          if (data.message) {
+            upsertLog(narrationId, data.message, false);
+            turnLogs.push({ id: narrationId, type: "info", text: data.message });
+          }
+        } else {
+          data = await res.json();
+          if (data.message) {
+            log(data.message, "info");
+          }
         }
 
         if (data.storySoFar) {
@@ -108,66 +345,89 @@ export function useTurnProcessing(deps: {
 
         let hasSignificantEvent = false;
         const turnEvents: string[] = [];
+        const ownerChanges = new Map<string, string>();
+        // Resource deltas accumulate here so several updates to one province compound
+        const resourceChanges = new Map<string, ResourceChangeEntry>();
+        const nationChanges = new Map<string, NationChange>();
+        const foundedNations = new Map<string, Player>();
+        const provinceEdits: ProvinceChange[] = [];
+        const nationRenames: [string, string][] = [];
+        const relationChanges: RelationChange[] = [];
+        // Relations as of each update, so breaches can be reported as they happen
+        let relationsAfter = expiry.relations;
+        const ledger: RelationLedgerEntry[] = [];
+        const newEvents: GameEvent[] = [];
+        const foreignMessages: ForeignMessage[] = [];
+        // Spy networks planted this turn: nation id -> months they report for
+        const networkChanges = new Map<string, number>();
+
+        if (expiry.expired.length > 0) {
+          relationChanges.push((prev) => expireTreaties(prev, date).relations);
+          expiry.expired.forEach((t) => {
+            log(`${t.name} between ${t.parties.join(", ")} has expired.`, "diplomacy");
+            turnEvents.push(`${t.name} expired`);
+          });
+        }
+
+        // Nations founded earlier in this response count as known
+        const nationOf = (id: string): Player | undefined => foundedNations.get(id) ?? gameState.players[id];
+        /** Resolve the provinces a found, transfer or merge update lists, warning about the rest. */
+        const resolveProvinces = (kind: string, names: string[]) =>
+          names.flatMap((requestedName) => {
+            const resolution = provinceResolver.resolve(requestedName);
+            const target = resolution.province;
+            if (!target) {
+              log(describeUnresolved(kind, requestedName, resolution), "warning");
+              return [];
+            }
+            if (target.matchedOn === "fuzzy") {
+              log(`Interpreted "${requestedName}" as ${target.name} (${Math.round(target.confidence * 100)}% match).`, "warning");
+            }
+            return [target];
+          });
 
         if (data.updates) {
           data.updates.forEach((update: Record<string, unknown>) => {
             if (update.type === "owner") {
-              const provinceName = update.provinceName as string;
+              const requestedName = update.provinceName as string;
               const newOwner = update.newOwnerId as string;
               const isPlayerCapture = newOwner === "player";
+              if (!nationOf(newOwner)) {
+                log(`Owner update for "${requestedName}" skipped: unknown nation "${newOwner}".`, "warning");
+                return;
+              }
 
-              setGameState((prev) => {
-                if (!prev) return null;
-                const pLower = provinceName.toLowerCase();
-                let target = prev.provinces.find(
-                  (p) => p.name.toLowerCase() === pLower
-                );
-                if (!target) {
-                  target = prev.provinces.find(
-                    (p) =>
-                      p.name.toLowerCase().startsWith(pLower + " (") ||
-                      p.name.replace(/\s*\(.*\)$/, "").toLowerCase() === pLower
-                  );
-                }
-                if (!target) {
-                  target = prev.provinces.find(
-                    (p) =>
-                      (p.parentCountryName || "").toLowerCase() === pLower &&
-                      !p.isSubNational
-                  );
-                }
-                if (target) {
-                  return {
-                    ...prev,
-                    provinces: prev.provinces.map((p) =>
-                      p.id === target.id ? { ...p, ownerId: newOwner } : p
-                    ),
-                  };
-                }
-                return prev;
-              });
+              const resolution = provinceResolver.resolve(requestedName);
+              const target = resolution.province;
+              if (!target) {
+                log(describeUnresolved("Owner", requestedName, resolution), "warning");
+                return;
+              }
+              if (target.matchedOn === "fuzzy") {
+                log(`Interpreted "${requestedName}" as ${target.name} (${Math.round(target.confidence * 100)}% match).`, "warning");
+              }
+              const provinceName = target.name;
+              ownerChanges.set(String(target.id), newOwner);
 
               hasSignificantEvent = true;
               if (isPlayerCapture) {
-                addLog(`CAPTURED: ${provinceName} is now under your control!`, "capture");
+                log(`CAPTURED: ${provinceName} is now under your control!`, "capture");
                 turnEvents.push(`Captured ${provinceName}`);
               } else {
-                addLog(`${provinceName} seized by ${newOwner}`, "war");
-                turnEvents.push(`${provinceName} fell to ${newOwner}`);
+                const ownerName = nationOf(newOwner)?.name ?? newOwner;
+                log(`${provinceName} seized by ${ownerName}`, "war");
+                turnEvents.push(`${provinceName} fell to ${ownerName}`);
               }
             }
 
             if (update.type === "event") {
               const eventType = (update.eventType as string) || "flavor";
-              const newEvent: GameEvent = {
+              newEvents.push({
                 id: uid(),
-                year: (update.year as number) || gameState.turn,
+                year: (update.year as number) || date.year,
+                date: !update.year || update.year === date.year ? date : undefined,
                 description: update.description as string,
                 type: (eventType as GameEvent["type"]) || "flavor",
-              };
-              setEvents((prev) => {
-                const next = [...prev, newEvent];
-                return next.length > MAX_EVENTS ? next.slice(-MAX_EVENTS) : next;
               });
 
               const logType = (
@@ -181,65 +441,340 @@ export function useTurnProcessing(deps: {
                 hasSignificantEvent = true;
                 turnEvents.push(update.description as string);
               }
-              addLog(update.description as string, logType);
+              log(update.description as string, logType);
             }
 
             if (update.type === "relation") {
-              const rel: DiplomaticRelation = {
-                nationA: update.nationA as string,
-                nationB: update.nationB as string,
-                type: (update.relationType as DiplomaticRelation["type"]) || "neutral",
-                treaties: [],
-              };
-              setRelations((prev) => {
-                const filtered = prev.filter(
-                  (r) =>
-                    !(
-                      (r.nationA === rel.nationA && r.nationB === rel.nationB) ||
-                      (r.nationA === rel.nationB && r.nationB === rel.nationA)
-                    )
-                );
-                return [...filtered, rel];
-              });
+              const nationA = update.nationA as string;
+              const nationB = update.nationB as string;
+              const requested = (update.relationType as DiplomaticRelation["type"]) || "neutral";
+              const difficulty = gameConfig.difficulty;
+              const previous = findRelation(relationsAfter, nationA, nationB)?.type ?? "neutral";
+              const { relations: next, broken, type: relType, blocked } =
+                changeRelation(relationsAfter, nationA, nationB, requested, date, difficulty);
+              relationChanges.push((prev) => changeRelation(prev, nationA, nationB, requested, date, difficulty).relations);
+              ledger.push(...ledgerEntries(relationsAfter, next, { date, cause: update.reason as string, source: "turn" }));
+              relationsAfter = next;
 
+              if (blocked) {
+                log(`${nationA} ↔ ${nationB}: ${requested} held back at ${relType} (${blocked}).`, "warning");
+                if (relType === previous) return;
+              }
               hasSignificantEvent = true;
-              const relType = update.relationType as string;
               const logType = (relType === "war" ? "war" : relType === "allied" ? "diplomacy" : "info") as LogEntry["type"];
-              addLog(`${update.nationA} ↔ ${update.nationB}: ${relType}`, logType);
-              turnEvents.push(`${update.nationA} & ${update.nationB} now ${relType}`);
+              log(`${nationA} ↔ ${nationB}: ${relType}`, logType);
+              turnEvents.push(`${nationA} & ${nationB} now ${relType}`);
+              broken.forEach((t) => {
+                log(`TREATY BROKEN: ${nationA} has violated the ${t.name} with ${nationB}.`, "war");
+                turnEvents.push(`${nationA} broke the ${t.name}`);
+              });
             }
+
+            if (update.type === "treaty") {
+              const treatyType = update.treatyType as TreatyType;
+              const treaty = createTreaty({
+                type: treatyType,
+                parties: update.parties as string[],
+                startDate: date,
+                name: update.name as string | undefined,
+                durationMonths: update.durationMonths as number | null | undefined,
+                terms: update.terms as string,
+              });
+              const difficulty = gameConfig.difficulty;
+              relationChanges.push((prev) => signTreaty(prev, treaty, date, difficulty).relations);
+              const { relations: signed, broken, held } = signTreaty(relationsAfter, treaty, date, difficulty);
+              ledger.push(...ledgerEntries(relationsAfter, signed, { date, cause: `Signed the ${treaty.name}`, source: "turn" }));
+              relationsAfter = signed;
+
+              hasSignificantEvent = true;
+              const kind = treaty.name === TREATY_LABELS[treatyType] ? "" : ` (${TREATY_LABELS[treatyType]})`;
+              log(`TREATY SIGNED: ${treaty.name}${kind} between ${treaty.parties.join(", ")}.${treaty.terms ? ` ${treaty.terms}` : ""}`, "diplomacy");
+              turnEvents.push(`${treaty.name} signed by ${treaty.parties.join(", ")}`);
+              held.forEach((h) => {
+                log(`${h.nationA} ↔ ${h.nationB}: ${h.requested} held back at ${h.type} (${h.blocked}).`, "warning");
+              });
+              broken.forEach((t) => {
+                log(`TREATY BROKEN: ${t.brokenBy} has violated the ${t.name}.`, "war");
+                turnEvents.push(`${t.brokenBy} broke the ${t.name}`);
+              });
+            }
+
+            if (update.type === "nation") {
+              const nationId = update.nationId as string;
+              const current = gameState.players[nationId];
+              if (!current) {
+                log(`Nation update skipped: unknown nation "${nationId}".`, "warning");
+                return;
+              }
+              const leader = update.leader as string | undefined;
+              const capital = update.capital as string | undefined;
+              nationChanges.set(nationId, {
+                ...nationChanges.get(nationId),
+                ...(leader ? { leader } : {}),
+                ...(capital ? { capital } : {}),
+              });
+
+              if (leader && leader !== current.leader) {
+                log(`${current.name} is now led by ${leader}.`, "diplomacy");
+                if (current.leader) turnEvents.push(`${leader} succeeds ${current.leader} in ${current.name}`);
+              }
+              if (capital && capital !== current.capital) {
+                log(`${current.name} moves its capital to ${capital}.`, "info");
+                if (current.capital) turnEvents.push(`${current.name} capital moved to ${capital}`);
+              }
+            }
+
+            if (update.type === "found") {
+              const nationId = update.nationId as string;
+              const name = update.name as string;
+              if (nationOf(nationId)) {
+                log(`Found update for "${name}" skipped: the nation already exists.`, "warning");
+                return;
+              }
+              const nation = foundNation(
+                { ...gameState.players, ...Object.fromEntries(foundedNations) },
+                nationId,
+                name,
+                update.color as string | undefined,
+                update.capital as string | undefined
+              );
+              foundedNations.set(nationId, nation);
+              const targets = resolveProvinces("Found", (update.provinceNames as string[] | undefined) ?? []);
+              const ids = targets.map((t) => String(t.id));
+              ids.forEach((id) => ownerChanges.set(id, nationId));
+              if (ids.length > 0) provinceEdits.push((prev) => transferProvinces(prev, ids, nationId, name));
+
+              hasSignificantEvent = true;
+              const lands = targets.length > 0 ? ` in ${targets.map((t) => t.name).join(", ")}` : "";
+              log(`A NEW NATION: ${name} is founded${lands}.`, "diplomacy");
+              turnEvents.push(`${name} founded`);
+            }
+
+            if (update.type === "transfer") {
+              const nationId = update.nationId as string;
+              const nation = nationOf(nationId);
+              if (!nation) {
+                log(`Transfer update skipped: unknown nation "${nationId}".`, "warning");
+                return;
+              }
+              const targets = resolveProvinces("Transfer", update.provinceNames as string[]);
+              if (targets.length === 0) return;
+              const ids = targets.map((t) => String(t.id));
+              ids.forEach((id) => ownerChanges.set(id, nationId));
+              provinceEdits.push((prev) => transferProvinces(prev, ids, nation.countryId ?? nation.id, nation.name));
+
+              hasSignificantEvent = true;
+              const names = targets.map((t) => t.name).join(", ");
+              log(`BORDERS REDRAWN: ${names} ${targets.length === 1 ? "passes" : "pass"} to ${nation.name}.`, nationId === "player" ? "capture" : "diplomacy");
+              turnEvents.push(`${names} ceded to ${nation.name}`);
+            }
+
+            if (update.type === "merge") {
+              const targets = resolveProvinces("Merge", update.provinceNames as string[]);
+              const ids = [...new Set(targets.map((t) => String(t.id)))];
+              if (ids.length < 2) {
+                log(`Merge update skipped: it needs two provinces, found ${ids.length}.`, "warning");
+                return;
+              }
+              const name = update.name as string | undefined;
+              provinceEdits.push((prev) => mergeProvinces(prev, ids, name));
+
+              hasSignificantEvent = true;
+              const [survivor, ...absorbed] = targets;
+              const renamed = name && name !== survivor.name ? `, now called ${name}` : "";
+              log(`${survivor.name} absorbs ${absorbed.map((t) => t.name).join(", ")}${renamed}.`, "info");
+              turnEvents.push(`${absorbed.map((t) => t.name).join(", ")} merged into ${name ?? survivor.name}`);
+            }
+
+            if (update.type === "rename") {
+              const name = update.name as string;
+              if (update.provinceName) {
+                const [target] = resolveProvinces("Rename", [update.provinceName as string]);
+                if (!target || target.name === name) return;
+                provinceEdits.push((prev) => renameProvince(prev, String(target.id), name));
+                log(`${target.name} is renamed ${name}.`, "info");
+                turnEvents.push(`${target.name} renamed ${name}`);
+                return;
+              }
+
+              const nationId = update.nationId as string;
+              const current = nationOf(nationId);
+              if (!current) {
+                log(`Rename update skipped: unknown nation "${nationId}".`, "warning");
+                return;
+              }
+              const from = nationChanges.get(nationId)?.name ?? current.name;
+              if (from === name) return;
+              nationChanges.set(nationId, { ...nationChanges.get(nationId), name });
+              if (current.countryId) {
+                const countryId = current.countryId;
+                provinceEdits.push((prev) => renameCountry(prev, countryId, name));
+              }
+              // Relations, treaties and the ledger name nations by display name
+              const change: RelationChange = (prev) => renameNationInRelations(prev, from, name);
+              relationChanges.push(change);
+              relationsAfter = change(relationsAfter);
+              nationRenames.push([from, name]);
+
+              hasSignificantEvent = true;
+              log(`${from} is now known as ${name}.`, "diplomacy");
+              turnEvents.push(`${from} renamed ${name}`);
+            }
+
+            if (update.type === "message") {
+              const nation = update.nation as string;
+              if (foreignMessages.length >= MAX_FOREIGN_MESSAGES) {
+                log(`Message from ${nation} skipped: at most ${MAX_FOREIGN_MESSAGES} foreign messages arrive per turn.`, "warning");
+                return;
+              }
+              const proposal = update.proposal as ForeignMessage["proposal"];
+              foreignMessages.push({
+                nation,
+                content: update.content as string,
+                tone: (update.tone as ForeignMessage["tone"]) || "neutral",
+                proposal,
+              });
+              log(`${nation} has sent you a message${proposal ? ` with a proposal (${proposal.kind})` : ""}. See Diplomacy.`, "diplomacy");
+            }
+
+            if (update.type === "intel") {
+              const nationId = update.nationId as string;
+              const nation = gameState.players[nationId];
+              if (!gameState.intel || !nation) return;
+              const months = (update.durationMonths as number | undefined) ?? DEFAULT_NETWORK_MONTHS;
+              networkChanges.set(nationId, Math.max(networkChanges.get(nationId) ?? 0, months));
+              log(`Your agents report from inside ${nation.name} for the next ${months} month${months === 1 ? "" : "s"}.`, "success");
+            }
+
+            if (update.type === "resource") {
+              const requestedName = update.provinceName as string;
+              const key = update.resource as ResourceKey;
+              const resolution = provinceResolver.resolve(requestedName);
+              const target = resolution.province;
+              if (!target) {
+                log(describeUnresolved("Resource", requestedName, resolution), "warning");
+                return;
+              }
+              const province = gameState.provinces.find((p) => p.id === target.id);
+              if (!province) return;
+
+              const provinceKey = String(target.id);
+              const entry = resourceChanges.get(provinceKey) ?? { resources: province.resources, deltas: {} };
+              const { resources, applied, clamped } = applyResourceDelta(entry.resources, key, update.delta as number, date.year);
+              if (applied === 0) {
+                if (clamped) {
+                  const era = getEraBounds(date.year);
+                  log(`${target.name}: ${key} change ignored, already at the ${era.label} era limit.`, "warning");
+                }
+                return;
+              }
+              resourceChanges.set(provinceKey, {
+                resources,
+                deltas: { ...entry.deltas, [key]: (entry.deltas[key] ?? 0) + applied },
+              });
+
+              const reason = update.reason ? ` (${update.reason as string})` : "";
+              log(`${target.name}: ${key} ${formatResourceDelta(applied)}${reason}`, "economy");
+              turnEvents.push(`${target.name} ${key} ${formatResourceDelta(applied)}`);
+            }
+          });
+        }
+
+        // `gameState` is the pre-turn closure; rebuild what the setters below produce
+        const before = { ...gameState, turn: date.year, date };
+        const after: GameState = {
+          ...before,
+          provinces: applyProvinceChanges(gameState.provinces, ownerChanges, resourceChanges, provinceEdits, date.year),
+          players: applyNationChanges(gameState.players, nationChanges, foundedNations),
+        };
+
+        // Opinions fade with the time that passed and follow the new map
+        const lastTurn = getGameDate(gameState);
+        const months = monthsBetween(lastTurn, date);
+        const refresh: RelationChange = (prev) => refreshOpinions(prev, after, months);
+        relationChanges.push(refresh);
+        relationsAfter = refresh(relationsAfter);
+
+        // What the player saw before the turn is what it keeps of provinces now out of view
+        const settleIntel = (prev: GameState, next: Pick<GameState, "provinces" | "players">) => {
+          if (!prev.intel) return prev.intel;
+          let intel = prev.intel;
+          networkChanges.forEach((m, nationId) => {
+            intel = establishNetwork(intel, nationId, date, m);
+          });
+          return updateIntel(intel, prev.provinces, next, relationsAfter, date, lastTurn);
+        };
+        after.intel = settleIntel(gameState, after);
+
+        const territoryChanged = provinceEdits.length > 0 || foundedNations.size > 0;
+        if (ownerChanges.size > 0 || resourceChanges.size > 0 || nationChanges.size > 0 || territoryChanged || gameState.intel) {
+          setGameState((prev) => {
+            if (!prev) return null;
+            const next = {
+              provinces: applyProvinceChanges(prev.provinces, ownerChanges, resourceChanges, provinceEdits, date.year),
+              players: applyNationChanges(prev.players, nationChanges, foundedNations),
+            };
+            return { ...prev, ...next, intel: settleIntel(prev, next) };
+          });
+        }
+        setRelations((prev) => applyRelationChanges(prev, relationChanges));
+        // Renames go after the turn's changes, so entries logged under the old name follow it
+        const turnLedger = [...ledger, ...renameEntries(nationRenames, date)];
+        const settleLedger = (prev: RelationLedgerEntry[]) => appendLedger(prev, turnLedger);
+        if (turnLedger.length > 0) {
+          setRelationLedger(settleLedger);
+        }
+        if (nationRenames.length > 0) {
+          onNationsRenamed?.(nationRenames);
+        }
+        if (newEvents.length > 0) {
+          setEvents((prev) => capEvents([...prev, ...newEvents]));
+        }
+        if (foreignMessages.length > 0) {
+          onForeignMessages?.(foreignMessages, date);
+        }
+
+        if (data.orderOutcomes && orders.length > 0) {
+          const matched = matchOutcomes(orders, data.orderOutcomes);
+          matched.forEach(({ order, outcome }) => {
+            const label = order.text.length > 60 ? `${order.text.slice(0, 57)}...` : order.text;
+            const summary = outcome.summary ? ` ${outcome.summary}` : "";
+            log(`Order ${outcome.order} ${outcome.status.toUpperCase()}: "${label}".${summary}`, OUTCOME_LOG_TYPES[outcome.status]);
           });
+          const unanswered = orders.length - matched.length;
+          if (unanswered > 0) {
+            log(`The Game Master gave no verdict on ${unanswered} order${unanswered === 1 ? "" : "s"}.`, "warning");
+          }
+        }
+
+        if (data.rejected && data.rejected.length > 0) {
+          data.rejected.forEach((reason) => log(`Ignored invalid GM output: ${reason}`, "warning"));
         }
 
         if (turnEvents.length > 0) {
           const summary = turnEvents.map((e) => `  - ${e}`).join("\n");
-          addLog(`--- Events This Period ---\n${summary}`, "event-summary");
+          log(`--- Events This Period ---\n${summary}`, "event-summary");
         }
 
         if (hasSignificantEvent) {
-          setTimelineSnapshots((prev) => {
-            const next = [
-              ...prev,
-              {
-                id: uid(),
-                turnYear: gameState.turn,
-                timestamp: Date.now(),
-                description: turnEvents[0] || data.message?.slice(0, 100) || cmd.slice(0, 100),
-                command: cmd,
-                gameStateSlim: {
-                  turn: gameState.turn,
-                  provinceOwners: Object.fromEntries(
-                    gameState.provinces.map((p) => [String(p.id), p.ownerId])
-                  ),
-                  events: events.slice(-20),
-                  relations,
-                },
-                parentSnapshotId: prev.length > 0 ? prev[prev.length - 1].id : null,
-              },
-            ];
-            return next.length > 50 ? next.slice(-50) : next;
+          recordSnapshot({
+            description: turnEvents[0] || data.message?.slice(0, 100) || cmd.slice(0, 100),
+            command: cmd,
+            date,
+            gameState: after,
+            events: capEvents([...events, ...newEvents]),
+            relations: relationsAfter,
+            relationLedger: settleLedger(relationLedger),
+            storySoFar: data.storySoFar || storySoFar,
+            logs: [...logs, ...turnLogs],
+            ownerChanges: Object.fromEntries(
+              gameState.provinces
+                .filter((p) => ownerChanges.has(String(p.id)) && ownerChanges.get(String(p.id)) !== p.ownerId)
+                .map((p) => [String(p.id), p.ownerId])
+            ),
           });
         }
+        onTurnResolved?.({ before, after, relationsBefore: relations, relationsAfter });
       } catch (err) {
         console.error(err);
         addLog("Communication with HQ lost (Network Error).", "error");
@@ -247,36 +782,37 @@ export function useTurnProcessing(deps: {
         setProcessingTurn(false);
       }
     },
-    [gameState, gameConfig, processingTurn, logs, events, relations, storySoFar, addLog, setGameState, setRelations, setTimelineSnapshots]
+    [gameState, gameConfig, processingTurn, logs, events, relations, relationLedger, storySoFar, provinceResolver, addLog, upsertLog, setGameState, setRelations, setRelationLedger, recordSnapshot, onTurnResolved, onForeignMessages, onNationsRenamed]
   );
 
   const handleNextTurn = useCallback(() => {
     if (!gameState || !gameConfig || processingTurn) return;
 
     const period = timeStep === "custom" ? customTime : timeStep;
-    const label = period || "1 month";
+    const step = parseTimeStep(period || "1m");
+    if (!step) {
+      addLog(`Unrecognized time step "${period}". Try "10 days", "3 months" or "2 years".`, "error");
+      return;
+    }
+
+    const from = getGameDate(gameState);
+    const to = advanceDate(from, step);
+    const label = timeStep === "custom" ? period.trim() : TIME_STEP_LABELS[timeStep] ?? period;
 
     const orders = [...pendingOrders];
-    const timeCmd = `Advance time by ${label}`;
+    const timeCmd = `Advance time by ${label} (${formatGameDate(from)} to ${formatGameDate(to)})`;
 
     let fullCommand: string;
     if (orders.length > 0) {
-      fullCommand = `ORDERS:\n${orders.map((o, i) => `${i + 1}. ${o}`).join("\n")}\n\nThen ${timeCmd}.`;
+      fullCommand = `${formatOrderList(orders)}\n\nThen ${timeCmd}.`;
     } else {
       fullCommand = `No new orders. ${timeCmd}. Describe what happens in the world.`;
     }
 
-    const yearDelta =
-      period === "5d" ? 0 :
-      period === "1m" ? 0 :
-      period === "6m" ? 0 :
-      period === "1y" ? 1 : 0;
-    if (yearDelta > 0) {
-      setGameState((prev) => (prev ? { ...prev, turn: prev.turn + yearDelta } : null));
-    }
+    setGameState((prev) => (prev ? { ...prev, turn: to.year, date: to } : null));
     setPendingOrders([]);
-    processCommand(fullCommand);
-  }, [gameState, gameConfig, processingTurn, timeStep, customTime, pendingOrders, processCommand, setGameState]);
+    processCommand(fullCommand, to, orders);
+  }, [gameState, gameConfig, processingTurn, timeStep, customTime, pendingOrders, processCommand, setGameState, addLog]);
 
   return {
     processingTurn,
@@ -294,6 +830,9 @@ export function useTurnProcessing(deps: {
     setStorySoFar,
     addLog,
     queueOrder,
+    editOrder,
+    cancelOrder,
+    reorderOrder,
     handleNextTurn,
   };
 }
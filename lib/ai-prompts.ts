@@ -2,6 +2,13 @@
 // All prompts return strict JSON for deterministic parsing.
 
 import type { PromptOverrides } from "@/components/PromptSettings";
+import type { AdvisorAddressee, GameDate, OpinionModifier, RelationChangeEntry, Treaty } from "./types";
+import { formatGameDate, formatGameMonth } from "./calendar";
+import { MINISTERS, getMinister, isMinisterId, ministerPersonality } from "./council";
+import { TREATY_TYPES, describeTreaty } from "./treaties";
+import { describeTransitionRules, formatOpinion, opinionScore } from "./opinion";
+import { summarizeLedger } from "./relation-ledger";
+import type { IntelSummary } from "./intelligence";
 
 const DIFFICULTY_PROFILES: Record<string, string> = {
   Sandbox: `SANDBOX MODE — MAXIMUM PERMISSIVENESS: The player can do virtually ANYTHING. Accept all player actions as succeeding unless they are physically impossible (e.g. teleportation, magic in a non-magic setting). Do NOT reject, refuse, or fail player actions based on "realism" or "plausibility". Wars are won quickly. Diplomacy always works. The player's nation is exceptionally powerful and competent. Other nations are cooperative and easily persuaded. Treat this as a creative sandbox where the player is exploring "what if" scenarios. The only limit is basic internal consistency. Consequences should be mild and recoverable. NEVER say an action "fails" or is "rejected" — find a way to make it work narratively.`,
@@ -11,19 +18,79 @@ const DIFFICULTY_PROFILES: Record<string, string> = {
   Impossible: `IMPOSSIBLE: Multi-turn preparation needed for any major action. AI is ruthless with long memories and sophisticated strategies. Economies are fragile, over-extension is fatal. The world does not revolve around the player.`,
 };
 
-function formatRelations(
-  relations?: Array<{ nationA: string; nationB: string; type: string; treaties?: string[] }>
-): string {
+/** Active treaties only; expired and broken ones are history the model does not need. */
+function formatTreaties(treaties?: Treaty[]): string {
+  return (treaties ?? []).filter((t) => t.status === "active").map(describeTreaty).join(", ");
+}
+
+type PromptRelation = {
+  nationA: string;
+  nationB: string;
+  type: string;
+  treaties?: Treaty[];
+  opinionModifiers?: OpinionModifier[];
+};
+
+/** "opinion +12" when the pair has any modifiers; older relations have none. */
+function formatOpinionNote(relation: { opinionModifiers?: OpinionModifier[] } | null | undefined): string {
+  return relation?.opinionModifiers?.length ? `opinion ${formatOpinion(opinionScore(relation))}` : "";
+}
+
+function formatRelations(relations?: PromptRelation[]): string {
   if (!relations || relations.length === 0) return "None.";
   return relations.map((r) => {
-    const t = r.treaties?.length ? ` [${r.treaties.join(", ")}]` : "";
-    return `${r.nationA}<->${r.nationB}: ${r.type.toUpperCase()}${t}`;
+    const active = formatTreaties(r.treaties);
+    const t = active ? ` [${active}]` : "";
+    const opinion = formatOpinionNote(r);
+    return `${r.nationA}<->${r.nationB}: ${r.type.toUpperCase()}${opinion ? ` (${opinion})` : ""}${t}`;
+  }).join("; ");
+}
+
+function formatNations(players: Record<string, { name: string; capital?: string; leader?: string }>): string {
+  const entries = Object.entries(players).filter(([id]) => id !== "player");
+  if (entries.length === 0) return "None.";
+  return entries.map(([id, n]) => {
+    const details = [n.capital, n.leader].filter(Boolean).join(", ");
+    return `${id}=${n.name}${details ? ` (${details})` : ""}`;
   }).join("; ");
 }
 
-function formatEvents(events?: Array<{ year: number; description: string; type?: string }>): string {
+/** "[Mar 1805]" when the record carries a calendar date, "[1805]" for older records. */
+function stamp(record: { year?: number; turnYear?: number; date?: GameDate }): string {
+  return `[${record.date ? formatGameMonth(record.date) : record.year ?? record.turnYear}]`;
+}
+
+/** Full date for prompt headers, falling back to the bare year. */
+function formatContextDate(context: { year: number; date?: GameDate }): string {
+  return context.date ? formatGameDate(context.date) : `Year ${context.year}`;
+}
+
+/** One line per pair: "A<->B: neutral > hostile > war (3 changes since Jan 1805; last [Mar 1807] reason)". */
+function formatRelationHistory(entries?: RelationChangeEntry[]): string {
+  if (!entries || entries.length === 0) return "None recorded.";
+  return summarizeLedger(entries).map((p) => {
+    const changes = `${p.changes} change${p.changes === 1 ? "" : "s"} since ${formatGameMonth(p.since)}`;
+    return `${p.nationA}<->${p.nationB}: ${p.path.join(" > ")} (${changes}; last ${stamp(p.last)} ${p.last.cause})`;
+  }).join("; ");
+}
+
+/** Fog-of-war block: who the player can see into, and what it has wrong. */
+function formatIntelligence(playerNation: string, intel: IntelSummary): string {
+  const list = (names: string[]) => (names.length > 0 ? names.join(", ") : "none");
+  const networks = intel.networks.map((n) => `${n.nation} (until ${formatGameMonth(n.until)})`);
+  const stale = intel.stale.map((s) => `${s.province}: believed ${s.believedOwner} as of ${formatGameMonth(s.asOf)}, actually ${s.actualOwner}`);
+  if (intel.moreStale > 0) stale.push(`${intel.moreStale} more`);
+  return `INTELLIGENCE (fog of war -- ${playerNation} only knows what its intelligence reaches):
+- Full picture (allies, vassals): ${list(intel.allies)}
+- Spy networks: ${list(networks)}
+- Seen across the border, figures only estimated: ${list(intel.bordering)}
+- Every other nation is known by rumour only.
+- Out-of-date beliefs: ${stale.length > 0 ? stale.join("; ") : "none"}`;
+}
+
+function formatEvents(events?: Array<{ year: number; date?: GameDate; description: string; type?: string }>): string {
   if (!events || events.length === 0) return "None.";
-  return events.map((e) => `[${e.year}] ${e.description}`).join("; ");
+  return events.map((e) => `${stamp(e)} ${e.description}`).join("; ");
 }
 
 function formatHistory(history?: Array<{ type?: string; text?: string; content?: string }>): string {
@@ -112,16 +179,20 @@ Think in terms of grand strategy across military, diplomatic, economic, and dome
 // 1. GAME MASTER TURN PROMPT
 export function buildGameMasterPrompt(args: {
   command: string;
-  gameState: { turn: number; players: Record<string, { name: string }> };
+  gameState: { turn: number; date?: GameDate; players: Record<string, { name: string; capital?: string; leader?: string }> };
   config: { scenario: string; difficulty: string };
   history?: Array<{ type?: string; text: string }>;
-  events?: Array<{ year: number; description: string; type: string }>;
-  relations?: Array<{ nationA: string; nationB: string; type: string; treaties: string[] }>;
+  events?: Array<{ year: number; date?: GameDate; description: string; type: string }>;
+  relations?: PromptRelation[];
+  /** Recent relation ledger entries, summarised per pair. */
+  relationHistory?: RelationChangeEntry[];
   provinceSummary?: Array<{ name: string; ownerId: string | null }>;
   storySoFar?: string;
   promptOverrides?: Partial<PromptOverrides>;
+  /** Only sent in fog-of-war games. */
+  intelligence?: IntelSummary;
 }): string {
-  const { command, gameState, config, history, events, relations, provinceSummary, storySoFar, promptOverrides } = args;
+  const { command, gameState, config, history, events, relations, relationHistory, provinceSummary, storySoFar, promptOverrides, intelligence } = args;
   const playerNation = gameState.players["player"]?.name ?? "Unknown";
 
   const overrides = {
@@ -137,13 +208,15 @@ export function buildGameMasterPrompt(args: {
 
 SCENARIO: ${config.scenario}
 ERA: ${buildGeopoliticalContext(gameState.turn)}
-YEAR: ${gameState.turn} | PLAYER: ${playerNation}
+DATE: ${formatContextDate({ year: gameState.turn, date: gameState.date })} | PLAYER: ${playerNation}
 ${DIFFICULTY_PROFILES[config.difficulty] || DIFFICULTY_PROFILES["Realistic"]}
 
 ${storyBlock}
 
+NATIONS (id=name (capital, leader)): ${formatNations(gameState.players)}
 CURRENT RELATIONS: ${formatRelations(relations)}
-TERRITORY: ${formatProvinces(provinceSummary)}
+RELATION HISTORY (most recent first): ${formatRelationHistory(relationHistory)}
+TERRITORY: ${formatProvinces(provinceSummary)}${intelligence ? `\n${formatIntelligence(playerNation, intelligence)}` : ""}
 RECENT EVENTS: ${formatEvents(events)}
 RECENT COMMANDS:
 ${formatHistory(history)}
@@ -154,18 +227,32 @@ ADJUDICATION RULES:
 ${overrides.adjudicationRules}
 
 RELATION TYPES: neutral, friendly, allied, hostile, war, vassal.
+RELATION RULES: ${describeTransitionRules(config.difficulty)} Opinion runs from -100 to +100.
+TREATY TYPES: ${TREATY_TYPES.join(", ")}.
 
 OUTPUT: Return EXACTLY one raw JSON object. No markdown fences. No text outside JSON.
 {
   "message": "1-3 sentence vivid narrative. Outcome, reactions, and consequences.",
   "updates": [
-    { "type": "owner", "provinceName": "EXACT province name from territory list", "newOwnerId": "player or ai_id" },
+    { "type": "owner", "provinceName": "EXACT province name from territory list", "newOwnerId": "player or a nation id from NATIONS" },
     { "type": "event", "description": "Concise event for the log", "eventType": "war|diplomacy|discovery|flavor|economy|crisis", "year": ${gameState.turn} },
-    { "type": "relation", "nationA": "Nation Name", "nationB": "Nation Name", "relationType": "neutral|friendly|allied|hostile|war|vassal", "reason": "Brief reason" }
+    { "type": "relation", "nationA": "Nation Name", "nationB": "Nation Name", "relationType": "neutral|friendly|allied|hostile|war|vassal", "reason": "Brief reason" },
+    { "type": "resource", "provinceName": "EXACT province name", "resource": "population|defense|economy|technology", "delta": -1, "reason": "Brief cause" },
+    { "type": "nation", "nationId": "nation id from NATIONS", "leader": "Current ruler", "capital": "Capital city" },
+    { "type": "treaty", "treatyType": "${TREATY_TYPES.join("|")}", "parties": ["player", "nation id from NATIONS"], "durationMonths": 120, "terms": "One sentence", "name": "Optional, e.g. Treaty of Tilsit" },
+    { "type": "message", "nationId": "nation id from NATIONS", "content": "1-3 sentences the leader writes to ${playerNation}", "tone": "friendly|neutral|hostile|threatening", "proposalKind": "ultimatum|trade|alliance|peace|other", "proposal": "Optional: what ${playerNation} is asked to agree to" },
+    { "type": "found", "name": "New nation's name", "color": "#8b5cf6", "capital": "Capital city", "provinceNames": ["EXACT province names it takes"] },
+    { "type": "transfer", "provinceNames": ["EXACT province names"], "nationId": "player or a nation id from NATIONS" },
+    { "type": "merge", "provinceNames": ["EXACT name of the province that remains", "EXACT province names it absorbs"], "name": "Optional new name" },
+    { "type": "rename", "name": "New name", "provinceName": "EXACT province name (or nationId: a nation id from NATIONS)" }${intelligence ? `,
+    { "type": "intel", "nationId": "nation id from NATIONS", "durationMonths": 12 }` : ""}
+  ],
+  "orderOutcomes": [
+    { "order": 1, "status": "succeeded|partial|failed", "summary": "One sentence: what came of this order" }
   ],
   "storySoFar": "Updated compressed narrative of the ENTIRE game so far (max 500 words). Include: all wars and their outcomes, all alliances/treaties, territory changes, major diplomatic shifts, ongoing conflicts, economic developments, and the player's strategic arc. This is your memory — anything not included here will be forgotten. Append new developments to the existing story, don't rewrite from scratch."
 }
-Only include updates that actually occur. Empty updates = []. Include an "event" for anything noteworthy. provinceName MUST match exactly. ALWAYS include "storySoFar" — this is critical for continuity.`;
+Only include updates that actually occur. Empty updates = []. newOwnerId MUST be "player" or an id listed in NATIONS. Use "nation" updates when a ruler or capital changes (capitals listed are present-day; correct them when they matter for the era). Include an "event" for anything noteworthy. provinceName MUST match exactly. Use "resource" updates for lasting material effects (infrastructure, war damage, reforms, famine): delta is a signed change, not a new value -- population in millions, economy in billions USD, defense and technology in whole levels on a 1-10 scale (e.g. 1 or -2, never fractions). [WARNING] entries in RECENT COMMANDS are your previous updates that could not be applied (unknown or ambiguous province) -- re-issue them with an exact name if they still apply. Use "treaty" updates when nations sign an agreement (durationMonths null = no end date); treaties in CURRENT RELATIONS are binding until they expire. In a "relation" update to war, nationA is the side declaring it -- declaring war on a treaty partner breaks every treaty between them, so only do it when the narrative earns the betrayal. Foreign leaders may contact ${playerNation} on their own with "message" updates (ultimatums, trade offers, alliance requests, condolences, warnings) -- at most 2 per turn, only when relations or recent events give them a reason; add "proposalKind" and "proposal" when they expect an answer. Borders can change beyond conquest: "found" creates a nation (a secession, a revolt's new state) on the provinces listed -- later updates in the same response can name it -- "transfer" cedes provinces for good by treaty or annexation (use "owner" for occupation in war), "merge" unites provinces into the first one listed, and "rename" gives a province or a foreign nation a new name. Use them sparingly, only when the story settles a border. Orders starting "Accept" or "Reject" answer such a proposal: honour them with the matching relation or treaty updates. RELATION HISTORY is how each pair got where it is: nations remember old betrayals and long friendships, so keep their conduct consistent with it.${intelligence ? ` The narrative is what ${playerNation} learns: never state figures, troop movements or border changes in nations it only knows by rumour (hint at them as rumours at most), and do not correct its out-of-date beliefs unless this turn's events would reveal the truth. Add an "intel" update when ${playerNation}'s espionage succeeds in planting a spy network in a nation (durationMonths is how long it keeps reporting).` : ""} When PLAYER COMMAND lists numbered ORDERS, give exactly one "orderOutcomes" entry per order number (omit "orderOutcomes" otherwise). Orders are carried out in the listed sequence; [HIGH] orders get the nation's best effort and [LOW] ones whatever is left; "-> X" names the province or nation the order targets. ALWAYS include "storySoFar" — this is critical for continuity.`;
 }
 
 // 2. DIPLOMACY CHAT PROMPT
@@ -173,26 +260,36 @@ export function buildDiplomacyPrompt(args: {
   playerNation: string;
   targetNation: string;
   message: string;
-  chatHistory: Array<{ sender: string; content: string; turnYear: number }>;
-  gameContext: { year: number; scenario: string; difficulty: string };
-  relations?: { type: string; treaties: string[] } | null;
-  recentEvents?: Array<{ year: number; description: string }>;
+  chatHistory: Array<{ sender: string; content: string; turnYear: number; date?: GameDate }>;
+  gameContext: { year: number; date?: GameDate; scenario: string; difficulty: string };
+  relations?: { type: string; treaties: Treaty[]; opinionModifiers?: OpinionModifier[] } | null;
+  /** Ledger entries between the two nations, oldest first. */
+  relationHistory?: RelationChangeEntry[];
+  recentEvents?: Array<{ year: number; date?: GameDate; description: string }>;
   promptOverrides?: Partial<PromptOverrides>;
 }): string {
-  const { playerNation, targetNation, message, chatHistory, gameContext, relations, recentEvents, promptOverrides } = args;
+  const { playerNation, targetNation, message, chatHistory, gameContext, relations, relationHistory, recentEvents, promptOverrides } = args;
 
   const historyBlock = chatHistory.length > 0
-    ? chatHistory.map((m) => `[${m.turnYear}] ${m.sender}: ${m.content}`).join("\n")
+    ? chatHistory.map((m) => `${stamp(m)} ${m.sender}: ${m.content}`).join("\n")
     : "First contact.";
 
-  const rel = relations ? `${relations.type.toUpperCase()}${relations.treaties.length ? ` | Treaties: ${relations.treaties.join(", ")}` : ""}` : "No prior relationship";
-  const evts = recentEvents?.length ? recentEvents.map((e) => `[${e.year}] ${e.description}`).join("; ") : "None";
+  const treaties = formatTreaties(relations?.treaties);
+  const opinion = formatOpinionNote(relations);
+  const rel = relations
+    ? `${relations.type.toUpperCase()}${opinion ? ` | ${opinion} (-100 to +100)` : ""}${treaties ? ` | Treaties: ${treaties}` : ""}`
+    : "No prior relationship";
+  const past = relationHistory?.length
+    ? relationHistory.map((e) => `${stamp(e)} ${e.from} -> ${e.to}: ${e.cause}`).join("; ")
+    : "No changes recorded";
+  const evts = recentEvents?.length ? recentEvents.map((e) => `${stamp(e)} ${e.description}`).join("; ") : "None";
 
   return `You ARE the leader of ${targetNation} speaking with ${playerNation}'s leader. Never break character or acknowledge being AI.
 
-Context: ${gameContext.scenario} | Year ${gameContext.year}
+Context: ${gameContext.scenario} | ${formatContextDate(gameContext)}
 ${DIFFICULTY_PROFILES[gameContext.difficulty] || DIFFICULTY_PROFILES["Realistic"]}
 Relationship: ${rel}
+History between you: ${past}
 Recent events: ${evts}
 
 Conversation:
@@ -208,34 +305,105 @@ OUTPUT: Raw JSON only, no markdown fences.
   "tone": "friendly|neutral|hostile|threatening",
   "relationChange": null
 }
-If relationship shifts: "relationChange": { "newType": "neutral|friendly|allied|hostile|war|vassal", "reason": "Brief reason" }`;
+If relationship shifts: "relationChange": { "newType": "neutral|friendly|allied|hostile|war|vassal", "reason": "Brief reason" }
+If you agree to a treaty, add it to relationChange: "treaty": { "treatyType": "${TREATY_TYPES.join("|")}", "durationMonths": 60, "terms": "One sentence" } (durationMonths null = no end date). Declaring war breaks every treaty you hold with ${playerNation}.`;
+}
+
+// 2b. DIPLOMACY CONFERENCE PROMPT (group threads)
+export function buildConferencePrompt(args: {
+  playerNation: string;
+  participants: string[];
+  conferenceName: string;
+  message: string;
+  chatHistory: Array<{ sender: string; content: string; turnYear: number; date?: GameDate }>;
+  gameContext: { year: number; date?: GameDate; scenario: string; difficulty: string };
+  relations?: PromptRelation[];
+  /** Ledger entries between nations at the table, summarised per pair. */
+  relationHistory?: RelationChangeEntry[];
+  recentEvents?: Array<{ year: number; date?: GameDate; description: string }>;
+  promptOverrides?: Partial<PromptOverrides>;
+}): string {
+  const { playerNation, participants, conferenceName, message, chatHistory, gameContext, relations, relationHistory, recentEvents, promptOverrides } = args;
+
+  const historyBlock = chatHistory.length > 0
+    ? chatHistory.map((m) => `${stamp(m)} ${m.sender}: ${m.content}`).join("\n")
+    : "The conference opens.";
+  const evts = recentEvents?.length ? recentEvents.map((e) => `${stamp(e)} ${e.description}`).join("; ") : "None";
+
+  return `You voice the leaders of ${participants.join(", ")} at "${conferenceName}", a conference convened with ${playerNation}'s leader. Each leader is a separate person with their own interests; never break character or acknowledge being AI.
+
+Context: ${gameContext.scenario} | ${formatContextDate(gameContext)}
+${DIFFICULTY_PROFILES[gameContext.difficulty] || DIFFICULTY_PROFILES["Realistic"]}
+Relations at the table: ${formatRelations(relations)}
+History at the table: ${formatRelationHistory(relationHistory)}
+Recent events: ${evts}
+
+Conversation:
+${historyBlock}
+
+${playerNation}: "${message}"
+
+${promptOverrides?.diplomacyInstructions ?? DIPLOMACY_DEFAULT}
+
+Every participant speaks once, in turn. Later speakers react to earlier ones -- support, object, bargain or side with each other against ${playerNation}. Leaders pursue their own agenda, not just the player's.
+Only propose a treaty when the parties have genuinely agreed on terms in this conversation; leaders who did not agree are not signatories.
+
+OUTPUT: Raw JSON only, no markdown fences.
+{
+  "replies": [
+    { "nation": "${participants[0] ?? "Nation"}", "message": "1-2 sentences in character.", "tone": "friendly|neutral|hostile|threatening", "agenda": "What this nation is really after, max 10 words", "relationChange": null }
+  ],
+  "treaty": null
+}
+"nation" MUST be one of: ${participants.join(", ")}. A reply's relationChange is its relation with ${playerNation}: { "newType": "neutral|friendly|allied|hostile|war|vassal", "reason": "Brief reason" }.
+If a treaty is agreed: "treaty": { "name": "Treaty of ...", "treatyType": "${TREATY_TYPES.join("|")}", "durationMonths": 120, "terms": "One sentence", "signatories": ["${playerNation}", ...], "relationType": "friendly|allied|vassal|neutral|null" } -- durationMonths null means no end date; relationType is what every pair of signatories becomes, or null to use the treaty type's usual standing.`;
 }
 
 // 3. ADVISOR PROMPT
-export function buildAdvisorPrompt(args: {
+type AdvisorPromptArgs = {
   question: string;
   playerNation: string;
-  gameContext: { year: number; scenario: string; difficulty: string };
-  recentEvents?: Array<{ year: number; description: string }>;
+  gameContext: { year: number; date?: GameDate; scenario: string; difficulty: string };
+  recentEvents?: Array<{ year: number; date?: GameDate; description: string }>;
   relations?: Array<{ nationA: string; nationB: string; type: string }>;
   history?: Array<{ content: string; role: string }>;
   promptOverrides?: Partial<PromptOverrides>;
-}): string {
-  const { question, playerNation, gameContext, recentEvents, relations, history, promptOverrides } = args;
+};
+
+const ACTIONS_INSTRUCTION = `Each suggested action is queued verbatim as the ruler's order, so phrase it as an imperative command (e.g. "Send envoys to Venice to propose a trade pact"), under 80 characters.`;
 
-  const evts = recentEvents?.length ? recentEvents.map((e) => `[${e.year}] ${e.description}`).join("; ") : "None";
+/** Shared situation block for the advisor and council prompts. */
+function formatAdvisorContext(args: AdvisorPromptArgs): string {
+  const { playerNation, gameContext, recentEvents, relations, history } = args;
+
+  const evts = recentEvents?.length ? recentEvents.map((e) => `${stamp(e)} ${e.description}`).join("; ") : "None";
   const rels = relations?.length ? relations.map((r) => `${r.nationA}<->${r.nationB}: ${r.type}`).join("; ") : "None";
   const conv = history?.length ? history.slice(-6).map((h) => `[${h.role === "user" ? "RULER" : "ADVISOR"}] ${h.content}`).join("\n") : "New session.";
 
-  return `${promptOverrides?.advisorPersonality ?? ADVISOR_DEFAULT}
-
-Context: ${gameContext.scenario} | Year ${gameContext.year} | ${gameContext.difficulty}
+  return `Context: ${gameContext.scenario} | ${formatContextDate(gameContext)} | ${gameContext.difficulty}
 Nation: ${playerNation}
 Relations: ${rels}
 Events: ${evts}
 
 Prior conversation:
-${conv}
+${conv}`;
+}
+
+/** `addressee` picks the persona: the Grand Advisor (default) or a single minister. */
+export function buildAdvisorPrompt(args: AdvisorPromptArgs & { addressee?: AdvisorAddressee }): string {
+  const { question, addressee, promptOverrides } = args;
+
+  let persona = promptOverrides?.advisorPersonality ?? ADVISOR_DEFAULT;
+  if (isMinisterId(addressee)) {
+    const minister = getMinister(addressee);
+    persona = `${ministerPersonality(minister, promptOverrides)}
+
+You sit on the ruler's council as ${minister.title}. Answer from your own portfolio and say plainly when a matter belongs to another minister. Address the ruler appropriately for the era.`;
+  }
+
+  return `${persona}
+
+${formatAdvisorContext(args)}
 
 Ruler asks: "${question}"
 
@@ -244,5 +412,33 @@ OUTPUT: Raw JSON only, no markdown fences.
   "advice": "2-4 sentences of in-character counsel. Specific and actionable.",
   "category": "military|diplomacy|economy|domestic|general",
   "suggestedActions": ["Specific game command 1", "Command 2", "Command 3"]
-}`;
+}
+${ACTIONS_INSTRUCTION}`;
+}
+
+// 4. COUNCIL PROMPT
+export function buildCouncilPrompt(args: AdvisorPromptArgs): string {
+  const { question, promptOverrides } = args;
+
+  const ministers = MINISTERS.map(
+    (m) => `- "${m.id}" (${m.title}): ${ministerPersonality(m, promptOverrides)}`
+  ).join("\n");
+
+  return `You are voicing the ruler's COUNCIL OF MINISTERS in session. Each minister speaks in character from their own portfolio:
+${ministers}
+
+${formatAdvisorContext(args)}
+
+Ruler asks the council: "${question}"
+
+Let the ministers debate: each relevant minister (at least three) states a position in 1-3 sentences, and later speakers may rebut earlier ones. Ministers should genuinely disagree where their portfolios conflict. Then give the council's recommended consensus, noting any minister who still dissents.
+
+OUTPUT: Raw JSON only, no markdown fences.
+{
+  "debate": [{ "minister": "war|foreign|treasury|interior|spymaster", "position": "In-character statement" }],
+  "consensus": "2-3 sentences: the course the council recommends and why.",
+  "category": "military|diplomacy|economy|domestic|general",
+  "suggestedActions": ["Specific game command 1", "Command 2", "Command 3"]
+}
+${ACTIONS_INSTRUCTION}`;
 }
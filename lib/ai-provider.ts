@@ -0,0 +1,513 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import type { Schema as GeminiSchema } from "@google/generative-ai";
+import { callCliBridge } from "./cli-bridge";
+import type { JsonSchema, StructuredSchema } from "./ai-schemas";
+
+// Unified AI provider layer shared by /api/turn, /api/chat and /api/advisor.
+// Each adapter returns the raw model text; generateStructured() handles
+// cleaning, parsing, schema validation and repair retries.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ProviderConfig {
+  provider: string;
+  apiKey: string;
+  model: string;
+  /** Base URL for the "custom" OpenAI-compatible provider (Ollama, LM Studio, vLLM, OpenRouter). */
+  baseUrl?: string;
+}
+
+export interface GenerateOptions {
+  config: ProviderConfig;
+  /** Output token cap for providers that require one (Anthropic). */
+  maxTokens?: number;
+  /** When set, the provider is called in streaming mode and each text chunk is passed here. */
+  onText?: (chunk: string) => void;
+  /** Aborts the provider request, e.g. when the client that asked for it has gone. */
+  signal?: AbortSignal;
+}
+
+export interface StructuredOptions extends GenerateOptions {
+  /** Re-prompts allowed after the first attempt fails validation. */
+  maxRepairs?: number;
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  /** Validation errors still present in the accepted attempt (dropped updates, defaulted fields). */
+  rejected: string[];
+  attempts: number;
+}
+
+type NativeSchema = Pick<StructuredSchema<unknown>, "name" | "description" | "jsonSchema">;
+
+type AdapterRequest = {
+  prompt: string;
+  system: string;
+  config: ProviderConfig;
+  maxTokens: number;
+  onText?: (chunk: string) => void;
+  signal?: AbortSignal;
+  /** Passed to providers with native structured output (JSON schema mode, tool calling). */
+  schema?: NativeSchema;
+};
+
+type ProviderAdapter = (req: AdapterRequest) => Promise<string>;
+
+// ---------------------------------------------------------------------------
+// Constants & Helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_MAX_REPAIRS = 2;
+const REPAIR_ECHO_LIMIT = 4000;
+
+const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+const FALLBACK_GEMINI_MODELS = [
+  "gemini-3-flash-preview",
+  "gemini-2.5-flash",
+  "gemini-flash-latest",
+];
+
+const normalizeGeminiModel = (model: string | undefined): string => {
+  if (!model) return DEFAULT_GEMINI_MODEL;
+  const trimmed = model.trim();
+  if (!trimmed) return DEFAULT_GEMINI_MODEL;
+  return trimmed.startsWith("models/") ? trimmed.slice("models/".length) : trimmed;
+};
+
+const isModelSelectionError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return (
+    message.includes("not found") ||
+    message.includes("unsupported") ||
+    message.includes("invalid model") ||
+    message.includes("404")
+  );
+};
+
+/** Strip markdown fences and surrounding prose, returning the outermost JSON object. */
+export const extractJson = (text: string): string => {
+  return (
+    text
+      .replace(/```json/g, "")
+      .replace(/```/g, "")
+      .match(/(\{[\s\S]*\})/)?.[1] || text.trim()
+  );
+};
+
+/**
+ * Incrementally decode one top-level string field (e.g. "message") out of a
+ * JSON document that is still being streamed. Returns a chunk consumer; each
+ * newly decoded piece of the field's value is passed to onDelta.
+ */
+export const createJsonFieldStreamer = (
+  field: string,
+  onDelta: (text: string) => void
+): ((chunk: string) => void) => {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = "";
+  let cursor = -1; // index in buffer where the unread part of the value starts
+  let done = false;
+
+  return (chunk: string) => {
+    if (done) return;
+    buffer += chunk;
+
+    if (cursor < 0) {
+      const match = opener.exec(buffer);
+      if (!match) return;
+      cursor = match.index + match[0].length;
+    }
+
+    let out = "";
+    while (cursor < buffer.length) {
+      const ch = buffer[cursor];
+      if (ch === '"') { done = true; break; }
+      if (ch !== "\\") { out += ch; cursor++; continue; }
+
+      // Escape sequence -- wait for the rest of it if it is split across chunks
+      const escLength = buffer[cursor + 1] === "u" ? 6 : 2;
+      if (cursor + escLength > buffer.length) break;
+      try {
+        out += JSON.parse(`"${buffer.slice(cursor, cursor + escLength)}"`);
+      } catch { /* drop malformed escapes */ }
+      cursor += escLength;
+    }
+
+    if (out) onDelta(out);
+  };
+};
+
+/** Standard JSON Schema for OpenAI and Anthropic: `nullable` becomes a type union. */
+const toStandardSchema = (schema: JsonSchema): Record<string, unknown> => {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(nullable ? { type: [schema.type, "null"] } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, toStandardSchema(v)])) }
+      : {}),
+    ...(items ? { items: toStandardSchema(items) } : {}),
+  };
+};
+
+/** Gemini's OpenAPI-flavoured schema: string enums must be tagged with format "enum". */
+const toGeminiSchema = (schema: JsonSchema): GeminiSchema => {
+  const { properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(schema.enum ? { format: "enum" } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, toGeminiSchema(v)])) }
+      : {}),
+    ...(items ? { items: toGeminiSchema(items) } : {}),
+  } as GeminiSchema;
+};
+
+const buildRepairPrompt = (prompt: string, previous: string, errors: string[]): string => `${prompt}
+
+---
+REPAIR REQUEST: your previous response could not be used.
+Problems found:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Your previous response:
+${previous.slice(0, REPAIR_ECHO_LIMIT)}
+
+Return the complete corrected JSON object only. Keep every valid part of the previous response unchanged.`;
+
+/**
+ * Hosts the server may call for the "custom" provider, as `host` or
+ * `host:port`, comma-separated. The server makes the request, so "localhost"
+ * is the server's own machine; custom endpoints are off unless this is set.
+ */
+const customProviderHosts = (): Set<string> =>
+  new Set(
+    (process.env.CUSTOM_PROVIDER_HOSTS || "")
+      .split(",")
+      .map((h) => h.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+/** Why a custom endpoint URL may not be called, or null if it is allowed. */
+const checkCustomEndpoint = (baseUrl: string): string | null => {
+  const allowed = customProviderHosts();
+  if (allowed.size === 0) return "Custom endpoints are disabled on this server";
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return "Custom endpoint base URL is invalid";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "Custom endpoint must use http or https";
+  if (!allowed.has(url.hostname.toLowerCase()) && !allowed.has(url.host.toLowerCase())) {
+    return `Custom endpoint host ${url.hostname} is not allowed on this server`;
+  }
+  return null;
+};
+
+/** Whether a provider needs an API key. Custom endpoints are often self-hosted and keyless. */
+export const requiresApiKey = (provider: string | undefined): boolean =>
+  provider !== "local" && provider !== "custom";
+
+/** Returns a client-facing error for an unusable config, or null if the config can be called. */
+export const validateProviderConfig = (config: Partial<ProviderConfig> | undefined): string | null => {
+  if (requiresApiKey(config?.provider) && !config?.apiKey) return "API Key missing";
+  if (config?.provider === "custom") {
+    if (!config.baseUrl?.trim()) return "Custom endpoint base URL missing";
+    if (!config.model?.trim()) return "Custom endpoint model missing";
+    return checkCustomEndpoint(config.baseUrl.trim());
+  }
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+const localAdapter: ProviderAdapter = ({ prompt, system, config, onText, signal }) =>
+  callCliBridge({
+    provider: config.model || "claude",
+    prompt,
+    systemPrompt: system,
+    onText,
+    signal,
+  });
+
+/** Shared by every OpenAI-compatible adapter: plain request, or streamed when onText is set. */
+const runChatCompletion = async (
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onText?: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!onText) {
+    const completion = await client.chat.completions.create(params, { signal });
+    return completion.choices[0].message.content || "{}";
+  }
+
+  const stream = await client.chat.completions.create({ ...params, stream: true }, { signal });
+  let text = "";
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (!delta) continue;
+    text += delta;
+    onText(delta);
+  }
+  return text || "{}";
+};
+
+const googleAdapter: ProviderAdapter = async ({ prompt, config, onText, signal, schema }) => {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+  const preferredModel = normalizeGeminiModel(config.model);
+
+  const requestGemini = async (modelName: string): Promise<string> => {
+    const model = genAI.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: schema ? toGeminiSchema(schema.jsonSchema) : undefined,
+      },
+    });
+    if (!onText) {
+      const result = await model.generateContent(prompt, { signal });
+      return result.response.text();
+    }
+
+    const result = await model.generateContentStream(prompt, { signal });
+    let text = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (!delta) continue;
+      text += delta;
+      onText(delta);
+    }
+    return text;
+  };
+
+  const modelCandidates = Array.from(
+    new Set([preferredModel, ...FALLBACK_GEMINI_MODELS])
+  );
+
+  let lastModelError: unknown = null;
+  for (const modelName of modelCandidates) {
+    try {
+      return await requestGemini(modelName);
+    } catch (error) {
+      if (!isModelSelectionError(error)) throw error;
+      lastModelError = error;
+    }
+  }
+
+  if (lastModelError) throw lastModelError;
+  return "{}";
+};
+
+const deepseekAdapter: ProviderAdapter = ({ prompt, config, onText, signal, schema }) => {
+  const deepseek = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: "https://api.deepseek.com",
+  });
+  return runChatCompletion(
+    deepseek,
+    {
+      messages: [{ role: "system", content: prompt }],
+      model: config.model,
+      // JSON mode only; the reasoner model rejects response_format
+      response_format: schema && config.model === "deepseek-chat" ? { type: "json_object" } : undefined,
+    },
+    onText,
+    signal
+  );
+};
+
+const openaiAdapter: ProviderAdapter = ({ prompt, config, onText, signal, schema }) => {
+  const openai = new OpenAI({ apiKey: config.apiKey });
+  const isOSeries = config.model.startsWith("o");
+  const supportsJsonMode = config.model.includes("gpt-4o") || config.model.includes("o3");
+  return runChatCompletion(
+    openai,
+    {
+      messages: [{ role: isOSeries ? "user" : "system", content: prompt }],
+      model: config.model,
+      response_format: !supportsJsonMode
+        ? undefined
+        : schema
+          ? {
+              type: "json_schema",
+              json_schema: {
+                name: schema.name,
+                description: schema.description,
+                schema: toStandardSchema(schema.jsonSchema),
+                strict: false,
+              },
+            }
+          : { type: "json_object" },
+    },
+    onText,
+    signal
+  );
+};
+
+const anthropicAdapter: ProviderAdapter = async ({ prompt, system, config, maxTokens, onText, signal, schema }) => {
+  const anthropic = new Anthropic({ apiKey: config.apiKey });
+  // With a schema, force a single tool call whose input is the structured response
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: config.model,
+    max_tokens: maxTokens,
+    system,
+    messages: [{ role: "user", content: prompt }],
+    ...(schema
+      ? {
+          tools: [
+            {
+              name: schema.name,
+              description: schema.description,
+              input_schema: toStandardSchema(schema.jsonSchema) as Anthropic.Tool.InputSchema,
+            },
+          ],
+          tool_choice: { type: "tool" as const, name: schema.name },
+        }
+      : {}),
+  };
+  let msg: Anthropic.Message;
+  if (onText) {
+    const stream = anthropic.messages.stream(params, { signal });
+    stream.on("text", onText);
+    stream.on("inputJson", (partialJson) => onText(partialJson));
+    msg = await stream.finalMessage();
+  } else {
+    msg = await anthropic.messages.create(params, { signal });
+  }
+  const toolUse = msg.content.find((block) => block.type === "tool_use");
+  if (toolUse) return JSON.stringify(toolUse.input);
+  const text = msg.content.find((block) => block.type === "text");
+  return text ? text.text : "{}";
+};
+
+const customAdapter: ProviderAdapter = async ({ prompt, system, config, onText, signal }) => {
+  const baseURL = config.baseUrl?.trim();
+  if (!baseURL) throw new Error("Custom provider requires a base URL");
+  if (!config.model?.trim()) throw new Error("Custom provider requires a model name");
+  const refused = checkCustomEndpoint(baseURL);
+  if (refused) throw new Error(refused);
+
+  const client = new OpenAI({
+    // The SDK refuses to construct without a key; local servers ignore it.
+    apiKey: config.apiKey || "not-needed",
+    baseURL,
+  });
+  try {
+    return await runChatCompletion(
+      client,
+      {
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        model: config.model.trim(),
+      },
+      onText,
+      signal
+    );
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Upstream bodies can carry whatever the endpoint returns; only the status goes back to the player.
+    console.error("[ai-provider] custom endpoint request failed:", error);
+    const status = error instanceof OpenAI.APIError && error.status ? ` (HTTP ${error.status})` : "";
+    throw new Error(`Custom endpoint request failed${status}`);
+  }
+};
+
+const ADAPTERS: Record<string, ProviderAdapter> = {
+  local: localAdapter,
+  google: googleAdapter,
+  deepseek: deepseekAdapter,
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  custom: customAdapter,
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Call the configured provider and return the raw response text. */
+export async function generateText(
+  prompt: string,
+  system: string,
+  options: GenerateOptions
+): Promise<string> {
+  const { config, maxTokens = DEFAULT_MAX_TOKENS, onText, signal } = options;
+  return callAdapter({ prompt, system, config, maxTokens, onText, signal });
+}
+
+const callAdapter = (req: AdapterRequest): Promise<string> => {
+  const { config } = req;
+  const adapter = ADAPTERS[config.provider];
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${config.provider}`);
+  }
+  return adapter(req);
+};
+
+/**
+ * Call the configured provider for a response matching `schema`.
+ *
+ * Uses native structured output where the provider supports it. When the
+ * response is not valid JSON or fails validation, the model is re-prompted
+ * with the errors up to `maxRepairs` times. If every attempt fails, the last
+ * parseable attempt is accepted with its errors reported in `rejected`; if
+ * none parsed, this throws.
+ */
+export async function generateStructured<T>(
+  prompt: string,
+  system: string,
+  schema: StructuredSchema<T>,
+  options: StructuredOptions
+): Promise<StructuredResult<T>> {
+  const { config, maxTokens = DEFAULT_MAX_TOKENS, onText, signal, maxRepairs = DEFAULT_MAX_REPAIRS } = options;
+  const native: NativeSchema = { name: schema.name, description: schema.description, jsonSchema: schema.jsonSchema };
+
+  let attemptPrompt = prompt;
+  let best: { value: T; errors: string[] } | null = null;
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    signal?.throwIfAborted();
+    const responseText = await callAdapter({
+      prompt: attemptPrompt,
+      system,
+      config,
+      maxTokens,
+      // Only the first attempt streams; repairs replace it wholesale
+      onText: attempt === 1 ? onText : undefined,
+      signal,
+      schema: native,
+    });
+
+    let errors: string[];
+    try {
+      const result = schema.validate(JSON.parse(extractJson(responseText)));
+      if (result.errors.length === 0) {
+        return { value: result.value, rejected: [], attempts: attempt };
+      }
+      if (!best || result.errors.length <= best.errors.length) best = result;
+      errors = result.errors;
+    } catch (error) {
+      errors = [`response is not valid JSON (${error instanceof Error ? error.message : "parse error"})`];
+    }
+
+    lastError = errors.join("; ");
+    console.warn(`[ai-provider] ${schema.name} attempt ${attempt} failed validation: ${lastError}`);
+    attemptPrompt = buildRepairPrompt(prompt, responseText, errors);
+  }
+
+  if (best) return { value: best.value, rejected: best.errors, attempts: maxRepairs + 1 };
+  throw new Error(`No valid ${schema.name} response after ${maxRepairs + 1} attempts: ${lastError}`);
+}
@@ -0,0 +1,798 @@
+import type {
+  CouncilStatement,
+  ForeignMessage,
+  OrderOutcome,
+  OrderStatus,
+  ProposalKind,
+  RelationType,
+  ResourceKey,
+  TreatyType,
+} from "./types";
+import { RESOURCE_KEYS, isResourceKey, roundResourceDelta } from "./province-resources";
+import { NationRef, PLAYER_ID, findNation, toNationId } from "./nation-registry";
+import { MINISTER_IDS, isMinisterId } from "./council";
+import { TREATY_TYPES, isTreatyType } from "./treaties";
+import { ORDER_STATUSES } from "./orders";
+
+// Response schemas for the Game Master, diplomacy, advisor and council endpoints.
+// Each schema pairs a JSON Schema (sent to providers that support native
+// structured output) with a validator that coerces the parsed payload into a
+// typed value and lists everything it had to drop or default. Those errors
+// drive the repair loop in lib/ai-provider.ts and are reported to the player.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of JSON Schema understood by every provider we target. */
+export type JsonSchema = {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  nullable?: boolean;
+};
+
+export interface ValidationResult<T> {
+  value: T;
+  /** Human-readable reasons, e.g. `updates[2]: owner update is missing "provinceName"`. */
+  errors: string[];
+}
+
+export interface StructuredSchema<T> {
+  name: string;
+  description: string;
+  jsonSchema: JsonSchema;
+  validate: (raw: unknown) => ValidationResult<T>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const asRecord = (raw: unknown): Record<string, unknown> | null =>
+  raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/** Distinct non-empty strings of an array field; anything else reads as empty. */
+const stringList = (value: unknown): string[] =>
+  [...new Set((Array.isArray(value) ? value : []).map(nonEmptyString).filter((s): s is string => s !== null))];
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const toInt = (value: unknown): number | null => {
+  const n = toNumber(value);
+  return n === null ? null : Math.trunc(n);
+};
+
+/** Treaty fields shared by GM updates, diplomacy replies and conference treaties. */
+export interface TreatyTerms {
+  treatyType: TreatyType;
+  /** Months; null is open-ended, undefined uses the treaty type's default. */
+  durationMonths?: number | null;
+  terms: string;
+}
+
+const TREATY_TERMS_PROPERTIES: Record<string, JsonSchema> = {
+  treatyType: { type: "string", enum: TREATY_TYPES },
+  durationMonths: { type: "integer", nullable: true, description: "Length in months; null for no end date." },
+  terms: { type: "string" },
+};
+
+const readTreatyTerms = (raw: Record<string, unknown>): TreatyTerms | { error: string } => {
+  const treatyType = nonEmptyString(raw.treatyType)?.toLowerCase();
+  if (!treatyType) return { error: '"treatyType" is missing' };
+  if (!isTreatyType(treatyType)) {
+    return { error: `unknown treatyType "${treatyType}" (expected ${TREATY_TYPES.join(", ")})` };
+  }
+  const months = toInt(raw.durationMonths);
+  return {
+    treatyType,
+    durationMonths: raw.durationMonths === null ? null : months !== null && months > 0 ? months : undefined,
+    terms: nonEmptyString(raw.terms) ?? "",
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Game Master (/api/turn)
+// ---------------------------------------------------------------------------
+
+export type GameEventType = "diplomacy" | "war" | "discovery" | "flavor" | "economy" | "crisis";
+
+export type DiplomacyTone = "friendly" | "neutral" | "hostile" | "threatening";
+
+export type ParsedUpdate =
+  | { type: "owner"; provinceName: string; newOwnerId: string }
+  | { type: "time"; amount: number }
+  | { type: "event"; description: string; eventType: GameEventType; year: number }
+  | { type: "relation"; nationA: string; nationB: string; relationType: RelationType; reason: string }
+  | { type: "resource"; provinceName: string; resource: ResourceKey; delta: number; reason: string }
+  | { type: "nation"; nationId: string; leader?: string; capital?: string }
+  | ({ type: "treaty"; parties: string[]; name?: string } & TreatyTerms)
+  | ({ type: "message" } & ForeignMessage)
+  /** A spy network the player's espionage set up; months undefined uses the default. */
+  | { type: "intel"; nationId: string; durationMonths?: number }
+  /** A new nation, optionally founded on provinces it takes over. */
+  | { type: "found"; nationId: string; name: string; color?: string; capital?: string; provinceNames: string[] }
+  /** Provinces ceded to a nation for good; their map country changes along with the owner. */
+  | { type: "transfer"; provinceNames: string[]; nationId: string }
+  /** Provinces united into the first one listed. */
+  | { type: "merge"; provinceNames: string[]; name?: string }
+  | { type: "rename"; name: string; provinceName?: string; nationId?: string };
+
+export interface GameMasterResponse {
+  message: string;
+  updates: ParsedUpdate[];
+  storySoFar?: string;
+  /** Verdict per numbered order; absent when the command had no ORDERS list. */
+  orderOutcomes?: OrderOutcome[];
+}
+
+const EVENT_TYPES: GameEventType[] = ["diplomacy", "war", "discovery", "flavor", "economy", "crisis"];
+const TONES: DiplomacyTone[] = ["friendly", "neutral", "hostile", "threatening"];
+const RELATION_TYPES: RelationType[] = ["neutral", "friendly", "allied", "hostile", "war", "vassal"];
+const UPDATE_TYPES = [
+  "owner", "event", "relation", "resource", "nation", "treaty", "message", "intel", "time",
+  "found", "transfer", "merge", "rename",
+];
+const PROPOSAL_KINDS: ProposalKind[] = ["ultimatum", "trade", "alliance", "peace", "other"];
+
+const DEFAULT_GM_MESSAGE = "The world watches your move. Issue your next command.";
+
+const validateUpdate = (
+  raw: unknown,
+  fallbackYear: number,
+  nations: NationRef[]
+): { update: ParsedUpdate } | { error: string } => {
+  const u = asRecord(raw);
+  if (!u) return { error: "update is not an object" };
+
+  const missing = (field: string) => ({ error: `${u.type} update is missing "${field}"` });
+  const registered = nations.length > 0;
+  // Relations are keyed by display name; ids and names outside the registry pass through
+  const toNationName = (value: string) => findNation(nations, value)?.name ?? value;
+
+  switch (u.type) {
+    case "owner": {
+      const provinceName = nonEmptyString(u.provinceName);
+      const newOwnerId = nonEmptyString(u.newOwnerId);
+      if (!provinceName) return missing("provinceName");
+      if (!newOwnerId) return missing("newOwnerId");
+      if (!registered || newOwnerId === PLAYER_ID) return { update: { type: "owner", provinceName, newOwnerId } };
+      const owner = findNation(nations, newOwnerId);
+      if (!owner) {
+        return { error: `owner update has unknown newOwnerId "${newOwnerId}" (use "${PLAYER_ID}" or an id from NATIONS)` };
+      }
+      return { update: { type: "owner", provinceName, newOwnerId: owner.id } };
+    }
+    case "time": {
+      const amount = toInt(u.amount);
+      if (amount === null) return missing("amount");
+      return { update: { type: "time", amount } };
+    }
+    case "event": {
+      const description = nonEmptyString(u.description);
+      if (!description) return missing("description");
+      const eventType = EVENT_TYPES.includes(u.eventType as GameEventType)
+        ? (u.eventType as GameEventType)
+        : "flavor";
+      return { update: { type: "event", description, eventType, year: toInt(u.year) ?? fallbackYear } };
+    }
+    case "relation": {
+      const nationA = nonEmptyString(u.nationA);
+      const nationB = nonEmptyString(u.nationB);
+      const relationType = nonEmptyString(u.relationType)?.toLowerCase();
+      if (!nationA) return missing("nationA");
+      if (!nationB) return missing("nationB");
+      if (!relationType) return missing("relationType");
+      if (!RELATION_TYPES.includes(relationType as RelationType)) {
+        return { error: `relation update has unknown relationType "${relationType}" (expected ${RELATION_TYPES.join(", ")})` };
+      }
+      return {
+        update: {
+          type: "relation",
+          nationA: toNationName(nationA),
+          nationB: toNationName(nationB),
+          relationType: relationType as RelationType,
+          reason: nonEmptyString(u.reason) ?? "",
+        },
+      };
+    }
+    case "resource": {
+      const provinceName = nonEmptyString(u.provinceName);
+      const resource = nonEmptyString(u.resource)?.toLowerCase();
+      const raw = toNumber(u.delta);
+      if (!provinceName) return missing("provinceName");
+      if (!resource) return missing("resource");
+      if (!isResourceKey(resource)) {
+        return { error: `resource update has unknown resource "${resource}" (expected ${RESOURCE_KEYS.join(", ")})` };
+      }
+      if (raw === null) return missing("delta");
+      if (raw === 0) return { error: "resource update has a zero delta" };
+      // Defense and technology are whole levels: -0.5 would silently round away
+      const delta = roundResourceDelta(resource, raw);
+      if (delta === 0) return { error: `resource update delta ${raw} is too small for ${resource}` };
+      return { update: { type: "resource", provinceName, resource, delta, reason: nonEmptyString(u.reason) ?? "" } };
+    }
+    case "nation": {
+      const nationId = nonEmptyString(u.nationId);
+      if (!nationId) return missing("nationId");
+      const leader = nonEmptyString(u.leader) ?? undefined;
+      const capital = nonEmptyString(u.capital) ?? undefined;
+      if (!leader && !capital) return { error: 'nation update needs "leader" or "capital"' };
+      const nation = nationId === PLAYER_ID ? { id: PLAYER_ID } : findNation(nations, nationId);
+      if (registered && !nation) return { error: `nation update has unknown nationId "${nationId}"` };
+      return { update: { type: "nation", nationId: nation?.id ?? nationId, leader, capital } };
+    }
+    case "treaty": {
+      const parties = [
+        ...new Set(
+          (Array.isArray(u.parties) ? u.parties : [])
+            .map(nonEmptyString)
+            .filter((p): p is string => p !== null)
+            .map(toNationName)
+        ),
+      ];
+      if (parties.length < 2) return { error: 'treaty update needs at least two "parties"' };
+      if (registered) {
+        const unknown = parties.filter((p) => !findNation(nations, p));
+        if (unknown.length > 0) return { error: `treaty update has unknown parties: ${unknown.join(", ")}` };
+      }
+      const terms = readTreatyTerms(u);
+      if ("error" in terms) return { error: `treaty update: ${terms.error}` };
+      return { update: { type: "treaty", parties, name: nonEmptyString(u.name) ?? undefined, ...terms } };
+    }
+    case "message": {
+      const nationId = nonEmptyString(u.nationId);
+      const content = nonEmptyString(u.content);
+      if (!nationId) return missing("nationId");
+      if (!content) return missing("content");
+      const nation = findNation(nations, nationId);
+      if (nation?.id === PLAYER_ID) return { error: "message update must come from a foreign nation, not the player" };
+      if (registered && !nation) return { error: `message update has unknown nationId "${nationId}"` };
+      const summary = nonEmptyString(u.proposal);
+      const kind = nonEmptyString(u.proposalKind)?.toLowerCase();
+      if (summary && kind && !PROPOSAL_KINDS.includes(kind as ProposalKind)) {
+        return { error: `message update has unknown proposalKind "${kind}" (expected ${PROPOSAL_KINDS.join(", ")})` };
+      }
+      return {
+        update: {
+          type: "message",
+          nation: nation?.name ?? nationId,
+          content,
+          tone: TONES.includes(u.tone as DiplomacyTone) ? (u.tone as DiplomacyTone) : "neutral",
+          proposal: summary ? { kind: (kind as ProposalKind | undefined) ?? "other", summary } : undefined,
+        },
+      };
+    }
+    case "intel": {
+      const nationId = nonEmptyString(u.nationId);
+      if (!nationId) return missing("nationId");
+      const nation = findNation(nations, nationId);
+      if (nation?.id === PLAYER_ID) return { error: "intel update must target a foreign nation" };
+      if (registered && !nation) return { error: `intel update has unknown nationId "${nationId}"` };
+      const months = toInt(u.durationMonths);
+      return {
+        update: { type: "intel", nationId: nation?.id ?? nationId, durationMonths: months !== null && months > 0 ? months : undefined },
+      };
+    }
+    case "found": {
+      const name = nonEmptyString(u.name);
+      if (!name) return missing("name");
+      if (findNation(nations, name)) return { error: `found update names an existing nation "${name}" (use transfer instead)` };
+      const color = nonEmptyString(u.color);
+      return {
+        update: {
+          type: "found",
+          nationId: toNationId(name),
+          name,
+          color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : undefined,
+          capital: nonEmptyString(u.capital) ?? undefined,
+          provinceNames: stringList(u.provinceNames),
+        },
+      };
+    }
+    case "transfer": {
+      const provinceNames = stringList(u.provinceNames);
+      const nationId = nonEmptyString(u.nationId);
+      if (provinceNames.length === 0) return missing("provinceNames");
+      if (!nationId) return missing("nationId");
+      const nation = nationId === PLAYER_ID ? { id: PLAYER_ID } : findNation(nations, nationId);
+      if (registered && !nation) return { error: `transfer update has unknown nationId "${nationId}"` };
+      return { update: { type: "transfer", provinceNames, nationId: nation?.id ?? nationId } };
+    }
+    case "merge": {
+      const provinceNames = stringList(u.provinceNames);
+      if (provinceNames.length < 2) return { error: 'merge update needs at least two "provinceNames"' };
+      return { update: { type: "merge", provinceNames, name: nonEmptyString(u.name) ?? undefined } };
+    }
+    case "rename": {
+      const name = nonEmptyString(u.name);
+      const provinceName = nonEmptyString(u.provinceName) ?? undefined;
+      const nationId = nonEmptyString(u.nationId) ?? undefined;
+      if (!name) return missing("name");
+      if (!provinceName === !nationId) return { error: 'rename update needs exactly one of "provinceName" or "nationId"' };
+      if (provinceName) return { update: { type: "rename", name, provinceName } };
+      const nation = findNation(nations, nationId as string);
+      if (nationId === PLAYER_ID || nation?.id === PLAYER_ID) return { error: "rename update cannot rename the player's nation" };
+      if (registered && !nation) return { error: `rename update has unknown nationId "${nationId}"` };
+      return { update: { type: "rename", name, nationId: nation?.id ?? nationId } };
+    }
+    default:
+      return { error: `unknown update type ${JSON.stringify(u.type)} (expected ${UPDATE_TYPES.join(", ")})` };
+  }
+};
+
+/**
+ * The GM schema needs the current year to date events that omit one, and the
+ * nation registry to resolve owner ids. Without nations, ids are not checked.
+ */
+export const gameMasterSchema = (
+  fallbackYear: number,
+  nations: NationRef[] = []
+): StructuredSchema<GameMasterResponse> => ({
+  name: "game_master_turn",
+  description: "Narrative outcome of the player's orders plus the resulting world-state updates.",
+  jsonSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "1-3 sentence vivid narrative of the outcome." },
+      updates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: UPDATE_TYPES },
+            provinceName: { type: "string" },
+            newOwnerId: { type: "string" },
+            description: { type: "string" },
+            eventType: { type: "string", enum: EVENT_TYPES },
+            year: { type: "integer" },
+            nationA: { type: "string" },
+            nationB: { type: "string" },
+            relationType: { type: "string", enum: RELATION_TYPES },
+            reason: { type: "string" },
+            resource: { type: "string", enum: RESOURCE_KEYS },
+            delta: { type: "number" },
+            nationId: { type: "string" },
+            leader: { type: "string" },
+            capital: { type: "string" },
+            amount: { type: "integer" },
+            parties: { type: "array", items: { type: "string" } },
+            name: { type: "string" },
+            provinceNames: { type: "array", items: { type: "string" } },
+            color: { type: "string", description: "Hex color of a founded nation, e.g. #8b5cf6." },
+            ...TREATY_TERMS_PROPERTIES,
+            content: { type: "string" },
+            tone: { type: "string", enum: TONES },
+            proposalKind: { type: "string", enum: PROPOSAL_KINDS },
+            proposal: { type: "string" },
+          },
+          required: ["type"],
+        },
+      },
+      storySoFar: { type: "string", description: "Updated compressed narrative of the entire game." },
+      orderOutcomes: {
+        type: "array",
+        description: "One verdict per numbered order in the command.",
+        items: {
+          type: "object",
+          properties: {
+            order: { type: "integer" },
+            status: { type: "string", enum: ORDER_STATUSES },
+            summary: { type: "string" },
+          },
+          required: ["order", "status", "summary"],
+        },
+      },
+    },
+    required: ["message", "updates", "storySoFar"],
+  },
+  validate: (raw) => {
+    const errors: string[] = [];
+    const payload = asRecord(raw);
+    if (!payload) {
+      return { value: { message: DEFAULT_GM_MESSAGE, updates: [] }, errors: ["response is not a JSON object"] };
+    }
+
+    const message = nonEmptyString(payload.message);
+    if (!message) errors.push('"message" is missing or empty');
+
+    const updates: ParsedUpdate[] = [];
+    if (payload.updates !== undefined && !Array.isArray(payload.updates)) {
+      errors.push('"updates" must be an array');
+    } else if (Array.isArray(payload.updates)) {
+      // Nations founded in this response can be named by the updates after them
+      const known = [...nations];
+      payload.updates.forEach((rawUpdate, i) => {
+        const result = validateUpdate(rawUpdate, fallbackYear, known);
+        if (!("update" in result)) {
+          errors.push(`updates[${i}]: ${result.error}`);
+          return;
+        }
+        updates.push(result.update);
+        if (result.update.type === "found" && known.length > 0) known.push({ id: result.update.nationId, name: result.update.name });
+      });
+    }
+
+    const orderOutcomes: OrderOutcome[] = [];
+    if (payload.orderOutcomes !== undefined && !Array.isArray(payload.orderOutcomes)) {
+      errors.push('"orderOutcomes" must be an array');
+    } else if (Array.isArray(payload.orderOutcomes)) {
+      payload.orderOutcomes.forEach((rawOutcome, i) => {
+        const o = asRecord(rawOutcome);
+        const order = toInt(o?.order);
+        const status = nonEmptyString(o?.status)?.toLowerCase();
+        if (!o || order === null || order < 1) {
+          errors.push(`orderOutcomes[${i}]: "order" must be the order's number`);
+        } else if (!status || !ORDER_STATUSES.includes(status as OrderStatus)) {
+          errors.push(`orderOutcomes[${i}]: "status" must be one of ${ORDER_STATUSES.join(", ")}`);
+        } else {
+          orderOutcomes.push({ order, status: status as OrderStatus, summary: nonEmptyString(o.summary) ?? "" });
+        }
+      });
+    }
+
+    return {
+      value: {
+        message: message ?? DEFAULT_GM_MESSAGE,
+        updates,
+        storySoFar: nonEmptyString(payload.storySoFar) ?? undefined,
+        ...(orderOutcomes.length > 0 ? { orderOutcomes } : {}),
+      },
+      errors,
+    };
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Diplomacy (/api/chat)
+// ---------------------------------------------------------------------------
+
+export interface DiplomacyResponse {
+  message: string;
+  tone: DiplomacyTone;
+  /** `treaty` is set when the change comes with a signed agreement. */
+  relationChange: { newType: string; reason: string; treaty?: TreatyTerms } | null;
+}
+
+const readTone = (value: unknown, errors: string[], path = ""): DiplomacyTone => {
+  if (TONES.includes(value as DiplomacyTone)) return value as DiplomacyTone;
+  errors.push(`${path}"tone" must be one of ${TONES.join(", ")}`);
+  return "neutral";
+};
+
+const readRelationChange = (value: unknown, errors: string[], path = ""): DiplomacyResponse["relationChange"] => {
+  if (value == null) return null;
+  const rc = asRecord(value);
+  const newType = nonEmptyString(rc?.newType);
+  const reason = nonEmptyString(rc?.reason);
+  if (!newType || !reason) {
+    errors.push(`${path}"relationChange" needs both "newType" and "reason", or null`);
+    return null;
+  }
+  const treaty = rc?.treaty == null ? null : readTreatyTerms(asRecord(rc.treaty) ?? {});
+  if (treaty && "error" in treaty) {
+    errors.push(`${path}relationChange.treaty: ${treaty.error}`);
+    return { newType, reason };
+  }
+  return treaty ? { newType, reason, treaty } : { newType, reason };
+};
+
+const RELATION_CHANGE_SCHEMA: JsonSchema = {
+  type: "object",
+  nullable: true,
+  properties: {
+    newType: { type: "string", enum: RELATION_TYPES },
+    reason: { type: "string" },
+    treaty: { type: "object", nullable: true, properties: TREATY_TERMS_PROPERTIES, required: ["treatyType", "terms"] },
+  },
+  required: ["newType", "reason"],
+};
+
+export const diplomacySchema: StructuredSchema<DiplomacyResponse> = {
+  name: "diplomatic_reply",
+  description: "In-character reply from a foreign leader, with an optional change in relations.",
+  jsonSchema: {
+    type: "object",
+    properties: {
+      message: { type: "string", description: "1-2 sentences of in-character diplomatic dialogue." },
+      tone: { type: "string", enum: TONES },
+      relationChange: RELATION_CHANGE_SCHEMA,
+    },
+    required: ["message", "tone"],
+  },
+  validate: (raw) => {
+    const errors: string[] = [];
+    const payload = asRecord(raw) ?? {};
+    if (!asRecord(raw)) errors.push("response is not a JSON object");
+
+    const message = nonEmptyString(payload.message);
+    if (!message) errors.push('"message" is missing or empty');
+
+    const tone = readTone(payload.tone, errors);
+    const relationChange = readRelationChange(payload.relationChange, errors);
+
+    return {
+      value: {
+        message: message ?? "... *The envoy delivers an unintelligible response.*",
+        tone,
+        relationChange,
+      },
+      errors,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Conference (/api/chat with several AI participants)
+// ---------------------------------------------------------------------------
+
+export interface ConferenceReply extends DiplomacyResponse {
+  /** Participant speaking; always one of the conference's nation names. */
+  nation: string;
+  /** What this nation is really after at the table, in a short phrase. */
+  agenda: string;
+}
+
+export interface ConferenceTreaty extends TreatyTerms {
+  name: string;
+  /** Display names, including the player's nation if it signs. */
+  signatories: string[];
+  /** Relation every pair of signatories moves to; null uses the one the treaty type implies, if any. */
+  relationType: RelationType | null;
+}
+
+export interface ConferenceResponse {
+  replies: ConferenceReply[];
+  treaty: ConferenceTreaty | null;
+}
+
+/**
+ * Schema for a multi-party conference. `participants` are the AI nations at
+ * the table; replies and treaty signatories are matched to them (or to
+ * `playerNation`) case-insensitively and rewritten to the canonical name.
+ */
+export function conferenceSchema(participants: string[], playerNation: string): StructuredSchema<ConferenceResponse> {
+  const canonical = (name: unknown, allowPlayer: boolean): string | null => {
+    const needle = nonEmptyString(name)?.toLowerCase();
+    if (!needle) return null;
+    const pool = allowPlayer ? [...participants, playerNation] : participants;
+    return pool.find((p) => p.toLowerCase() === needle) ?? null;
+  };
+
+  return {
+    name: "conference_round",
+    description: "One round of a multi-party diplomatic conference, optionally ending in a treaty.",
+    jsonSchema: {
+      type: "object",
+      properties: {
+        replies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              nation: { type: "string", enum: participants },
+              message: { type: "string" },
+              tone: { type: "string", enum: TONES },
+              agenda: { type: "string" },
+              relationChange: RELATION_CHANGE_SCHEMA,
+            },
+            required: ["nation", "message", "tone", "agenda"],
+          },
+        },
+        treaty: {
+          type: "object",
+          nullable: true,
+          properties: {
+            name: { type: "string" },
+            ...TREATY_TERMS_PROPERTIES,
+            signatories: { type: "array", items: { type: "string" } },
+            relationType: { type: "string", enum: RELATION_TYPES, nullable: true },
+          },
+          required: ["name", "treatyType", "terms", "signatories"],
+        },
+      },
+      required: ["replies"],
+    },
+    validate: (raw) => {
+      const errors: string[] = [];
+      const payload = asRecord(raw) ?? {};
+      if (!asRecord(raw)) errors.push("response is not a JSON object");
+
+      const replies: ConferenceReply[] = [];
+      (Array.isArray(payload.replies) ? payload.replies : []).forEach((entry, i) => {
+        const reply = asRecord(entry);
+        const path = `replies[${i}]: `;
+        const nation = canonical(reply?.nation, false);
+        const message = nonEmptyString(reply?.message);
+        if (!reply || !nation) {
+          errors.push(`${path}"nation" must be one of ${participants.join(", ")}`);
+          return;
+        }
+        if (!message) {
+          errors.push(`${path}"message" is missing or empty`);
+          return;
+        }
+        replies.push({
+          nation,
+          message,
+          tone: readTone(reply.tone, errors, path),
+          agenda: nonEmptyString(reply.agenda) ?? "",
+          relationChange: readRelationChange(reply.relationChange, errors, path),
+        });
+      });
+      const silent = participants.filter((p) => !replies.some((r) => r.nation === p));
+      if (silent.length > 0) errors.push(`every participant must reply; missing: ${silent.join(", ")}`);
+
+      let treaty: ConferenceTreaty | null = null;
+      if (payload.treaty != null) {
+        const t = asRecord(payload.treaty);
+        const name = nonEmptyString(t?.name);
+        const signatories = [
+          ...new Set((Array.isArray(t?.signatories) ? t.signatories : []).map((s) => canonical(s, true))),
+        ].filter((s): s is string => s !== null);
+        const relationType = t?.relationType == null ? null : (t.relationType as RelationType);
+        const terms = readTreatyTerms(t ?? {});
+        if (!name) errors.push('treaty: "name" is missing or empty');
+        else if (signatories.length < 2) errors.push("treaty: needs at least two signatories from the conference");
+        else if (relationType !== null && !RELATION_TYPES.includes(relationType)) {
+          errors.push(`treaty: unknown relationType "${relationType}" (expected ${RELATION_TYPES.join(", ")} or null)`);
+        } else if ("error" in terms) errors.push(`treaty: ${terms.error}`);
+        else treaty = { name, ...terms, signatories, relationType };
+      }
+
+      return { value: { replies, treaty }, errors };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Advisor (/api/advisor)
+// ---------------------------------------------------------------------------
+
+export type AdvisorCategory = "military" | "diplomacy" | "economy" | "domestic" | "general";
+
+export interface AdvisorResponse {
+  advice: string;
+  category: AdvisorCategory;
+  suggestedActions: string[];
+}
+
+const CATEGORIES: AdvisorCategory[] = ["military", "diplomacy", "economy", "domestic", "general"];
+
+const readCategory = (payload: Record<string, unknown>, errors: string[]): AdvisorCategory => {
+  if (CATEGORIES.includes(payload.category as AdvisorCategory)) return payload.category as AdvisorCategory;
+  errors.push(`"category" must be one of ${CATEGORIES.join(", ")}`);
+  return "general";
+};
+
+const readSuggestedActions = (payload: Record<string, unknown>, errors: string[]): string[] => {
+  let suggestedActions: string[] = [];
+  if (Array.isArray(payload.suggestedActions)) {
+    suggestedActions = payload.suggestedActions
+      .map(nonEmptyString)
+      .filter((a): a is string => a !== null)
+      .slice(0, 5);
+  }
+  // Ensure at least one suggestion
+  if (suggestedActions.length === 0) {
+    errors.push('"suggestedActions" must contain at least one action');
+    suggestedActions = ["Review the current diplomatic situation"];
+  }
+  return suggestedActions;
+};
+
+export const advisorSchema: StructuredSchema<AdvisorResponse> = {
+  name: "advisor_counsel",
+  description: "Strategic advice for the player with concrete follow-up actions.",
+  jsonSchema: {
+    type: "object",
+    properties: {
+      advice: { type: "string" },
+      category: { type: "string", enum: CATEGORIES },
+      suggestedActions: { type: "array", items: { type: "string" } },
+    },
+    required: ["advice", "category", "suggestedActions"],
+  },
+  validate: (raw) => {
+    const errors: string[] = [];
+    const payload = asRecord(raw) ?? {};
+    if (!asRecord(raw)) errors.push("response is not a JSON object");
+
+    const advice = nonEmptyString(payload.advice);
+    if (!advice) errors.push('"advice" is missing or empty');
+
+    const category = readCategory(payload, errors);
+    const suggestedActions = readSuggestedActions(payload, errors);
+
+    return {
+      value: {
+        advice:
+          advice ??
+          "My liege, I must confess that the situation confounds even my years of experience. Allow me a moment to gather my thoughts and consult the archives.",
+        category,
+        suggestedActions,
+      },
+      errors,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Council (/api/advisor with addressee "council")
+// ---------------------------------------------------------------------------
+
+export interface CouncilResponse {
+  debate: CouncilStatement[];
+  consensus: string;
+  category: AdvisorCategory;
+  suggestedActions: string[];
+}
+
+export const councilSchema: StructuredSchema<CouncilResponse> = {
+  name: "council_debate",
+  description: "A debate between the ruler's ministers ending in a recommended consensus.",
+  jsonSchema: {
+    type: "object",
+    properties: {
+      debate: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            minister: { type: "string", enum: MINISTER_IDS },
+            position: { type: "string" },
+          },
+          required: ["minister", "position"],
+        },
+      },
+      consensus: { type: "string" },
+      category: { type: "string", enum: CATEGORIES },
+      suggestedActions: { type: "array", items: { type: "string" } },
+    },
+    required: ["debate", "consensus", "category", "suggestedActions"],
+  },
+  validate: (raw) => {
+    const errors: string[] = [];
+    const payload = asRecord(raw) ?? {};
+    if (!asRecord(raw)) errors.push("response is not a JSON object");
+
+    const debate: CouncilStatement[] = [];
+    (Array.isArray(payload.debate) ? payload.debate : []).forEach((entry, i) => {
+      const statement = asRecord(entry);
+      const position = nonEmptyString(statement?.position);
+      if (!statement || !isMinisterId(statement.minister)) {
+        errors.push(`debate[${i}]: "minister" must be one of ${MINISTER_IDS.join(", ")}`);
+      } else if (!position) {
+        errors.push(`debate[${i}]: "position" is missing or empty`);
+      } else {
+        debate.push({ minister: statement.minister, position });
+      }
+    });
+    if (new Set(debate.map((d) => d.minister)).size < 2) {
+      errors.push('"debate" must include at least two different ministers');
+    }
+
+    const consensus = nonEmptyString(payload.consensus);
+    if (!consensus) errors.push('"consensus" is missing or empty');
+
+    return {
+      value: {
+        debate,
+        consensus: consensus ?? "The council could not agree on a course of action, my liege.",
+        category: readCategory(payload, errors),
+        suggestedActions: readSuggestedActions(payload, errors),
+      },
+      errors,
+    };
+  },
+};
@@ -0,0 +1,153 @@
+import type { AdvisorMessage, DiplomaticRelation, GameState, RelationType } from "./types";
+import { PLAYER_ID, findNation } from "./nation-registry";
+import { formatGameDate, getGameDate } from "./calendar";
+
+// Turn briefings are written locally from the state before and after a turn,
+// so they cost no model call and never contradict what the map shows. A
+// briefing is only posted when the turn changed something or a new threat
+// appeared on the player's borders.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The world either side of a resolved turn; supplied by useTurnProcessing. */
+export type TurnOutcome = {
+  before: GameState;
+  after: GameState;
+  relationsBefore: DiplomaticRelation[];
+  relationsAfter: DiplomaticRelation[];
+};
+
+export type Briefing = Pick<AdvisorMessage, "content" | "category" | "suggestedActions">;
+
+type Threat = { nationId: string; name: string; relation: RelationType; borderProvinces: number };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HOSTILE: RelationType[] = ["war", "hostile"];
+const MAX_LISTED = 4;
+const MAX_ACTIONS = 3;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const listNames = (names: string[]) =>
+  names.length > MAX_LISTED
+    ? `${names.slice(0, MAX_LISTED).join(", ")} and ${names.length - MAX_LISTED} more`
+    : names.join(", ");
+
+const pairKey = (r: DiplomaticRelation) => [r.nationA, r.nationB].sort().join("\u0000");
+
+/** The other side of a relation involving the player, or null if the player is not a party. */
+const counterpart = (r: DiplomaticRelation, playerName: string) =>
+  r.nationA === playerName ? r.nationB : r.nationB === playerName ? r.nationA : null;
+
+/** Hostile nations owning a province next to one of the player's. */
+function findThreats(state: GameState, relations: DiplomaticRelation[]): Threat[] {
+  const playerName = state.players[PLAYER_ID]?.name ?? "";
+  const byId = new Map(state.provinces.map((p) => [String(p.id), p]));
+  const nations = Object.values(state.players);
+
+  const hostile = new Map<string, RelationType>();
+  for (const r of relations) {
+    const other = counterpart(r, playerName);
+    const nation = other ? findNation(nations, other) : undefined;
+    if (nation && HOSTILE.includes(r.type)) hostile.set(nation.id, r.type);
+  }
+  if (hostile.size === 0) return [];
+
+  const borders = new Map<string, Set<string>>();
+  for (const p of state.provinces) {
+    if (p.ownerId !== PLAYER_ID) continue;
+    for (const neighborId of p.neighbors) {
+      const owner = byId.get(String(neighborId))?.ownerId;
+      if (!owner || !hostile.has(owner)) continue;
+      if (!borders.has(owner)) borders.set(owner, new Set());
+      borders.get(owner)!.add(String(p.id));
+    }
+  }
+
+  return [...borders.entries()]
+    .map(([nationId, provinces]) => ({
+      nationId,
+      name: state.players[nationId]?.name ?? nationId,
+      relation: hostile.get(nationId)!,
+      borderProvinces: provinces.size,
+    }))
+    .sort((a, b) => b.borderProvinces - a.borderProvinces);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Summarise a turn for the advisor panel; null when there is nothing worth reporting. */
+export function buildTurnBriefing({ before, after, relationsBefore, relationsAfter }: TurnOutcome): Briefing | null {
+  const playerName = after.players[PLAYER_ID]?.name ?? "";
+  const previousOwner = new Map(before.provinces.map((p) => [String(p.id), p.ownerId]));
+  const sections: string[] = [];
+  const actions: string[] = [];
+  let category: Briefing["category"] = "general";
+
+  // Territory
+  const gained: string[] = [];
+  const lost = new Map<string, string[]>();
+  for (const p of after.provinces) {
+    const was = previousOwner.get(String(p.id));
+    if (was === p.ownerId) continue;
+    if (p.ownerId === PLAYER_ID) gained.push(p.name);
+    else if (was === PLAYER_ID) {
+      const taker = p.ownerId ? after.players[p.ownerId]?.name ?? p.ownerId : "no one";
+      lost.set(taker, [...(lost.get(taker) ?? []), p.name]);
+    }
+  }
+  if (gained.length > 0) sections.push(`Territory gained: ${listNames(gained)}.`);
+  lost.forEach((names, taker) => {
+    sections.push(`Territory lost to ${taker}: ${listNames(names)}.`);
+    actions.push(`Retake ${names[0]} from ${taker}`);
+    category = "military";
+  });
+
+  // Wars and relation shifts
+  const previousType = new Map(relationsBefore.map((r) => [pairKey(r), r.type]));
+  for (const r of relationsAfter) {
+    const was = previousType.get(pairKey(r));
+    if (was === r.type) continue;
+    const other = counterpart(r, playerName);
+    if (r.type === "war") {
+      sections.push(other ? `We are now at war with ${other}.` : `War has broken out between ${r.nationA} and ${r.nationB}.`);
+      if (other) category = "military";
+    } else if (other) {
+      sections.push(`Relations with ${other} are now ${r.type}${was ? ` (were ${was})` : ""}.`);
+      if (category === "general") category = "diplomacy";
+    } else {
+      sections.push(`${r.nationA} and ${r.nationB} are now ${r.type}.`);
+    }
+  }
+
+  // Threats on our borders
+  const threatsBefore = new Set(findThreats(before, relationsBefore).map((t) => t.nationId));
+  const threats = findThreats(after, relationsAfter);
+  const newThreats = threats.filter((t) => !threatsBefore.has(t.nationId));
+  if (sections.length === 0 && newThreats.length === 0) return null;
+
+  if (threats.length > 0) {
+    const lines = threats.map((t) => {
+      const flag = threatsBefore.has(t.nationId) ? "" : " (new)";
+      return `  - ${t.name} (${t.relation}) borders ${t.borderProvinces} of our provinces${flag}`;
+    });
+    sections.push(`Threats on our borders:\n${lines.join("\n")}`);
+    newThreats.forEach((t) => actions.push(`Fortify the border with ${t.name}`));
+    if (newThreats.length > 0) category = "military";
+  }
+
+  return {
+    content: `Briefing for ${formatGameDate(getGameDate(after))}:\n${sections.join("\n")}`,
+    category,
+    suggestedActions: actions.length > 0 ? actions.slice(0, MAX_ACTIONS) : undefined,
+  };
+}
@@ -0,0 +1,148 @@
+import type { GameDate } from "./types";
+
+// In-game calendar. `GameState.turn` stays the current year (most of the UI
+// and every prompt key off it); `GameState.date` adds month and day. Dates use
+// the proleptic Gregorian calendar; negative years are BC, as in the presets,
+// and 1 BC is followed by 1 AD with no year 0 between them.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A span of game time; units are applied largest first. */
+export type CalendarStep = { years: number; months: number; days: number };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** The preset options in the HUD time-step select. */
+const PRESET_STEPS: Record<string, CalendarStep> = {
+  "5d": { years: 0, months: 0, days: 5 },
+  "1m": { years: 0, months: 1, days: 0 },
+  "6m": { years: 0, months: 6, days: 0 },
+  "1y": { years: 1, months: 0, days: 0 },
+};
+
+const UNIT_PATTERN = /^(\d+(?:\.\d+)?)\s*(d|days?|w|wks?|weeks?|m|mos?|months?|y|yrs?|years?|decades?|centur(?:y|ies))$/;
+
+const WORD_NUMBERS: Record<string, string> = {
+  a: "1", an: "1", one: "1", two: "2", three: "3", four: "4", five: "5",
+  six: "6", seven: "7", eight: "8", nine: "9", ten: "10", twelve: "12",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Year numbering with a year 0 (1 BC is 0, 2 BC is -1), which arithmetic needs; and back. */
+const toAstronomical = (year: number) => (year < 0 ? year + 1 : year);
+const fromAstronomical = (year: number) => (year <= 0 ? year - 1 : year);
+
+/** `amount` of `unit` in whole units, largest first; fractions round to the next unit down. */
+function stepOf(amount: number, unit: string): CalendarStep {
+  if (unit.startsWith("d") && !unit.startsWith("dec")) return { years: 0, months: 0, days: Math.round(amount) };
+  if (unit.startsWith("w")) return { years: 0, months: 0, days: Math.round(amount * 7) };
+  if (unit.startsWith("m")) {
+    const months = Math.floor(amount);
+    return { years: 0, months, days: Math.round((amount - months) * 30) };
+  }
+  const years = unit.startsWith("dec") ? amount * 10 : unit.startsWith("cent") ? amount * 100 : amount;
+  const wholeYears = Math.floor(years);
+  return { years: wholeYears, months: Math.round((years - wholeYears) * 12), days: 0 };
+}
+
+const isLeapYear = (year: number) => {
+  const y = toAstronomical(year);
+  return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+};
+
+const daysInMonth = (year: number, month: number) =>
+  month === 2 && isLeapYear(year) ? 29 : DAYS_IN_MONTH[month - 1];
+
+const addMonths = (date: GameDate, months: number): GameDate => {
+  const index = toAstronomical(date.year) * 12 + (date.month - 1) + months;
+  const astronomical = Math.floor(index / 12);
+  const year = fromAstronomical(astronomical);
+  const month = index - astronomical * 12 + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+};
+
+const addDays = (date: GameDate, days: number): GameDate => {
+  let { year, month, day } = date;
+  day += days;
+  while (day > daysInMonth(year, month)) {
+    day -= daysInMonth(year, month);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year = year === -1 ? 1 : year + 1;
+    }
+  }
+  return { year, month, day };
+};
+
+const formatYear = (year: number) => (year < 0 ? `${Math.abs(year)} BC` : year <= 100 ? `${year} AD` : String(year));
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** New games start on 1 January of the scenario year. */
+export const startOfYear = (year: number): GameDate => ({ year, month: 1, day: 1 });
+
+/** Current date of a game; saves from before the calendar only carry the year. */
+export const getGameDate = (state: { turn: number; date?: GameDate }): GameDate =>
+  state.date && state.date.year === state.turn ? state.date : startOfYear(state.turn);
+
+/** Negative when `a` is earlier than `b`, zero on the same day. */
+export const compareDates = (a: GameDate, b: GameDate): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day;
+
+/** Months from `a` to `b`, counting a partial month by its days. */
+export const monthsBetween = (a: GameDate, b: GameDate): number =>
+  (toAstronomical(b.year) - toAstronomical(a.year)) * 12 + (b.month - a.month) + (b.day - a.day) / 30;
+
+export function advanceDate(date: GameDate, step: CalendarStep): GameDate {
+  const afterMonths = addMonths(date, step.years * 12 + step.months);
+  return step.days > 0 ? addDays(afterMonths, step.days) : afterMonths;
+}
+
+/**
+ * Parse a HUD time step: one of the presets ("5d", "1m", "6m", "1y") or free
+ * text such as "2 years", "3 weeks", "a decade" or "1.5 years". Returns null
+ * when the text cannot be understood or comes to less than a day.
+ */
+export function parseTimeStep(raw: string): CalendarStep | null {
+  const text = raw.trim().toLowerCase();
+  if (PRESET_STEPS[text]) return PRESET_STEPS[text];
+
+  const normalized = text.replace(/^(a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve)\b/, (w) => WORD_NUMBERS[w]);
+  // A bare unit ("month", "decade") means one of it
+  const match = (/^\d/.test(normalized) ? normalized : `1 ${normalized}`).match(UNIT_PATTERN);
+  if (!match) return null;
+
+  const amount = Number(match[1]);
+  const unit = match[2];
+  if (!(amount > 0)) return null;
+
+  const step = stepOf(amount, unit);
+  return step.years > 0 || step.months > 0 || step.days > 0 ? step : null;
+}
+
+/** "14 July 1789", "15 March 44 BC". */
+export function formatGameDate(date: GameDate): string {
+  return `${date.day} ${MONTH_NAMES[date.month - 1]} ${formatYear(date.year)}`;
+}
+
+/** Compact form for HUD chips and timeline markers: "Jul 1789". */
+export function formatGameMonth(date: GameDate): string {
+  return `${MONTH_NAMES[date.month - 1].slice(0, 3)} ${formatYear(date.year)}`;
+}
@@ -1,16 +1,21 @@
+import { readSseStream } from "./sse";
+
 const BRIDGE_URL = process.env.CLI_BRIDGE_URL || "http://localhost:3456";
 
 /**
  * Call the local cli-bridge SSE server and collect the full response.
  * The bridge spawns CLI tools (claude, codex, gemini) locally — no API key needed.
+ * Pass onText to observe chunks as they arrive, and signal to abort the request.
  */
 export async function callCliBridge(opts: {
   provider?: string;
   model?: string;
   prompt: string;
   systemPrompt?: string;
+  onText?: (chunk: string) => void;
+  signal?: AbortSignal;
 }): Promise<string> {
-  const { provider = "claude", model, prompt, systemPrompt } = opts;
+  const { provider = "claude", model, prompt, systemPrompt, onText, signal } = opts;
 
   const res = await fetch(`${BRIDGE_URL}/api/chat`, {
     method: "POST",
@@ -21,6 +26,7 @@ export async function callCliBridge(opts: {
       messages: [{ role: "user", content: prompt }],
       systemPrompt: systemPrompt || undefined,
     }),
+    signal,
   });
 
   if (!res.ok) {
@@ -29,35 +35,12 @@ export async function callCliBridge(opts: {
   }
 
   // Read SSE stream and collect text chunks
-  const reader = res.body?.getReader();
-  if (!reader) throw new Error("cli-bridge returned no readable stream");
-
-  const decoder = new TextDecoder();
   let collected = "";
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
-
-    for (const line of lines) {
-      if (!line.startsWith("data: ")) continue;
-      const payload = line.slice(6).trim();
-      if (payload === "[DONE]") continue;
-      try {
-        const parsed = JSON.parse(payload);
-        if (parsed.text) collected += parsed.text;
-        if (parsed.error) throw new Error(parsed.error);
-      } catch (e) {
-        if (e instanceof SyntaxError) continue;
-        throw e;
-      }
-    }
-  }
+  await readSseStream(res.body, (event) => {
+    if (typeof event.text !== "string") return;
+    collected += event.text;
+    onText?.(event.text);
+  });
 
   return collected.trim();
 }
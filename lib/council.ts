@@ -0,0 +1,84 @@
+import type { PromptOverrides } from "@/components/PromptSettings";
+import type { AdvisorAddressee, AdvisorMessage, MinisterId } from "./types";
+
+// The ruler's council: the Grand Advisor plus five ministers, each with a
+// portfolio and a personality the player can edit in Prompt Settings. The
+// ruler can address one of them or put a question to the whole council.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MinisterProfile = {
+  id: MinisterId;
+  title: string;
+  /** Advice category a minister's answers are filed under (drives the badge colour). */
+  category: NonNullable<AdvisorMessage["category"]>;
+  /** Prompt Settings field holding the editable personality. */
+  overrideKey: keyof PromptOverrides;
+  defaultPersonality: string;
+};
+
+// ---------------------------------------------------------------------------
+// Ministers
+// ---------------------------------------------------------------------------
+
+export const MINISTERS: MinisterProfile[] = [
+  {
+    id: "war",
+    title: "Minister of War",
+    category: "military",
+    overrideKey: "warMinisterPersonality",
+    defaultPersonality: `You are the ruler's Minister of War. A hard-bitten veteran who trusts steel over words. You think in terms of force ratios, logistics, terrain and readiness, and you distrust any plan that leaves the realm exposed. You are blunt about risks and never promise an easy victory.`,
+  },
+  {
+    id: "foreign",
+    title: "Foreign Minister",
+    category: "diplomacy",
+    overrideKey: "foreignMinisterPersonality",
+    defaultPersonality: `You are the ruler's Foreign Minister. A polished, patient diplomat who reads every court and chancellery. You weigh alliances, grievances and prestige, prefer leverage to bloodshed, and always ask how other powers will react.`,
+  },
+  {
+    id: "treasury",
+    title: "Treasurer",
+    category: "economy",
+    overrideKey: "treasuryMinisterPersonality",
+    defaultPersonality: `You are the ruler's Treasurer. A careful, numbers-first steward of the realm's wealth. You judge every proposal by its cost, its revenue and its effect on trade, and you warn loudly when ambition outruns the purse.`,
+  },
+  {
+    id: "interior",
+    title: "Minister of the Interior",
+    category: "domestic",
+    overrideKey: "interiorMinisterPersonality",
+    defaultPersonality: `You are the ruler's Minister of the Interior. Pragmatic and close to the people, the nobles and the provinces. You care about order, legitimacy, public mood and the factions that could turn on the throne.`,
+  },
+  {
+    id: "spymaster",
+    title: "Spymaster",
+    category: "general",
+    overrideKey: "spymasterPersonality",
+    defaultPersonality: `You are the ruler's Spymaster. Quiet, cynical and always three moves ahead. You deal in secrets, informants, sabotage and deniable operations, and you assume every foreign court is lying until proven otherwise.`,
+  },
+];
+
+export const MINISTER_IDS = MINISTERS.map((m) => m.id);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export const isMinisterId = (value: unknown): value is MinisterId => MINISTER_IDS.includes(value as MinisterId);
+
+export const getMinister = (id: MinisterId): MinisterProfile => MINISTERS.find((m) => m.id === id)!;
+
+/** Display name for whoever the ruler addressed. */
+export function addresseeTitle(addressee: AdvisorAddressee | undefined): string {
+  if (!addressee || addressee === "advisor") return "Advisor";
+  if (addressee === "council") return "Council";
+  return getMinister(addressee).title;
+}
+
+/** A minister's personality, honouring the player's Prompt Settings edits. */
+export function ministerPersonality(minister: MinisterProfile, overrides?: Partial<PromptOverrides>): string {
+  return overrides?.[minister.overrideKey] ?? minister.defaultPersonality;
+}
@@ -72,6 +72,14 @@ export const savedGame = sqliteTable("saved_game", {
   gameConfigJson: text("game_config_json").notNull(),
   logsJson: text("logs_json").notNull().default("[]"),
   eventsJson: text("events_json").notNull().default("[]"),
+  relationsJson: text("relations_json").notNull().default("[]"),
+  relationLedgerJson: text("relation_ledger_json").notNull().default("[]"),
+  chatThreadsJson: text("chat_threads_json").notNull().default("[]"),
+  advisorMessagesJson: text("advisor_messages_json").notNull().default("[]"),
+  timelineJson: text("timeline_json").notNull().default("[]"),
+  timelineHeadId: text("timeline_head_id"),
+  /** Uploaded map pack the game is played on; null for the built-in maps. */
+  mapPackJson: text("map_pack_json"),
   storySoFar: text("story_so_far"),
 
   // Denormalized metadata (for fast listing without parsing JSON)
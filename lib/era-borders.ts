@@ -0,0 +1,109 @@
+import type { Province } from "./types";
+import { UNCLAIMED_COUNTRY_ID } from "./nation-registry";
+
+// An era overlay redraws the political map of the built-in provinces for one
+// year: each era nation lists the provinces it holds, and every province it
+// lists takes the nation as its country (id, name and color), so the setup
+// picker, the registry and the country-level map all see the period's states
+// instead of today's. Provinces no nation lists are left unclaimed. Overlays
+// live in public/eras/<year>.json and are built by scripts/build-era-overlay.mjs.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EraNation = {
+  /** Country id its provinces take, e.g. "eastern_roman_empire". */
+  id: string;
+  name: string;
+  color: string;
+  capital?: string;
+  /** Ruler in the overlay's year. */
+  leader?: string;
+  /** provinceIds of the built-in map. */
+  provinces: string[];
+};
+
+export type EraOverlay = {
+  year: number;
+  label: string;
+  /** Where the borders come from. */
+  source?: string;
+  nations: EraNation[];
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Years with an overlay in public/eras. */
+export const ERA_OVERLAY_YEARS = [476, 1492];
+
+/** A start this many years from an overlay's year still uses it. */
+const ERA_MATCH_YEARS = 10;
+
+const UNCLAIMED_NAME = "Unclaimed Lands";
+const UNCLAIMED_COLOR = "#6b7280";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const eraOverlayUrl = (year: number) => `/eras/${year}.json`;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** The overlay year closest to `year`, if one is near enough. */
+export function findEraOverlayYear(year: number): number | null {
+  let best: number | null = null;
+  for (const candidate of ERA_OVERLAY_YEARS) {
+    const distance = Math.abs(candidate - year);
+    if (distance <= ERA_MATCH_YEARS && (best === null || distance < Math.abs(best - year))) best = candidate;
+  }
+  return best;
+}
+
+/** Fetch the overlay for a start year; null when there is none or it fails to load. */
+export async function loadEraOverlay(year: number): Promise<EraOverlay | null> {
+  const overlayYear = findEraOverlayYear(year);
+  if (overlayYear === null) return null;
+  try {
+    const res = await fetch(eraOverlayUrl(overlayYear));
+    if (!res.ok) return null;
+    return (await res.json()) as EraOverlay;
+  } catch (err) {
+    console.error(`Failed to load era overlay for ${overlayYear}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Redraw provinces onto an era's nations. Every province is rewritten, so an
+ * overlay can be laid over provinces that already carry another one.
+ */
+export function applyEraOverlay(provinces: Province[], overlay: EraOverlay): Province[] {
+  const nationOf = new Map<string, EraNation>();
+  for (const nation of overlay.nations) {
+    for (const id of nation.provinces) nationOf.set(id, nation);
+  }
+  return provinces.map((p) => {
+    const nation = nationOf.get(String(p.id));
+    return {
+      ...p,
+      parentCountryId: nation?.id ?? UNCLAIMED_COUNTRY_ID,
+      parentCountryName: nation?.name ?? UNCLAIMED_NAME,
+      color: nation?.color ?? UNCLAIMED_COLOR,
+      isSubNational: true,
+    };
+  });
+}
+
+/** Capitals of the era's nations, keyed by country id. */
+export const eraCapitals = (overlay: EraOverlay | null): Record<string, string> =>
+  Object.fromEntries((overlay?.nations ?? []).filter((n) => n.capital).map((n) => [n.id, n.capital as string]));
+
+/** Rulers of the era's nations, keyed by country id. */
+export const eraLeaders = (overlay: EraOverlay | null): Record<string, string> =>
+  Object.fromEntries((overlay?.nations ?? []).filter((n) => n.leader).map((n) => [n.id, n.leader as string]));
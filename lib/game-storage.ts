@@ -1,28 +1,73 @@
-import { GameEvent, GameState, MapTheme, Player, Province } from "./types";
+import {
+  AdvisorMessage,
+  ChatThread,
+  GameDate,
+  DiplomaticRelation,
+  GameEvent,
+  GameState,
+  IntelState,
+  MapTheme,
+  Player,
+  Province,
+  ProvinceEdits,
+  ProvinceResources,
+  RelationLedgerEntry,
+  ResourceChange,
+  TimelineSnapshot,
+  Treaty,
+} from "./types";
 import { GameConfig } from "@/components/GameSetup";
+import { ensureNationRegistry } from "./nation-registry";
+import { applyProvinceEdits, provinceEdits } from "./territory";
+import { pruneSnapshots } from "./timeline";
+import { getGameDate } from "./calendar";
+import { createTreaty } from "./treaties";
+import type { MapPack } from "./map-packs";
 
 export interface LogEntry {
   id: string;
-  type: "command" | "info" | "error" | "success" | "capture" | "war" | "diplomacy" | "economy" | "crisis" | "event-summary";
+  type: "command" | "info" | "warning" | "error" | "success" | "capture" | "war" | "diplomacy" | "economy" | "crisis" | "event-summary";
   text: string;
+  /** True while the entry is still receiving streamed text. */
+  streaming?: boolean;
 }
 
 type ProvinceOwnerSnapshot = {
   id: string | number;
   ownerId: string | null;
+  /** Only present for provinces whose resources the GM has changed, or that were merged. */
+  resources?: ProvinceResources;
+  lastResourceChange?: ResourceChange;
 };
 
 type GameStateSnapshot = {
   turn: number;
+  date?: GameDate;
   players: Record<string, Player>;
   selectedProvinceId: string | number | null;
   theme: MapTheme;
   provinceOwners: ProvinceOwnerSnapshot[];
+  /** Renames, transfers and merges, replayed on the map before owners are restored. */
+  provinceEdits?: ProvinceEdits;
+  /** Fog-of-war games only. */
+  intel?: IntelState;
 };
 
 type PersistedGameState = GameStateSnapshot | GameState;
 
-export interface SavedGame {
+/** State owned by hooks outside useGameState, stored alongside the snapshot since save format 4.0.0. */
+export interface SaveSubsystems {
+  relations: DiplomaticRelation[];
+  /** The whole ledger; absent from saves made before it existed, read as empty. */
+  relationLedger: RelationLedgerEntry[];
+  chatThreads: ChatThread[];
+  advisorMessages: AdvisorMessage[];
+  timelineSnapshots: TimelineSnapshot[];
+  /** Snapshot the game continues from; older saves fall back to the newest snapshot. */
+  timelineHeadId: string | null;
+}
+
+export interface SavedGame extends SaveSubsystems {
   id: string;
   timestamp: number;
   gameState: PersistedGameState;
@@ -30,11 +75,21 @@ export interface SavedGame {
   logs: LogEntry[];
   events: GameEvent[];
   storySoFar?: string;
+  /** The uploaded map pack the game is played on; built-in packs are only named in gameConfig.mapPackId. */
+  mapPack?: MapPack;
+  /** Where localStorage keeps that pack, shared by every local save made on it; the pack is attached on load. */
+  mapPackKey?: string;
   version: string;
 }
 
 const STORAGE_KEY = "open_historia_saves";
-const VERSION = "3.0.0";
+/** Uploaded map packs are stored once each under this prefix, not inside every save. */
+const MAP_PACK_KEY_PREFIX = "open_historia_map_pack:";
+const VERSION = "4.1.0";
+
+const MAX_SAVED_CHAT_MESSAGES = 100;
+const MAX_SAVED_ADVISOR_MESSAGES = 100;
+const MAX_SAVED_SNAPSHOTS = 50;
 
 const toProvinceKey = (id: string | number) => String(id);
 
@@ -49,8 +104,84 @@ const isLegacyGameState = (state: PersistedGameState): state is GameState => {
   return Array.isArray((state as GameState).provinces);
 };
 
+/** FNV-1a, so two uploaded packs that share a name never share a storage key. */
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** Autosaves pass the same pack object every time; hash it once. */
+const mapPackKeys = new WeakMap<MapPack, string>();
+
+const mapPackKeyOf = (pack: MapPack): string => {
+  let key = mapPackKeys.get(pack);
+  if (!key) {
+    key = `${pack.id}:${hashText(JSON.stringify(pack))}`;
+    mapPackKeys.set(pack, key);
+  }
+  return key;
+};
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
 const SAVE_MIGRATIONS: Record<string, (save: SavedGame) => SavedGame> = {
   "2.0.0": (save) => ({ ...save, version: "3.0.0" }),
+  // 4.0.0 adds subsystem state; legacy full-GameState saves may carry it inline
+  "3.0.0": (save) => {
+    const legacy = isLegacyGameState(save.gameState) ? save.gameState : null;
+    const pick = <T>(current: T[] | undefined, inline: T[] | undefined): T[] =>
+      current?.length ? current : inline ?? [];
+    return {
+      ...save,
+      relations: pick(save.relations, legacy?.relations),
+      chatThreads: pick(save.chatThreads, legacy?.chatThreads),
+      advisorMessages: pick(save.advisorMessages, legacy?.advisorHistory),
+      timelineSnapshots: pick(save.timelineSnapshots, legacy?.timeline),
+      version: "4.0.0",
+    };
+  },
+  // 4.1.0 replaces treaty names with structured treaties. Names carry no type
+  // or term, so they become open-ended non-aggression pacts from the save date.
+  "4.0.0": (save) => {
+    const startDate = getGameDate(save.gameState);
+    const snapshots = asArray<TimelineSnapshot>(save.timelineSnapshots);
+    const legacyTreaties = (r: DiplomaticRelation) => asArray<Treaty | string>(r.treaties);
+
+    // Conference treaties were written to every pair of signatories under one name
+    const parties = new Map<string, Set<string>>();
+    [save.relations, ...snapshots.map((s) => s.gameStateSlim?.relations)]
+      .flatMap((list) => asArray<DiplomaticRelation>(list))
+      .forEach((r) =>
+        legacyTreaties(r).forEach((t) => {
+          if (typeof t === "string") parties.set(t, new Set([...(parties.get(t) ?? []), r.nationA, r.nationB]));
+        })
+      );
+    const treaties = new Map(
+      [...parties].map(([name, signatories]) => [
+        name,
+        createTreaty({ type: "non_aggression", parties: [...signatories], startDate, name, durationMonths: null }),
+      ])
+    );
+    const upgrade = (relations: unknown): DiplomaticRelation[] =>
+      asArray<DiplomaticRelation>(relations).map((r) => ({
+        ...r,
+        treaties: legacyTreaties(r).map((t) => (typeof t === "string" ? treaties.get(t)! : t)),
+      }));
+
+    return {
+      ...save,
+      relations: upgrade(save.relations),
+      timelineSnapshots: snapshots.map((s) => ({
+        ...s,
+        gameStateSlim: { ...s.gameStateSlim, relations: upgrade(s.gameStateSlim?.relations) },
+      })),
+      version: "4.1.0",
+    };
+  },
 };
 
 function migrateSave(save: SavedGame): SavedGame {
@@ -64,16 +195,61 @@ function migrateSave(save: SavedGame): SavedGame {
   return current;
 }
 
-const toSnapshot = (gameState: GameState): GameStateSnapshot => ({
-  turn: gameState.turn,
-  players: gameState.players,
-  selectedProvinceId: gameState.selectedProvinceId,
-  theme: gameState.theme,
-  provinceOwners: gameState.provinces.map((province) => ({
-    id: province.id,
-    ownerId: province.ownerId,
-  })),
-});
+const readTimelineHead = (snapshots: TimelineSnapshot[], headId: unknown): string | null => {
+  if (typeof headId === "string" && snapshots.some((s) => s.id === headId)) return headId;
+  const newest = snapshots.reduce<TimelineSnapshot | null>((a, s) => (!a || s.timestamp > a.timestamp ? s : a), null);
+  return newest?.id ?? null;
+};
+
+/** Read subsystem arrays from any stored shape, defaulting missing ones to empty. */
+const readSubsystems = (raw: Partial<SaveSubsystems> | undefined): SaveSubsystems => {
+  const timelineSnapshots = asArray<TimelineSnapshot>(raw?.timelineSnapshots);
+  return {
+    relations: asArray<DiplomaticRelation>(raw?.relations),
+    relationLedger: asArray<RelationLedgerEntry>(raw?.relationLedger),
+    chatThreads: asArray<ChatThread>(raw?.chatThreads),
+    advisorMessages: asArray<AdvisorMessage>(raw?.advisorMessages),
+    timelineSnapshots,
+    timelineHeadId: readTimelineHead(timelineSnapshots, raw?.timelineHeadId),
+  };
+};
+
+/** Trim unbounded histories before writing; mirrors the caps applied to logs and events. The ledger is kept whole. */
+const toPersistedSubsystems = (subsystems: Partial<SaveSubsystems> = {}): SaveSubsystems => {
+  const { relations, relationLedger, chatThreads, advisorMessages, timelineSnapshots, timelineHeadId } =
+    readSubsystems(subsystems);
+  return {
+    relations,
+    relationLedger,
+    chatThreads: chatThreads.map((thread) => ({
+      ...thread,
+      messages: thread.messages.slice(-MAX_SAVED_CHAT_MESSAGES),
+    })),
+    advisorMessages: advisorMessages.slice(-MAX_SAVED_ADVISOR_MESSAGES),
+    timelineSnapshots: pruneSnapshots(timelineSnapshots, timelineHeadId, MAX_SAVED_SNAPSHOTS),
+    timelineHeadId,
+  };
+};
+
+const toSnapshot = (gameState: GameState): GameStateSnapshot => {
+  const edits = provinceEdits(gameState.provinces);
+  return {
+    turn: gameState.turn,
+    date: gameState.date,
+    players: gameState.players,
+    selectedProvinceId: gameState.selectedProvinceId,
+    theme: gameState.theme,
+    provinceOwners: gameState.provinces.map((province) => ({
+      id: province.id,
+      ownerId: province.ownerId,
+      ...(province.lastResourceChange || province.mergedFrom
+        ? { resources: province.resources, lastResourceChange: province.lastResourceChange }
+        : {}),
+    })),
+    ...(Object.keys(edits).length > 0 ? { provinceEdits: edits } : {}),
+    ...(gameState.intel ? { intel: gameState.intel } : {}),
+  };
+};
 
 // ---------------------------------------------------------------------------
 // Auth state (set from page.tsx when session changes)
@@ -97,38 +273,50 @@ export function restoreSavedGameState(savedGame: SavedGame, baseProvinces: Provi
   savedGame = migrateSave(savedGame);
   const persistedState = savedGame.gameState;
   if (isLegacyGameState(persistedState)) {
-    return persistedState;
+    return { ...persistedState, players: ensureNationRegistry(persistedState.players, persistedState.provinces) };
   }
 
-  const ownership = new Map<string, string | null>();
+  const snapshots = new Map<string, ProvinceOwnerSnapshot>();
   persistedState.provinceOwners.forEach((entry) => {
-    ownership.set(toProvinceKey(entry.id), entry.ownerId);
+    snapshots.set(toProvinceKey(entry.id), entry);
   });
 
-  const provinces = baseProvinces.map((province) => {
-    const nextOwner = ownership.get(toProvinceKey(province.id));
+  const provinces = applyProvinceEdits(baseProvinces, persistedState.provinceEdits).map((province) => {
+    const entry = snapshots.get(toProvinceKey(province.id));
+    if (!entry) return province;
     return {
       ...province,
-      ownerId: nextOwner === undefined ? province.ownerId : nextOwner,
+      ownerId: entry.ownerId,
+      ...(entry.resources
+        ? { resources: entry.resources, lastResourceChange: entry.lastResourceChange }
+        : {}),
     };
   });
 
   return {
     turn: persistedState.turn,
-    players: persistedState.players,
+    date: persistedState.date,
+    players: ensureNationRegistry(persistedState.players, provinces),
     provinces,
     selectedProvinceId: persistedState.selectedProvinceId,
     theme: persistedState.theme,
+    ...(persistedState.intel ? { intel: persistedState.intel } : {}),
   };
 }
 
+/** Subsystem state for a loaded save, after running any pending migrations. */
+export function restoreSaveSubsystems(savedGame: SavedGame): SaveSubsystems {
+  return readSubsystems(migrateSave(savedGame));
+}
+
 // ---------------------------------------------------------------------------
 // localStorage quota monitoring
 // ---------------------------------------------------------------------------
 
 export function getStorageUsage(): { usedBytes: number; estimatedMaxBytes: number; percentUsed: number } {
-  const raw = localStorage.getItem(STORAGE_KEY) || "";
-  const usedBytes = JSON.stringify(raw).length * 2; // UTF-16
+  let chars = (localStorage.getItem(STORAGE_KEY) || "").length;
+  for (const key of storedMapPackKeys()) chars += (localStorage.getItem(MAP_PACK_KEY_PREFIX + key) || "").length;
+  const usedBytes = chars * 2; // UTF-16
   const estimatedMaxBytes = 5 * 1024 * 1024; // 5MB
   const percentUsed = (usedBytes / estimatedMaxBytes) * 100;
   return { usedBytes, estimatedMaxBytes, percentUsed };
@@ -138,13 +326,58 @@ export function getStorageUsage(): { usedBytes: number; estimatedMaxBytes: numbe
 // localStorage backend (renamed from original)
 // ---------------------------------------------------------------------------
 
+function storedMapPackKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(MAP_PACK_KEY_PREFIX)) keys.push(key.slice(MAP_PACK_KEY_PREFIX.length));
+  }
+  return keys;
+}
+
+/** The save with its uploaded pack read back from the pack store. */
+function withMapPack(save: SavedGame): SavedGame {
+  if (save.mapPack || !save.mapPackKey) return save;
+  try {
+    const data = localStorage.getItem(MAP_PACK_KEY_PREFIX + save.mapPackKey);
+    return data ? { ...save, mapPack: JSON.parse(data) as MapPack } : save;
+  } catch (error) {
+    console.error("Failed to read map pack:", error);
+    return save;
+  }
+}
+
+/**
+ * Write the save list. Packs carried by a save (a new save, or one written
+ * before packs had their own store) move to the pack store, and packs no
+ * save is played on any more are dropped.
+ */
+function writeLocalSaves(saves: SavedGame[]): void {
+  const stored = saves.map(({ mapPack, ...save }): SavedGame => {
+    if (!mapPack) return save;
+    const key = mapPackKeyOf(mapPack);
+    if (localStorage.getItem(MAP_PACK_KEY_PREFIX + key) === null) {
+      localStorage.setItem(MAP_PACK_KEY_PREFIX + key, JSON.stringify(mapPack));
+    }
+    return { ...save, mapPackKey: key };
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+  const used = new Set(stored.map((save) => save.mapPackKey));
+  storedMapPackKeys()
+    .filter((key) => !used.has(key))
+    .forEach((key) => localStorage.removeItem(MAP_PACK_KEY_PREFIX + key));
+}
+
 export function localSaveGame(
   gameState: GameState,
   gameConfig: GameConfig,
   logs: LogEntry[],
   saveName?: string,
   events: GameEvent[] = [],
-  storySoFar?: string
+  storySoFar?: string,
+  subsystems?: Partial<SaveSubsystems>,
+  mapPack?: MapPack | null
 ): string {
   try {
     const saves = localListSavedGames();
@@ -159,11 +392,13 @@ export function localSaveGame(
       logs: logs.slice(-50),
       events: events.slice(-100),
       storySoFar,
+      ...toPersistedSubsystems(subsystems),
+      ...(mapPack ? { mapPack } : {}),
       version: VERSION,
     };
 
     filtered.push(newSave);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    writeLocalSaves(filtered);
 
     const usage = getStorageUsage();
     if (usage.percentUsed > 80) {
@@ -182,7 +417,8 @@ export function localSaveGame(
 export function localLoadGame(id: string): SavedGame | null {
   try {
     const saves = localListSavedGames();
-    return saves.find((save) => save.id === id) || null;
+    const save = saves.find((entry) => entry.id === id);
+    return save ? withMapPack(save) : null;
   } catch (error) {
     console.error("Failed to load game:", error);
     return null;
@@ -207,6 +443,9 @@ export function localListSavedGames(): SavedGame[] {
         logs: Array.isArray(save.logs) ? (save.logs as LogEntry[]) : [],
         events: Array.isArray(save.events) ? (save.events as GameEvent[]) : [],
         storySoFar: typeof save.storySoFar === "string" ? save.storySoFar : undefined,
+        ...readSubsystems(save),
+        ...(save.mapPack ? { mapPack: save.mapPack } : {}),
+        ...(typeof save.mapPackKey === "string" ? { mapPackKey: save.mapPackKey } : {}),
         version: typeof save.version === "string" ? save.version : "1.0.0",
       }));
 
@@ -230,8 +469,7 @@ export function localListSavedGames(): SavedGame[] {
 export function localDeleteGame(id: string): void {
   try {
     const saves = localListSavedGames();
-    const filtered = saves.filter((save) => save.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    writeLocalSaves(saves.filter((save) => save.id !== id));
   } catch (error) {
     console.error("Failed to delete game:", error);
   }
@@ -247,7 +485,9 @@ async function cloudSaveGame(
   logs: LogEntry[],
   saveName?: string,
   events: GameEvent[] = [],
-  storySoFar?: string
+  storySoFar?: string,
+  subsystems?: Partial<SaveSubsystems>,
+  mapPack?: MapPack | null
 ): Promise<string> {
   const id = saveName || createSaveId();
   const res = await fetch("/api/saves", {
@@ -262,6 +502,8 @@ async function cloudSaveGame(
       logs: logs.slice(-50),
       events: events.slice(-100),
       storySoFar,
+      ...toPersistedSubsystems(subsystems),
+      mapPack: mapPack ?? null,
     }),
   });
   if (!res.ok) throw new Error(`Cloud save failed: ${res.status}`);
@@ -303,6 +545,8 @@ async function cloudLoadGame(id: string): Promise<SavedGame | null> {
     logs: save.logs || [],
     events: save.events || [],
     storySoFar: save.storySoFar,
+    ...readSubsystems(save),
+    ...(save.mapPack ? { mapPack: save.mapPack } : {}),
     version: save.version || "2.0.0",
   });
 }
@@ -328,6 +572,7 @@ async function cloudListSavedGames(): Promise<SavedGame[]> {
         } as unknown as GameConfig,
         logs: [],
         events: [],
+        ...readSubsystems(undefined),
         storySoFar: s.storySoFar as string | undefined,
         version: (s.version as string) || "2.0.0",
       }) as SavedGame
@@ -348,15 +593,17 @@ export async function saveGame(
   logs: LogEntry[],
   saveName?: string,
   events: GameEvent[] = [],
-  storySoFar?: string
+  storySoFar?: string,
+  subsystems?: Partial<SaveSubsystems>,
+  mapPack?: MapPack | null
 ): Promise<string> {
   // Always write to localStorage
-  const id = localSaveGame(gameState, gameConfig, logs, saveName, events, storySoFar);
+  const id = localSaveGame(gameState, gameConfig, logs, saveName, events, storySoFar, subsystems, mapPack);
 
   // Also write to cloud if authenticated
   if (_authenticated) {
     try {
-      await cloudSaveGame(gameState, gameConfig, logs, saveName || id, events, storySoFar);
+      await cloudSaveGame(gameState, gameConfig, logs, saveName || id, events, storySoFar, subsystems, mapPack);
     } catch (err) {
       console.error("Cloud save failed, localStorage fallback used:", err);
     }
@@ -411,7 +658,7 @@ export async function deleteGame(id: string): Promise<void> {
 
 export function getLatestSave(): SavedGame | null {
   const saves = localListSavedGames();
-  return saves.length > 0 ? saves[0] : null;
+  return saves.length > 0 ? withMapPack(saves[0]) : null;
 }
 
 // ---------------------------------------------------------------------------
@@ -425,7 +672,7 @@ export async function uploadLocalSavesToCloud(): Promise<number> {
   const res = await fetch("/api/saves/upload", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ saves: localSaves }),
+    body: JSON.stringify({ saves: localSaves.map(withMapPack) }),
   });
 
   if (!res.ok) throw new Error(`Upload failed: ${res.status}`);
@@ -446,14 +693,16 @@ export function autoSave(
   events: GameEvent[],
   delay: number = 2000,
   saveName: string = "autosave",
-  storySoFar?: string
+  storySoFar?: string,
+  subsystems?: Partial<SaveSubsystems>,
+  mapPack?: MapPack | null
 ): void {
   if (autoSaveTimer) {
     clearTimeout(autoSaveTimer);
   }
 
   autoSaveTimer = setTimeout(() => {
-    saveGame(gameState, gameConfig, logs, saveName, events, storySoFar).catch((err) => {
+    saveGame(gameState, gameConfig, logs, saveName, events, storySoFar, subsystems, mapPack).catch((err) => {
       console.error("Auto-save failed:", err);
     });
   }, delay);
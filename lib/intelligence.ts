@@ -0,0 +1,248 @@
+import type { DiplomaticRelation, GameDate, GameState, IntelState, Province, ProvinceResources } from "./types";
+import { advanceDate, compareDates } from "./calendar";
+import { findRelation } from "./opinion";
+import { nationOfProvince, nationsByCountry } from "./nation-registry";
+
+// In fog-of-war games the player only sees foreign provinces as well as their
+// intelligence reaches. Allies and vassals share everything, a spy network
+// reports exactly on its target nation, provinces across the border are
+// watched but their figures are guesses, and the rest of the world is known
+// from rumour. Changes in a rumour-only province are not seen: the player
+// keeps the last report until the province comes back into view.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** From best to worst: shared by an ally, reported by spies, seen across the border, rumour. */
+export type IntelLevel = "full" | "spies" | "border" | "rumour";
+
+/** A province as the player believes it to be. */
+export type ProvinceIntel = {
+  level: IntelLevel;
+  ownerId: string | null;
+  resources: ProvinceResources;
+  /** Figures are rounded guesses rather than exact values. */
+  estimated: boolean;
+  /** Set when the owner or figures are from an old report. */
+  asOf?: GameDate;
+};
+
+/** What the Game Master is told about the player's knowledge; nations are display names. */
+export type IntelSummary = {
+  networks: { nation: string; until: GameDate }[];
+  allies: string[];
+  bordering: string[];
+  /** Provinces whose owner the player has wrong; other nations are known by rumour. */
+  stale: { province: string; believedOwner: string; actualOwner: string; asOf: GameDate }[];
+  /** Stale provinces left out of `stale`. */
+  moreStale: number;
+};
+
+type IntelWorld = Pick<GameState, "provinces" | "players" | "intel">;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const INTEL_LABELS: Record<IntelLevel, string> = {
+  full: "Full intelligence",
+  spies: "Spy network",
+  border: "Border watch",
+  rumour: "Rumours only",
+};
+
+/** Spy networks report for this long when the Game Master gives no duration. */
+export const DEFAULT_NETWORK_MONTHS = 12;
+/** Stale provinces listed for the Game Master; the rest are counted. */
+const PROMPT_STALE_PROVINCES = 20;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** One significant figure, so 47.3 reads as 50 and 0.84 as 0.8. */
+function roughly(value: number): number {
+  if (value === 0) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(Math.abs(value))));
+  return Math.round((Math.round(value / magnitude) * magnitude) * 100) / 100;
+}
+
+const estimate = (r: ProvinceResources): ProvinceResources => ({
+  population: roughly(r.population),
+  economy: roughly(r.economy),
+  // Levels are guessed to the nearest even step
+  defense: Math.max(1, Math.round(r.defense / 2) * 2),
+  technology: Math.max(1, Math.round(r.technology / 2) * 2),
+});
+
+const sameResources = (a: ProvinceResources, b: ProvinceResources) =>
+  a.population === b.population && a.defense === b.defense && a.economy === b.economy && a.technology === b.technology;
+
+const hasNetwork = (intel: IntelState | undefined, nationId: string, date: GameDate) => {
+  const until = intel?.networks[nationId];
+  return !!until && compareDates(until, date) >= 0;
+};
+
+/** Nation ids allied to or in vassalage with the player. */
+function friendlyNations(players: GameState["players"], relations: DiplomaticRelation[]): Set<string> {
+  const playerName = players["player"]?.name;
+  const result = new Set<string>();
+  if (!playerName) return result;
+  for (const [id, nation] of Object.entries(players)) {
+    const type = findRelation(relations, playerName, nation.name)?.type;
+    if (type === "allied" || type === "vassal") result.add(id);
+  }
+  return result;
+}
+
+/** Ids of provinces that touch the player's territory. */
+function borderProvinces(provinces: Province[]): Set<string> {
+  const result = new Set<string>();
+  for (const p of provinces) {
+    if (p.ownerId !== "player") continue;
+    p.neighbors.forEach((n) => result.add(String(n)));
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const createIntelState = (): IntelState => ({ reports: {}, networks: {} });
+
+/** Intelligence level of every province, keyed by province id. */
+export function intelLevels(world: IntelWorld, relations: DiplomaticRelation[], date: GameDate): Map<string, IntelLevel> {
+  const friends = friendlyNations(world.players, relations);
+  const borders = borderProvinces(world.provinces);
+  const countries = nationsByCountry(world.players);
+  const levels = new Map<string, IntelLevel>();
+  for (const p of world.provinces) {
+    const key = String(p.id);
+    const owner = nationOfProvince(p, countries);
+    const level: IntelLevel =
+      owner === "player" || (owner && friends.has(owner)) ? "full" :
+      owner && hasNetwork(world.intel, owner, date) ? "spies" :
+      borders.has(key) ? "border" : "rumour";
+    levels.set(key, level);
+  }
+  return levels;
+}
+
+/** Every province as the player believes it to be, keyed by province id. */
+export function perceiveProvinces(
+  world: IntelWorld,
+  relations: DiplomaticRelation[],
+  date: GameDate
+): Map<string, ProvinceIntel> {
+  const levels = intelLevels(world, relations, date);
+  const view = new Map<string, ProvinceIntel>();
+  for (const p of world.provinces) {
+    const key = String(p.id);
+    const level = levels.get(key) ?? "rumour";
+    const report = level === "rumour" ? world.intel?.reports[key] : undefined;
+    const exact = level === "full" || level === "spies";
+    view.set(key, {
+      level,
+      ownerId: report ? report.ownerId : p.ownerId,
+      resources: exact ? p.resources : estimate(report?.resources ?? p.resources),
+      estimated: !exact,
+      ...(report ? { asOf: report.date } : {}),
+    });
+  }
+  return view;
+}
+
+/**
+ * Provinces with the player's beliefs in place of the truth, for the map.
+ * Recent resource changes are only kept where the figures are exact.
+ */
+export function applyIntel(provinces: Province[], view: Map<string, ProvinceIntel>): Province[] {
+  return provinces.map((p) => {
+    const intel = view.get(String(p.id));
+    if (!intel || intel.level === "full" || intel.level === "spies") return p;
+    return { ...p, ownerId: intel.ownerId, resources: intel.resources, lastResourceChange: undefined };
+  });
+}
+
+/** Start or extend the player's spy network in a nation. */
+export function establishNetwork(intel: IntelState, nationId: string, from: GameDate, months: number): IntelState {
+  const until = advanceDate(from, { years: 0, months, days: 0 });
+  const current = intel.networks[nationId];
+  if (current && compareDates(current, until) >= 0) return intel;
+  return { ...intel, networks: { ...intel.networks, [nationId]: until } };
+}
+
+/**
+ * Bring the player's reports up to date after a turn. Provinces in view drop
+ * their report; rumour-only provinces that changed keep what the player knew
+ * as of `lastSeen`. Expired spy networks are removed.
+ */
+export function updateIntel(
+  intel: IntelState,
+  before: Province[],
+  after: IntelWorld,
+  relations: DiplomaticRelation[],
+  date: GameDate,
+  lastSeen: GameDate
+): IntelState {
+  const networks = Object.fromEntries(
+    Object.entries(intel.networks).filter(([, until]) => compareDates(until, date) >= 0)
+  );
+  const levels = intelLevels({ ...after, intel: { ...intel, networks } }, relations, date);
+  const previous = new Map(before.map((p) => [String(p.id), p]));
+  const reports: IntelState["reports"] = {};
+
+  for (const p of after.provinces) {
+    const key = String(p.id);
+    if (levels.get(key) !== "rumour") continue;
+    if (intel.reports[key]) {
+      reports[key] = intel.reports[key];
+      continue;
+    }
+    const old = previous.get(key);
+    if (old && (old.ownerId !== p.ownerId || !sameResources(old.resources, p.resources))) {
+      reports[key] = { ownerId: old.ownerId, resources: old.resources, date: lastSeen };
+    }
+  }
+  return { reports, networks };
+}
+
+/** The player's knowledge by nation, for the Game Master prompt. */
+export function summarizeIntel(world: IntelWorld, relations: DiplomaticRelation[], date: GameDate): IntelSummary {
+  const levels = intelLevels(world, relations, date);
+  const name = (id: string | null) => (id ? world.players[id]?.name ?? id : "nobody");
+
+  // A nation is as well known as its best-known province
+  const RANK: IntelLevel[] = ["rumour", "border", "spies", "full"];
+  const countries = nationsByCountry(world.players);
+  const best = new Map<string, IntelLevel>();
+  for (const p of world.provinces) {
+    const owner = nationOfProvince(p, countries);
+    if (!owner || owner === "player") continue;
+    const level = levels.get(String(p.id)) ?? "rumour";
+    const current = best.get(owner);
+    if (!current || RANK.indexOf(level) > RANK.indexOf(current)) best.set(owner, level);
+  }
+  const nationsAt = (level: IntelLevel) =>
+    [...best].filter(([, l]) => l === level).map(([id]) => name(id)).sort();
+
+  const stale: IntelSummary["stale"] = [];
+  for (const p of world.provinces) {
+    const report = levels.get(String(p.id)) === "rumour" ? world.intel?.reports[String(p.id)] : undefined;
+    if (report && report.ownerId !== p.ownerId) {
+      stale.push({ province: p.name, believedOwner: name(report.ownerId), actualOwner: name(p.ownerId), asOf: report.date });
+    }
+  }
+
+  return {
+    networks: Object.entries(world.intel?.networks ?? {})
+      .filter(([id]) => hasNetwork(world.intel, id, date))
+      .map(([id, until]) => ({ nation: name(id), until })),
+    allies: nationsAt("full"),
+    bordering: nationsAt("border"),
+    stale: stale.slice(0, PROMPT_STALE_PROVINCES),
+    moreStale: Math.max(0, stale.length - PROMPT_STALE_PROVINCES),
+  };
+}
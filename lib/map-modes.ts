@@ -0,0 +1,309 @@
+import type { DiplomaticRelation, Player, Province, RelationType, ResourceKey, TimelineSnapshot } from "./types";
+import { findRelation } from "./opinion";
+import { nationOfProvince, nationsByCountry } from "./nation-registry";
+import { resolveSnapshot } from "./timeline";
+
+// Map modes recolor the map without touching ownership. Resource modes are
+// choropleths split into quantile classes; the diplomatic mode colors each
+// nation by its relation to the player; the changes mode highlights provinces
+// that changed hands on the last few recorded turns. Colors are worked out
+// per region (tier 2, inherited by tier 3 states) and per country (tier 1),
+// where a country's value is its regions' total or average.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MapMode = "political" | ResourceKey | "diplomatic" | "changes";
+
+export type LegendEntry = { color: string; label: string };
+
+export type MapLegend = {
+  title: string;
+  entries: LegendEntry[];
+  note?: string;
+};
+
+/** Fill colors for a non-political mode, keyed by province id and by country id. */
+export type MapOverlay = {
+  provinceColors: Map<string, string>;
+  countryColors: Map<string, string>;
+  legend: MapLegend;
+};
+
+/** A province that changed hands within the window, with its owner before the first change. */
+export type OwnerChange = { from: string | null; to: string | null; turnsAgo: number };
+
+type OverlayContext = {
+  players: Record<string, Player>;
+  relations: DiplomaticRelation[];
+  /** Only used by the changes mode. */
+  recentChanges?: Map<string, OwnerChange>;
+  changeTurns?: number;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MAP_MODES: { id: MapMode; label: string }[] = [
+  { id: "political", label: "Political" },
+  { id: "population", label: "Population" },
+  { id: "economy", label: "Economy" },
+  { id: "defense", label: "Defense" },
+  { id: "technology", label: "Technology" },
+  { id: "diplomatic", label: "Diplomacy" },
+  { id: "changes", label: "Changes" },
+];
+
+/** Turn windows offered by the changes mode. */
+export const CHANGE_WINDOWS = [1, 3, 5, 10];
+
+const NO_DATA_COLOR = "#1e293b";
+const CLASSES = 5;
+
+/** Dark to bright ramp per resource, matching the tooltip accents. */
+const RAMPS: Record<ResourceKey, [string, string]> = {
+  population: ["#0f2e24", "#34d399"],
+  economy: ["#0c2436", "#38bdf8"],
+  defense: ["#2e1018", "#fb7185"],
+  technology: ["#1f1536", "#a78bfa"],
+};
+
+/** Resources that add up across a country; the others are averaged. */
+const SUMMED: ResourceKey[] = ["population", "economy"];
+
+const RELATION_COLORS: Record<RelationType | "player" | "none", string> = {
+  player: "#3b82f6",
+  allied: "#22c55e",
+  vassal: "#a855f7",
+  friendly: "#86efac",
+  neutral: "#64748b",
+  hostile: "#f97316",
+  war: "#ef4444",
+  none: "#334155",
+};
+
+const RELATION_LABELS: Record<keyof typeof RELATION_COLORS, string> = {
+  player: "Your nation",
+  allied: "Allied",
+  vassal: "Vassal",
+  friendly: "Friendly",
+  neutral: "Neutral",
+  hostile: "Hostile",
+  war: "At war",
+  none: "Unclaimed",
+};
+
+const CHANGE_COLORS = { gained: "#3b82f6", lost: "#ef4444", other: "#f59e0b", none: "#1e293b" };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const countryId = (p: Province) => p.parentCountryId || String(p.id);
+
+function mix(from: string, to: string, t: number): string {
+  const a = parseInt(from.slice(1), 16);
+  const b = parseInt(to.slice(1), 16);
+  const channel = (shift: number) => {
+    const x = (a >> shift) & 255;
+    const y = (b >> shift) & 255;
+    return Math.round(x + (y - x) * t);
+  };
+  return `#${((1 << 24) | (channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).slice(1)}`;
+}
+
+const rampColors = (key: ResourceKey) =>
+  Array.from({ length: CLASSES }, (_, i) => mix(RAMPS[key][0], RAMPS[key][1], i / (CLASSES - 1)));
+
+/** Upper bounds of the first CLASSES-1 quantile classes. */
+function quantileBreaks(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  return Array.from({ length: CLASSES - 1 }, (_, i) => sorted[Math.floor(((i + 1) * sorted.length) / CLASSES)]);
+}
+
+const classOf = (value: number, breaks: number[]) => {
+  const index = breaks.findIndex((b) => value < b);
+  return index === -1 ? breaks.length : index;
+};
+
+function formatValue(key: ResourceKey, value: number): string {
+  const rounded = value >= 100 ? Math.round(value).toLocaleString() : String(Math.round(value * 10) / 10);
+  if (key === "population") return `${rounded}M`;
+  if (key === "economy") return `$${rounded}B`;
+  return rounded;
+}
+
+/** Relation of a nation to the player, by nation id. */
+function relationToPlayer(ownerId: string | null, ctx: OverlayContext): keyof typeof RELATION_COLORS {
+  if (!ownerId) return "none";
+  if (ownerId === "player") return "player";
+  const playerName = ctx.players["player"]?.name;
+  const name = ctx.players[ownerId]?.name;
+  if (!playerName || !name) return "neutral";
+  return findRelation(ctx.relations, playerName, name)?.type ?? "neutral";
+}
+
+/** The nation holding most of a country's provinces. */
+function mainOwner(provinces: Province[], holderOf: (p: Province) => string | null): string | null {
+  const counts = new Map<string | null, number>();
+  provinces.forEach((p) => {
+    const holder = holderOf(p);
+    counts.set(holder, (counts.get(holder) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function groupByCountry(provinces: Province[]): Map<string, Province[]> {
+  const groups = new Map<string, Province[]>();
+  for (const p of provinces) {
+    const cid = countryId(p);
+    if (!groups.has(cid)) groups.set(cid, []);
+    groups.get(cid)!.push(p);
+  }
+  return groups;
+}
+
+function resourceOverlay(key: ResourceKey, provinces: Province[]): MapOverlay {
+  const colors = rampColors(key);
+  const summed = SUMMED.includes(key);
+
+  const regionBreaks = quantileBreaks(provinces.map((p) => p.resources[key]));
+  const provinceColors = new Map(
+    provinces.map((p) => [String(p.id), colors[classOf(p.resources[key], regionBreaks)]] as const)
+  );
+
+  const countryValues = [...groupByCountry(provinces)].map(([cid, group]) => {
+    const total = group.reduce((sum, p) => sum + p.resources[key], 0);
+    return [cid, summed ? total : total / group.length] as const;
+  });
+  const countryBreaks = quantileBreaks(countryValues.map(([, v]) => v));
+  const countryColors = new Map(countryValues.map(([cid, v]) => [cid, colors[classOf(v, countryBreaks)]] as const));
+
+  const bounds = [-Infinity, ...regionBreaks, Infinity];
+  const entries = colors.map((color, i) => {
+    const lo = bounds[i];
+    const hi = bounds[i + 1];
+    const label =
+      lo === -Infinity ? `under ${formatValue(key, hi)}` :
+      hi === Infinity ? `${formatValue(key, lo)} and over` :
+      `${formatValue(key, lo)} – ${formatValue(key, hi)}`;
+    return { color, label };
+  });
+
+  return {
+    provinceColors,
+    countryColors,
+    legend: {
+      title: MAP_MODES.find((m) => m.id === key)!.label,
+      entries: regionBreaks.length > 0 ? entries : [],
+      note: `Ranges are per region; zoomed out, countries are ranked by their ${summed ? "total" : "average"}.`,
+    },
+  };
+}
+
+function diplomaticOverlay(provinces: Province[], ctx: OverlayContext): MapOverlay {
+  const colorOf = (ownerId: string | null) => RELATION_COLORS[relationToPlayer(ownerId, ctx)];
+  const countries = nationsByCountry(ctx.players);
+  const holderOf = (p: Province) => nationOfProvince(p, countries);
+  const provinceColors = new Map(provinces.map((p) => [String(p.id), colorOf(holderOf(p))] as const));
+  const countryColors = new Map(
+    [...groupByCountry(provinces)].map(([cid, group]) => [cid, colorOf(mainOwner(group, holderOf))] as const)
+  );
+  const entries = (Object.keys(RELATION_COLORS) as (keyof typeof RELATION_COLORS)[]).map((k) => ({
+    color: RELATION_COLORS[k],
+    label: RELATION_LABELS[k],
+  }));
+  return {
+    provinceColors,
+    countryColors,
+    legend: { title: "Relations with you", entries, note: "Zoomed out, a country shows its main holder." },
+  };
+}
+
+function changesOverlay(provinces: Province[], ctx: OverlayContext): MapOverlay {
+  const changes = ctx.recentChanges ?? new Map<string, OwnerChange>();
+  const kindOf = (p: Province): keyof typeof CHANGE_COLORS => {
+    const change = changes.get(String(p.id));
+    if (!change) return "none";
+    if (change.to === "player") return "gained";
+    if (change.from === "player") return "lost";
+    return "other";
+  };
+  const provinceColors = new Map(provinces.map((p) => [String(p.id), CHANGE_COLORS[kindOf(p)]] as const));
+
+  // A country is highlighted by its most notable change: the player's gains and losses first
+  const RANK: (keyof typeof CHANGE_COLORS)[] = ["none", "other", "lost", "gained"];
+  const countryColors = new Map(
+    [...groupByCountry(provinces)].map(([cid, group]) => {
+      const kind = group.map(kindOf).reduce((best, k) => (RANK.indexOf(k) > RANK.indexOf(best) ? k : best), "none");
+      return [cid, CHANGE_COLORS[kind]] as const;
+    })
+  );
+
+  const turns = ctx.changeTurns ?? 1;
+  return {
+    provinceColors,
+    countryColors,
+    legend: {
+      title: `Changed hands, last ${turns} turn${turns === 1 ? "" : "s"}`,
+      entries: [
+        { color: CHANGE_COLORS.gained, label: "Gained by you" },
+        { color: CHANGE_COLORS.lost, label: "Lost by you" },
+        { color: CHANGE_COLORS.other, label: "Between other nations" },
+        { color: CHANGE_COLORS.none, label: "Unchanged" },
+      ],
+      note: changes.size === 0 ? "No recorded changes in this window." : `${changes.size} province${changes.size === 1 ? "" : "s"} changed hands.`,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Colors and legend for a map mode; null for the political map. */
+export function buildMapOverlay(mode: MapMode, provinces: Province[], ctx: OverlayContext): MapOverlay | null {
+  if (mode === "political") return null;
+  if (mode === "diplomatic") return diplomaticOverlay(provinces, ctx);
+  if (mode === "changes") return changesOverlay(provinces, ctx);
+  return resourceOverlay(mode, provinces);
+}
+
+export const overlayColor = (colors: Map<string, string> | undefined, id: string): string | undefined =>
+  colors ? colors.get(id) ?? NO_DATA_COLOR : undefined;
+
+/**
+ * Provinces that changed hands on the last `turns` recorded turns of the
+ * current branch, from each snapshot's record of previous owners. Changes
+ * the player cannot see (the map shows a different owner) are left out.
+ */
+export function recentOwnerChanges(
+  snapshots: TimelineSnapshot[],
+  headId: string | null,
+  turns: number,
+  provinces: Province[]
+): Map<string, OwnerChange> {
+  const byId = new Map(snapshots.map((s) => [s.id, s]));
+  const shown = new Map(provinces.map((p) => [String(p.id), p.ownerId]));
+  const changes = new Map<string, OwnerChange>();
+
+  let snapshot = headId ? byId.get(headId) : undefined;
+  for (let turnsAgo = 0; snapshot && turnsAgo < turns; turnsAgo++) {
+    const { ownerChanges } = snapshot.gameStateSlim;
+    const provinceOwners = ownerChanges ? resolveSnapshot(snapshots, snapshot.id)?.provinceOwners ?? {} : {};
+    for (const [id, from] of Object.entries(ownerChanges ?? {})) {
+      const existing = changes.get(id);
+      // Walking back in time: the earliest previous owner wins, the latest owner stays
+      changes.set(id, { from, to: existing?.to ?? provinceOwners[id] ?? null, turnsAgo: existing?.turnsAgo ?? turnsAgo });
+    }
+    snapshot = snapshot.parentSnapshotId ? byId.get(snapshot.parentSnapshotId) : undefined;
+  }
+
+  for (const [id, change] of changes) {
+    if (change.from === change.to || (shown.has(id) && shown.get(id) !== change.to)) changes.delete(id);
+  }
+  return changes;
+}
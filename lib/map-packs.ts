@@ -0,0 +1,261 @@
+import type { MapTheme, ProvinceResources } from "./types";
+import { CityMarker, WORLD_CITIES } from "./cities";
+import { RESOURCE_KEYS } from "./province-resources";
+
+// A map pack is the world a game is played on: a TopoJSON topology whose
+// `provinces` object carries provinceId / displayName / parentCountryId on
+// every geometry (the layout of provinces-combined.json), plus optional
+// metadata for the nations, province resources, city labels and default
+// theme. The built-in packs crop the bundled world map; uploaded packs carry
+// their own topology, are validated on load and are stored once next to the
+// saves made on them, since nothing else in the game knows their geography.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A country of the pack, keyed by the parentCountryId its provinces share. */
+export type MapPackNation = {
+  id: string;
+  name: string;
+  color?: string;
+  capital?: string;
+};
+
+/** Overrides for one province, keyed by provinceId. */
+export type MapPackProvince = {
+  color?: string;
+  resources?: Partial<ProvinceResources>;
+};
+
+export type MapPackMeta = {
+  id: string;
+  name: string;
+  description?: string;
+  defaultTheme?: MapTheme;
+  nations?: MapPackNation[];
+  provinces?: Record<string, MapPackProvince>;
+  /** City labels; uploaded packs without any show none. */
+  cities?: CityMarker[];
+};
+
+/** The parts of a TopoJSON topology the loader relies on. */
+export type MapPackTopology = {
+  type: "Topology";
+  arcs: unknown[];
+  objects: { provinces: { type: "GeometryCollection"; geometries: { properties?: Record<string, unknown> }[] } } & Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+/** An uploaded pack, as read from its file and stored with saves. */
+export type MapPack = MapPackMeta & { topology: MapPackTopology };
+
+/** A pack bundled with the game, fetched from `url` and optionally cropped to a box. */
+export type BuiltInMapPack = MapPackMeta & {
+  url: string;
+  /** [west, south, east, north]; provinces whose center falls outside are left off. */
+  bounds?: [number, number, number, number];
+};
+
+export type MapPackSource = BuiltInMapPack | MapPack;
+
+export type MapPackCheck = { pack: MapPack; warnings: string[] } | { error: string };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_MAP_PACK_ID = "world";
+
+export const BUILT_IN_MAP_PACKS: Record<string, BuiltInMapPack> = {
+  world: {
+    id: "world",
+    name: "World",
+    description: "The whole world, with large countries split into regions.",
+    url: "/provinces-combined.json",
+  },
+  europe: {
+    id: "europe",
+    name: "Europe",
+    description: "Europe, Anatolia and the Caucasus, from Iceland to the Urals.",
+    url: "/provinces-combined.json",
+    bounds: [-25, 35.5, 50, 72],
+  },
+};
+
+const MAP_THEMES: MapTheme[] = ["classic", "cyberpunk", "parchment", "blueprint"];
+
+/**
+ * Uploaded files above this size are refused before parsing, and saves
+ * carrying a larger pack are refused by the server. Packs are kept in
+ * localStorage, whose quota (about 5 MB) they share with every save.
+ */
+export const MAX_MAP_PACK_BYTES = 2 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const asRecord = (raw: unknown): Record<string, unknown> | null =>
+  raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const idString = (value: unknown): string | null =>
+  typeof value === "number" && Number.isFinite(value) ? String(value) : nonEmptyString(value);
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "map";
+
+function readNations(raw: unknown, warnings: string[]): MapPackNation[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push('"nations" must be an array; ignored');
+    return undefined;
+  }
+  const nations: MapPackNation[] = [];
+  raw.forEach((entry, i) => {
+    const n = asRecord(entry);
+    const id = idString(n?.id);
+    const name = nonEmptyString(n?.name);
+    if (!n || !id || !name) {
+      warnings.push(`nations[${i}]: needs an "id" and a "name"; skipped`);
+      return;
+    }
+    const color = nonEmptyString(n.color);
+    const capital = nonEmptyString(n.capital);
+    nations.push({ id, name, ...(color ? { color } : {}), ...(capital ? { capital } : {}) });
+  });
+  return nations;
+}
+
+function readProvinceOverrides(raw: unknown, warnings: string[]): Record<string, MapPackProvince> | undefined {
+  if (raw === undefined) return undefined;
+  const record = asRecord(raw);
+  if (!record) {
+    warnings.push('"provinces" must be an object keyed by provinceId; ignored');
+    return undefined;
+  }
+  const result: Record<string, MapPackProvince> = {};
+  for (const [id, entry] of Object.entries(record)) {
+    const p = asRecord(entry);
+    if (!p) continue;
+    const color = nonEmptyString(p.color);
+    const rawResources = asRecord(p.resources);
+    const resources: Partial<ProvinceResources> = {};
+    for (const key of RESOURCE_KEYS) {
+      const value = rawResources?.[key];
+      if (typeof value === "number" && Number.isFinite(value) && value >= 0) resources[key] = value;
+      else if (value !== undefined) warnings.push(`provinces.${id}.resources.${key} must be a non-negative number; ignored`);
+    }
+    result[id] = { ...(color ? { color } : {}), ...(Object.keys(resources).length > 0 ? { resources } : {}) };
+  }
+  return result;
+}
+
+function readCities(raw: unknown, warnings: string[]): CityMarker[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push('"cities" must be an array; ignored');
+    return undefined;
+  }
+  const cities: CityMarker[] = [];
+  raw.forEach((entry, i) => {
+    const c = asRecord(entry);
+    const name = nonEmptyString(c?.name);
+    const lon = c?.lon;
+    const lat = c?.lat;
+    const tier = c?.tier ?? 3;
+    if (
+      !name ||
+      typeof lon !== "number" || Math.abs(lon) > 180 ||
+      typeof lat !== "number" || Math.abs(lat) > 90 ||
+      ![1, 2, 3, 4].includes(tier as number)
+    ) {
+      warnings.push(`cities[${i}]: needs a "name", "lon", "lat" and a "tier" of 1-4; skipped`);
+      return;
+    }
+    cities.push({ name, lon, lat, tier: tier as CityMarker["tier"] });
+  });
+  return cities;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const isUploadedMapPack = (pack: MapPackSource): pack is MapPack => "topology" in pack;
+
+/**
+ * Check an uploaded file's parsed JSON. A bare topology is accepted as a pack
+ * with no metadata. Broken metadata entries are dropped with a warning; a
+ * topology the loader cannot read is an error.
+ */
+export function validateMapPack(raw: unknown, fileName = "Custom map"): MapPackCheck {
+  const root = asRecord(raw);
+  if (!root) return { error: "The file is not a JSON object." };
+  const isBareTopology = root.type === "Topology";
+  const topology = asRecord(isBareTopology ? root : root.topology);
+  if (!topology || topology.type !== "Topology" || !Array.isArray(topology.arcs)) {
+    return { error: 'No TopoJSON topology found: expected a "topology" field or a file of type "Topology".' };
+  }
+
+  const provinces = asRecord(asRecord(topology.objects)?.provinces);
+  const geometries = provinces?.geometries;
+  if (!provinces || provinces.type !== "GeometryCollection" || !Array.isArray(geometries) || geometries.length === 0) {
+    return { error: 'The topology needs a "provinces" GeometryCollection with at least one geometry.' };
+  }
+
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < geometries.length; i++) {
+    const props = asRecord(asRecord(geometries[i])?.properties);
+    const id = idString(props?.provinceId);
+    if (!id) return { error: `Geometry ${i} has no "provinceId" property.` };
+    if (seen.has(id)) return { error: `Province id "${id}" is used by more than one geometry.` };
+    seen.add(id);
+    if (!nonEmptyString(props?.displayName)) warnings.push(`province "${id}" has no "displayName"; its id is shown instead`);
+  }
+
+  const meta = isBareTopology ? {} : root;
+  const name = nonEmptyString(meta.name) ?? fileName.replace(/\.[^.]+$/, "");
+  const theme = nonEmptyString(meta.defaultTheme) as MapTheme | null;
+  if (theme && !MAP_THEMES.includes(theme)) warnings.push(`unknown defaultTheme "${theme}"; ignored`);
+
+  const nations = readNations(meta.nations, warnings);
+  const provinceOverrides = readProvinceOverrides(meta.provinces, warnings);
+  const cities = readCities(meta.cities, warnings);
+  const description = nonEmptyString(meta.description);
+
+  return {
+    pack: {
+      // Never collide with a built-in pack
+      id: `custom-${slug(nonEmptyString(meta.id) ?? name)}`,
+      name,
+      ...(description ? { description } : {}),
+      ...(theme && MAP_THEMES.includes(theme) ? { defaultTheme: theme } : {}),
+      ...(nations ? { nations } : {}),
+      ...(provinceOverrides ? { provinces: provinceOverrides } : {}),
+      ...(cities ? { cities } : {}),
+      topology: topology as MapPackTopology,
+    },
+    warnings,
+  };
+}
+
+/** The pack a game was started on: its uploaded pack when it has one, else a built-in by id. */
+export function resolveMapPack(packId: string | undefined, uploaded?: MapPack | null): MapPackSource {
+  if (uploaded && (!packId || uploaded.id === packId)) return uploaded;
+  return BUILT_IN_MAP_PACKS[packId ?? DEFAULT_MAP_PACK_ID] ?? BUILT_IN_MAP_PACKS[DEFAULT_MAP_PACK_ID];
+}
+
+/** City labels to draw; the built-in packs share the world's cities. */
+export const mapPackCities = (pack: MapPackSource): CityMarker[] =>
+  pack.cities ?? (isUploadedMapPack(pack) ? [] : WORLD_CITIES);
+
+/** State-level detail (tier 3) is drawn from the bundled world data, so only the full world map has it. */
+export const hasStateDetail = (pack: MapPackSource): boolean => pack.id === DEFAULT_MAP_PACK_ID;
+
+/** Capitals the pack names, keyed by country id. */
+export const mapPackCapitals = (pack: MapPackSource): Record<string, string> =>
+  Object.fromEntries((pack.nations ?? []).filter((n) => n.capital).map((n) => [n.id, n.capital as string]));
@@ -0,0 +1,294 @@
+import { Player, Province } from "./types";
+import { INITIAL_PLAYERS } from "./map-generator";
+import { normalizeProvinceName } from "./province-resolver";
+
+// The nation registry is GameState.players: one entry per country on the map,
+// keyed by a stable id derived from the country name ("ai_france"). The GM is
+// shown the registry and owner/nation updates are resolved against it, so every
+// ownerId written to a province has a name and a color. A new game hands every
+// province to the nation seeded from its country, so ownerId is who holds it.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Minimal nation shape shared with the server-side schema validator. */
+export type NationRef = Pick<Player, "id" | "name">;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PLAYER_ID = "player";
+
+/** Country id of land that belongs to no nation; the registry gives it no entry. */
+export const UNCLAIMED_COUNTRY_ID = "unclaimed";
+
+const FALLBACK_COLOR = "#64748b";
+
+/** Colors handed to nations founded during play that bring none of their own. */
+const FOUNDED_COLORS = ["#b45309", "#0f766e", "#7c3aed", "#be123c", "#4d7c0f", "#0369a1", "#a21caf", "#c2410c"];
+
+/** Present-day capitals keyed by ISO 3166 numeric code (matches parentCountryId). */
+const CAPITALS: Record<string, string> = {
+  "004": "Kabul",
+  "012": "Algiers",
+  "024": "Luanda",
+  "032": "Buenos Aires",
+  "036": "Canberra",
+  "040": "Vienna",
+  "050": "Dhaka",
+  "056": "Brussels",
+  "076": "Brasília",
+  "104": "Naypyidaw",
+  "116": "Phnom Penh",
+  "120": "Yaoundé",
+  "124": "Ottawa",
+  "144": "Colombo",
+  "152": "Santiago",
+  "156": "Beijing",
+  "158": "Taipei",
+  "170": "Bogotá",
+  "180": "Kinshasa",
+  "192": "Havana",
+  "203": "Prague",
+  "208": "Copenhagen",
+  "218": "Quito",
+  "231": "Addis Ababa",
+  "246": "Helsinki",
+  "250": "Paris",
+  "276": "Berlin",
+  "288": "Accra",
+  "300": "Athens",
+  "320": "Guatemala City",
+  "348": "Budapest",
+  "356": "New Delhi",
+  "360": "Jakarta",
+  "364": "Tehran",
+  "368": "Baghdad",
+  "372": "Dublin",
+  "376": "Jerusalem",
+  "380": "Rome",
+  "384": "Yamoussoukro",
+  "392": "Tokyo",
+  "398": "Astana",
+  "404": "Nairobi",
+  "408": "Pyongyang",
+  "410": "Seoul",
+  "434": "Tripoli",
+  "450": "Antananarivo",
+  "458": "Kuala Lumpur",
+  "484": "Mexico City",
+  "504": "Rabat",
+  "508": "Maputo",
+  "524": "Kathmandu",
+  "528": "Amsterdam",
+  "554": "Wellington",
+  "566": "Abuja",
+  "578": "Oslo",
+  "586": "Islamabad",
+  "604": "Lima",
+  "608": "Manila",
+  "616": "Warsaw",
+  "620": "Lisbon",
+  "642": "Bucharest",
+  "643": "Moscow",
+  "682": "Riyadh",
+  "686": "Dakar",
+  "704": "Hanoi",
+  "706": "Mogadishu",
+  "710": "Pretoria",
+  "716": "Harare",
+  "724": "Madrid",
+  "729": "Khartoum",
+  "752": "Stockholm",
+  "756": "Bern",
+  "760": "Damascus",
+  "764": "Bangkok",
+  "792": "Ankara",
+  "800": "Kampala",
+  "804": "Kyiv",
+  "818": "Cairo",
+  "826": "London",
+  "834": "Dodoma",
+  "840": "Washington, D.C.",
+  "860": "Tashkent",
+  "862": "Caracas",
+  "887": "Sanaa",
+  "894": "Lusaka",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Stable registry id for a country name, e.g. "Dem. Rep. Congo" -> "ai_dem_rep_congo". */
+export const toNationId = (name: string) => `ai_${normalizeProvinceName(name).replace(/ /g, "_") || "unknown"}`;
+
+/** Readable name for an id the registry has never seen, e.g. "ai_holy_roman_empire". */
+const nameFromId = (id: string) =>
+  id
+    .replace(/^ai_/, "")
+    .split("_")
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(" ") || id;
+
+type CountrySeed = { countryId: string; name: string; color: string };
+
+/** One seed per map country, in first-seen order. */
+const collectCountries = (provinces: Province[]): CountrySeed[] => {
+  const seen = new Map<string, CountrySeed>();
+  for (const p of provinces) {
+    const countryId = p.parentCountryId || String(p.id);
+    if (seen.has(countryId) || countryId === UNCLAIMED_COUNTRY_ID) continue;
+    seen.set(countryId, { countryId, name: p.parentCountryName || p.name, color: p.color || FALLBACK_COLOR });
+  }
+  return [...seen.values()];
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the registry for a new game. The player's own country becomes the
+ * "player" entry; every other map country becomes an AI nation. Map packs
+ * may name their own capitals, which take precedence over the present-day ones.
+ * Leaders depend on the start year, so they only come from the scenario, keyed
+ * by country id or, for presets that cannot know ids, by country name.
+ */
+export function createNationRegistry(
+  provinces: Province[],
+  playerCountryId?: string | null,
+  playerName?: string,
+  capitals: Record<string, string> = {},
+  leaders: Record<string, string> = {}
+): Record<string, Player> {
+  const capitalOf = (countryId: string) => capitals[countryId] ?? CAPITALS[countryId];
+  const leaderOf = (country: CountrySeed) => {
+    const leader = leaders[country.countryId] ?? leaders[country.name];
+    return leader ? { leader } : {};
+  };
+
+  const players: Record<string, Player> = {
+    [PLAYER_ID]: { ...INITIAL_PLAYERS[PLAYER_ID], name: playerName || INITIAL_PLAYERS[PLAYER_ID].name },
+  };
+
+  for (const country of collectCountries(provinces)) {
+    if (country.countryId === playerCountryId) {
+      players[PLAYER_ID] = {
+        ...players[PLAYER_ID],
+        countryId: country.countryId,
+        capital: capitalOf(country.countryId),
+        ...leaderOf(country),
+      };
+      continue;
+    }
+
+    let id = toNationId(country.name);
+    if (players[id]) id = `${id}_${country.countryId}`;
+    players[id] = {
+      id,
+      name: country.name,
+      color: country.color,
+      countryId: country.countryId,
+      capital: capitalOf(country.countryId),
+      ...leaderOf(country),
+    };
+  }
+
+  return players;
+}
+
+/** Registry nation id per map country. */
+export function nationsByCountry(players: Record<string, Player>): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const nation of Object.values(players)) {
+    if (nation.countryId && !result.has(nation.countryId)) result.set(nation.countryId, nation.id);
+  }
+  return result;
+}
+
+/**
+ * The nation holding a province: its owner, or else the nation seeded from its
+ * map country, for provinces of games started before owners were handed out.
+ */
+export function nationOfProvince(province: Province, countries: Map<string, string>): string | null {
+  return province.ownerId ?? countries.get(province.parentCountryId || String(province.id)) ?? null;
+}
+
+/** Hand every unowned province to the nation seeded from its country; unclaimed land stays unowned. */
+export function claimCountryProvinces(provinces: Province[], players: Record<string, Player>): Province[] {
+  const countries = nationsByCountry(players);
+  return provinces.map((p) => {
+    const ownerId = nationOfProvince(p, countries);
+    return ownerId === p.ownerId ? p : { ...p, ownerId };
+  });
+}
+
+/**
+ * A nation founded during play (a secession, a new state). It is its own map
+ * country: provinces transferred to it take its id as their parentCountryId.
+ */
+export function foundNation(
+  players: Record<string, Player>,
+  id: string,
+  name: string,
+  color?: string,
+  capital?: string
+): Player {
+  const founded = Object.values(players).filter((p) => p.countryId === p.id).length;
+  return {
+    id,
+    name,
+    color: color ?? FOUNDED_COLORS[founded % FOUNDED_COLORS.length],
+    countryId: id,
+    ...(capital ? { capital } : {}),
+  };
+}
+
+/**
+ * Fill gaps in a loaded registry: saves from before the registry only carry
+ * INITIAL_PLAYERS, and any province owner without an entry gets a placeholder
+ * so it still renders with a name and color.
+ */
+export function ensureNationRegistry(players: Record<string, Player>, provinces: Province[]): Record<string, Player> {
+  const playerCountryId =
+    players[PLAYER_ID]?.countryId ??
+    provinces.find((p) => p.ownerId === PLAYER_ID)?.parentCountryId ??
+    null;
+  const seeded = createNationRegistry(provinces, playerCountryId);
+  const merged: Record<string, Player> = { ...players };
+
+  const knownCountries = new Set(Object.values(players).map((p) => p.countryId).filter(Boolean));
+  for (const [id, nation] of Object.entries(seeded)) {
+    if (id === PLAYER_ID || merged[id] || knownCountries.has(nation.countryId)) continue;
+    merged[id] = nation;
+  }
+
+  for (const p of provinces) {
+    if (p.ownerId && !merged[p.ownerId]) {
+      merged[p.ownerId] = { id: p.ownerId, name: nameFromId(p.ownerId), color: p.color || FALLBACK_COLOR };
+    }
+  }
+
+  return merged;
+}
+
+/** Match a GM-supplied id or display name (case-insensitive) to a registry entry. */
+export function findNation<T extends NationRef>(nations: Iterable<T>, query: string): T | undefined {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return undefined;
+  const list = [...nations];
+  return (
+    list.find((n) => n.id.toLowerCase() === needle) ??
+    list.find((n) => n.name.toLowerCase() === needle) ??
+    list.find((n) => n.id === toNationId(query))
+  );
+}
+
+/** Display name for an id or name; falls back to the input for nations outside the registry. */
+export function nationDisplayName(players: Record<string, Player>, idOrName: string): string {
+  return players[idOrName]?.name ?? idOrName;
+}
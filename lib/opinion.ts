@@ -0,0 +1,231 @@
+import type { DiplomaticRelation, GameState, OpinionModifier, RelationType } from "./types";
+import { nationOfProvince, nationsByCountry } from "./nation-registry";
+
+// Every nation pair carries an opinion score from -100 to 100, the sum of its
+// modifiers. Event modifiers (a broken treaty, a declaration of war, repeated
+// overtures) are stored on the relation and fade with time; situational ones
+// (shared enemies, border friction, treaties in force) are recomputed from the
+// map after every turn. Relation changes must then follow the difficulty's
+// transition rules: a limited step along the war-to-allied ladder, and enough
+// goodwill before relations can warm.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TransitionRules = {
+  /** Most rungs of the ladder a relation may move in one change. */
+  maxStep: number;
+  /** Opinion needed before a pair can become friendly, and allied. */
+  friendlyAt: number;
+  alliedAt: number;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MIN_OPINION = -100;
+const MAX_OPINION = 100;
+
+/** Event modifiers lose half their weight over this many months. */
+const HALF_LIFE_MONTHS = 24;
+/** Stacked event modifiers are capped so one grievance cannot dominate forever. */
+const MAX_EVENT_MODIFIER = 60;
+
+/** Vassalage sits outside the ladder: submitting or breaking free is always allowed. */
+const LADDER: RelationType[] = ["war", "hostile", "neutral", "friendly", "allied"];
+
+/** Sandbox has no rules; unknown difficulties use Realistic. */
+const RULES: Record<string, TransitionRules | null> = {
+  Sandbox: null,
+  Easy: { maxStep: 3, friendlyAt: -10, alliedAt: 10 },
+  Realistic: { maxStep: 2, friendlyAt: 0, alliedAt: 25 },
+  Hardcore: { maxStep: 1, friendlyAt: 10, alliedAt: 40 },
+  Impossible: { maxStep: 1, friendlyAt: 20, alliedAt: 50 },
+};
+
+/** Modifiers recorded when a relation changes. */
+export const OPINION_EVENTS = {
+  overture: { key: "overture", label: "Friendly overtures", value: 10 },
+  grievance: { key: "grievance", label: "Hostile exchanges", value: -10 },
+  war: { key: "war", label: "Declared war", value: -30 },
+} satisfies Record<string, OpinionModifier>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const samePair = (r: DiplomaticRelation, a: string, b: string) =>
+  (r.nationA === a && r.nationB === b) || (r.nationA === b && r.nationB === a);
+
+const pairKey = (a: string, b: string) => [a, b].sort().join("\u0000");
+
+const rulesFor = (difficulty: string) => (difficulty in RULES ? RULES[difficulty] : RULES.Realistic);
+
+const gateFor = (rules: TransitionRules, type: RelationType) =>
+  type === "allied" ? rules.alliedAt : type === "friendly" ? rules.friendlyAt : MIN_OPINION;
+
+/** Count of provinces on each side of every border between two owners, keyed by pair. */
+function borderProvinceCounts(state: Pick<GameState, "provinces" | "players">): Map<string, number> {
+  const countries = nationsByCountry(state.players);
+  const ownerName = new Map<string, string>();
+  for (const p of state.provinces) {
+    const nation = nationOfProvince(p, countries);
+    const name = nation ? state.players[nation]?.name : undefined;
+    if (name) ownerName.set(String(p.id), name);
+  }
+
+  const borders = new Map<string, Set<string>>();
+  for (const p of state.provinces) {
+    const owner = ownerName.get(String(p.id));
+    if (!owner) continue;
+    for (const neighborId of p.neighbors) {
+      const other = ownerName.get(String(neighborId));
+      if (!other || other === owner) continue;
+      const key = pairKey(owner, other);
+      if (!borders.has(key)) borders.set(key, new Set());
+      borders.get(key)!.add(String(p.id));
+    }
+  }
+  return new Map([...borders].map(([key, provinces]) => [key, provinces.size]));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const findRelation = (relations: DiplomaticRelation[], a: string, b: string) =>
+  relations.find((r) => samePair(r, a, b));
+
+export function opinionScore(relation: Pick<DiplomaticRelation, "opinionModifiers"> | null | undefined): number {
+  const total = (relation?.opinionModifiers ?? []).reduce((sum, m) => sum + m.value, 0);
+  return clamp(Math.round(total), MIN_OPINION, MAX_OPINION);
+}
+
+/** "+12", "-40", "0" */
+export const formatOpinion = (score: number) => (score > 0 ? `+${score}` : String(score));
+
+/** +1 if moving from `from` to `to` warms relations, -1 if it cools them, 0 for vassalage. */
+export function relationShift(from: RelationType, to: RelationType): number {
+  if (from === "vassal" || to === "vassal") return 0;
+  return Math.sign(LADDER.indexOf(to) - LADDER.indexOf(from));
+}
+
+/** Record an event modifier on a pair, stacking onto one with the same key. */
+export function addOpinionModifier(
+  relations: DiplomaticRelation[],
+  a: string,
+  b: string,
+  modifier: OpinionModifier
+): DiplomaticRelation[] {
+  const existing = findRelation(relations, a, b);
+  const modifiers = existing?.opinionModifiers ?? [];
+  const previous = modifiers.find((m) => m.key === modifier.key);
+  const value = clamp((previous?.value ?? 0) + modifier.value, -MAX_EVENT_MODIFIER, MAX_EVENT_MODIFIER);
+  const updated: DiplomaticRelation = {
+    ...(existing ?? { nationA: a, nationB: b, type: "neutral", treaties: [] }),
+    opinionModifiers: [...modifiers.filter((m) => m.key !== modifier.key), { ...modifier, value }],
+  };
+  return [...relations.filter((r) => !samePair(r, a, b)), updated];
+}
+
+/**
+ * Fade event modifiers by the months that passed and recompute situational
+ * ones from the map. Only pairs that already have a relation are scored.
+ */
+export function refreshOpinions(
+  relations: DiplomaticRelation[],
+  state: Pick<GameState, "provinces" | "players">,
+  months: number
+): DiplomaticRelation[] {
+  const decay = months > 0 ? Math.pow(0.5, months / HALF_LIFE_MONTHS) : 1;
+  const borders = borderProvinceCounts(state);
+
+  const enemies = new Map<string, Set<string>>();
+  for (const r of relations) {
+    if (r.type !== "war") continue;
+    if (!enemies.has(r.nationA)) enemies.set(r.nationA, new Set());
+    if (!enemies.has(r.nationB)) enemies.set(r.nationB, new Set());
+    enemies.get(r.nationA)!.add(r.nationB);
+    enemies.get(r.nationB)!.add(r.nationA);
+  }
+
+  return relations.map((r) => {
+    const modifiers: OpinionModifier[] = (r.opinionModifiers ?? [])
+      .filter((m) => !m.situational)
+      .map((m) => ({ ...m, value: Math.round(m.value * decay * 10) / 10 }))
+      .filter((m) => Math.abs(m.value) >= 1);
+
+    const shared = [...(enemies.get(r.nationA) ?? [])].filter((e) => enemies.get(r.nationB)?.has(e));
+    if (shared.length > 0) {
+      modifiers.push({
+        key: "shared_enemies",
+        label: `Shared enemies: ${shared.join(", ")}`,
+        value: Math.min(30, 10 * shared.length),
+        situational: true,
+      });
+    }
+    const border = borders.get(pairKey(r.nationA, r.nationB)) ?? 0;
+    if (border > 0) {
+      modifiers.push({
+        key: "border",
+        label: `Border friction (${border} provinces)`,
+        value: -Math.min(20, border),
+        situational: true,
+      });
+    }
+    const inForce = r.treaties.filter((t) => t.status === "active").length;
+    if (inForce > 0) {
+      modifiers.push({
+        key: "treaties",
+        label: "Treaties in force",
+        value: Math.min(15, 5 * inForce),
+        situational: true,
+      });
+    }
+
+    return { ...r, opinionModifiers: modifiers };
+  });
+}
+
+/**
+ * The relation a pair may actually move to when `requested` is asked for.
+ * Moves further than the difficulty allows stop at the furthest legal rung;
+ * `blocked` explains why when the result differs from the request.
+ */
+export function checkTransition(
+  from: RelationType,
+  requested: RelationType,
+  opinion: number,
+  difficulty: string
+): { type: RelationType; blocked: string | null } {
+  const rules = rulesFor(difficulty);
+  if (!rules || from === requested || from === "vassal" || requested === "vassal") {
+    return { type: requested, blocked: null };
+  }
+
+  const start = LADDER.indexOf(from);
+  const target = LADDER.indexOf(requested);
+  const direction = Math.sign(target - start);
+  let rung = start + direction * Math.min(Math.abs(target - start), rules.maxStep);
+  // Warming needs goodwill; fall back rung by rung until the opinion suffices
+  while (direction > 0 && rung > start && opinion < gateFor(rules, LADDER[rung])) rung -= 1;
+
+  const type = LADDER[rung];
+  if (type === requested) return { type, blocked: null };
+  const reason =
+    direction > 0 && opinion < gateFor(rules, requested)
+      ? `${requested} needs opinion ${formatOpinion(gateFor(rules, requested))} (now ${formatOpinion(opinion)})`
+      : `relations move at most ${rules.maxStep} step${rules.maxStep === 1 ? "" : "s"} at a time`;
+  return { type, blocked: reason };
+}
+
+/** One-line summary of the rules for prompts. */
+export function describeTransitionRules(difficulty: string): string {
+  const rules = rulesFor(difficulty);
+  if (!rules) return "Relations may change freely.";
+  return `Relations move along war-hostile-neutral-friendly-allied at most ${rules.maxStep} step${rules.maxStep === 1 ? "" : "s"} per change; friendly needs opinion ${formatOpinion(rules.friendlyAt)} or better, allied ${formatOpinion(rules.alliedAt)}. Vassalage can start or end from any state. Larger requested shifts are cut short.`;
+}
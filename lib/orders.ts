@@ -0,0 +1,96 @@
+import type { Order, OrderCategory, OrderOutcome, OrderPriority, OrderStatus, OrderTarget } from "./types";
+
+// Orders are queued between turns and sent to the Game Master as a numbered
+// list when time advances. The queue order is the order of execution; the
+// priority tells the Game Master where the nation's effort goes when orders
+// compete. The Game Master answers with an outcome per number, which is
+// matched back to the order it was given for.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Optional fields of a new order; the category is guessed from the text when not given. */
+export type OrderOptions = {
+  priority?: OrderPriority;
+  category?: OrderCategory;
+  target?: OrderTarget;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ORDER_PRIORITIES: OrderPriority[] = ["high", "normal", "low"];
+
+export const ORDER_CATEGORIES: OrderCategory[] = ["military", "diplomacy", "economy", "domestic", "espionage", "general"];
+
+export const ORDER_STATUSES: OrderStatus[] = ["succeeded", "partial", "failed"];
+
+/** Keywords that file an order under a category; the first category matched wins. */
+const CATEGORY_KEYWORDS: [OrderCategory, RegExp][] = [
+  ["espionage", /\b(spy|spies|espionage|agents?|infiltrat|sabotage|intelligence|covert)/i],
+  ["military", /\b(war|attack|invade|army|armies|troops|fleet|navy|mobili[sz]e|fortif|siege|military|defend|conquer|march)/i],
+  ["diplomacy", /\b(alliance|ally|treaty|peace|envoy|embassy|negotiat|diplomat|accept|reject|ultimatum|pact|message)/i],
+  ["economy", /\b(trade|tax|econom|industr|market|tariff|infrastructure|gold|budget|invest|build)/i],
+  ["domestic", /\b(reform|law|decree|education|research|technolog|unrest|rebel|court|religio|health|culture)/i],
+];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function guessOrderCategory(text: string): OrderCategory {
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? "general";
+}
+
+export function createOrder(id: string, text: string, options: OrderOptions = {}): Order {
+  return {
+    id,
+    text: text.trim(),
+    priority: options.priority ?? "normal",
+    category: options.category ?? guessOrderCategory(text),
+    ...(options.target ? { target: options.target } : {}),
+  };
+}
+
+export const updateOrder = (orders: Order[], id: string, patch: Partial<Omit<Order, "id">>): Order[] =>
+  orders.map((o) => (o.id === id ? { ...o, ...patch } : o));
+
+export const removeOrder = (orders: Order[], id: string): Order[] => orders.filter((o) => o.id !== id);
+
+/** Move an order `offset` places up (negative) or down the queue, stopping at either end. */
+export function moveOrder(orders: Order[], id: string, offset: number): Order[] {
+  const from = orders.findIndex((o) => o.id === id);
+  if (from === -1) return orders;
+  const to = Math.max(0, Math.min(orders.length - 1, from + offset));
+  if (to === from) return orders;
+  const next = [...orders];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** "[HIGH] [military -> Alsace] Fortify the border" */
+export function formatOrder(order: Order): string {
+  const priority = order.priority === "normal" ? "" : `[${order.priority.toUpperCase()}] `;
+  const target = order.target ? ` -> ${order.target.name}` : "";
+  return `${priority}[${order.category}${target}] ${order.text}`;
+}
+
+/** Numbered ORDERS block for the turn command; numbers are what outcomes refer back to. */
+export const formatOrderList = (orders: Order[]): string =>
+  `ORDERS:\n${orders.map((o, i) => `${i + 1}. ${formatOrder(o)}`).join("\n")}`;
+
+/** Pair each outcome with the order it judges, dropping numbers outside the list. */
+export function matchOutcomes(orders: Order[], outcomes: OrderOutcome[]): { order: Order; outcome: OrderOutcome }[] {
+  const seen = new Set<number>();
+  const matched: { order: Order; outcome: OrderOutcome }[] = [];
+  for (const outcome of outcomes) {
+    const order = orders[outcome.order - 1];
+    if (!order || seen.has(outcome.order)) continue;
+    seen.add(outcome.order);
+    matched.push({ order, outcome });
+  }
+  return matched.sort((a, b) => a.outcome.order - b.outcome.order);
+}
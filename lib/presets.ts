@@ -9,6 +9,7 @@ export const PRESETS: Preset[] = [
     scenario: "It is 2026. The global order is fracturing along new fault lines. The US and China are locked in technological and economic competition. Russia's war in Ukraine has reshaped European security. AI is transforming economies and warfare. Climate disasters strain global cooperation. Regional powers like India, Turkey, Saudi Arabia, and Brazil are asserting independence from traditional blocs. The old rules-based international order is giving way to something new and uncertain.",
     difficulty: "Realistic",
     suggestedNations: ["USA", "China", "Russia", "India", "United Kingdom", "France", "Germany", "Brazil", "Turkey", "Japan"],
+    leaders: { USA: "Donald Trump", China: "Xi Jinping", Russia: "Vladimir Putin", India: "Narendra Modi", "United Kingdom": "Keir Starmer", France: "Emmanuel Macron", Germany: "Friedrich Merz", Brazil: "Luiz Inácio Lula da Silva", Turkey: "Recep Tayyip Erdoğan", Japan: "Sanae Takaichi" },
     category: "modern",
     icon: "globe",
   },
@@ -20,6 +21,7 @@ export const PRESETS: Preset[] = [
     scenario: "September 1, 1939. Nazi Germany has invaded Poland with overwhelming force, unleashing Blitzkrieg warfare. Britain and France have declared war on Germany. The Soviet Union, bound by the Molotov-Ribbentrop Pact, has invaded Poland from the east. Italy under Mussolini wavers. Japan is already at war in China. The United States remains isolationist but watches with growing alarm. The League of Nations has failed. Total war looms over every continent.",
     difficulty: "Hardcore",
     suggestedNations: ["Germany", "United Kingdom", "France", "USA", "Russia", "Japan", "Italy", "China", "Poland", "Canada"],
+    leaders: { Germany: "Adolf Hitler", "United Kingdom": "Neville Chamberlain", France: "Édouard Daladier", USA: "Franklin D. Roosevelt", Russia: "Joseph Stalin", Japan: "Hirohito", Italy: "Benito Mussolini", China: "Chiang Kai-shek", Poland: "Ignacy Mościcki", Canada: "William Lyon Mackenzie King" },
     category: "historical",
     icon: "war",
   },
@@ -31,6 +33,7 @@ export const PRESETS: Preset[] = [
     scenario: "October 16, 1962. U-2 reconnaissance has confirmed Soviet nuclear missiles in Cuba, just 90 miles from Florida. President Kennedy convenes ExComm. The Joint Chiefs want an invasion. Khrushchev insists the missiles are defensive. Castro prepares for invasion. NATO allies are nervous. The world is 13 days from potential nuclear holocaust. Every diplomatic signal, military movement, and backroom deal could determine the fate of civilization.",
     difficulty: "Hardcore",
     suggestedNations: ["USA", "Russia", "Cuba", "United Kingdom", "France", "China", "Germany", "Turkey", "Brazil", "India"],
+    leaders: { USA: "John F. Kennedy", Russia: "Nikita Khrushchev", Cuba: "Fidel Castro", "United Kingdom": "Harold Macmillan", France: "Charles de Gaulle", China: "Mao Zedong", Germany: "Konrad Adenauer", Turkey: "İsmet İnönü", Brazil: "João Goulart", India: "Jawaharlal Nehru" },
     category: "historical",
     icon: "nuke",
   },
@@ -41,7 +44,7 @@ export const PRESETS: Preset[] = [
     year: 476,
     scenario: "The year is 476 AD. Romulus Augustulus, the last Western Roman Emperor, has been deposed by Odoacer. The Western Empire is no more, but the Eastern Roman Empire in Constantinople endures under Emperor Zeno. Barbarian kingdoms carve up the former Roman territories: the Visigoths hold Hispania, the Franks expand in Gaul, the Vandals control North Africa. The Ostrogoths eye Italy. The Sassanid Empire threatens the East. The Pope in Rome gains spiritual authority as temporal power collapses. Trade routes falter, cities shrink, but new civilizations are being born.",
     difficulty: "Realistic",
-    suggestedNations: ["Italy", "Turkey", "France", "Spain", "United Kingdom", "Germany", "Egypt", "Iran", "Tunisia", "Greece"],
+    suggestedNations: ["Kingdom of Odoacer", "Eastern Roman Empire", "Kingdom of the Franks", "Visigothic Kingdom", "Vandal Kingdom", "Ostrogothic Kingdom", "Sasanian Empire", "Sub-Roman Britain", "Gupta Empire", "Northern Wei"],
     category: "historical",
     icon: "crown",
   },
@@ -52,7 +55,7 @@ export const PRESETS: Preset[] = [
     year: 1492,
     scenario: "October 1492. Christopher Columbus has made landfall in the Caribbean, believing he has reached Asia. Spain and Portugal are the dominant naval powers, their rivalry arbitrated by the Pope. England, France, and the Netherlands watch enviously. The Ottoman Empire controls Eastern Mediterranean trade routes, making the search for western passages to Asia urgent. The Aztec and Inca empires flourish in the Americas, unaware of the approaching storm. China under the Ming Dynasty has turned inward after Zheng He's great voyages. The world is about to be connected for the first time.",
     difficulty: "Realistic",
-    suggestedNations: ["Spain", "Portugal", "United Kingdom", "France", "Netherlands", "Turkey", "Italy", "China", "Mexico", "Peru"],
+    suggestedNations: ["Castile and Aragon", "Kingdom of Portugal", "Kingdom of England", "Kingdom of France", "Habsburg Netherlands", "Ottoman Empire", "Italic League", "Ming Dynasty", "Aztec Empire", "Inca Empire"],
     category: "historical",
     icon: "ship",
   },
@@ -64,6 +67,7 @@ export const PRESETS: Preset[] = [
     scenario: "June 28, 1914. Archduke Franz Ferdinand of Austria-Hungary has been assassinated in Sarajevo. The alliance system activates like a chain reaction: Austria-Hungary issues an ultimatum to Serbia. Russia mobilizes to defend Serbia. Germany backs Austria and activates the Schlieffen Plan. France is pulled in by alliance. Belgium's neutrality is violated. Britain enters to honor the Treaty of London. The Ottoman Empire wavers between neutrality and joining the Central Powers. Italy debates which side serves its interests. Japan eyes German colonies in the Pacific. The war everyone expected to be 'over by Christmas' is about to consume a generation.",
     difficulty: "Hardcore",
     suggestedNations: ["United Kingdom", "France", "Germany", "Russia", "Austria", "Turkey", "Italy", "USA", "Japan", "Serbia"],
+    leaders: { "United Kingdom": "H. H. Asquith", France: "Raymond Poincaré", Germany: "Wilhelm II", Russia: "Nicholas II", Austria: "Franz Joseph I", Turkey: "Mehmed V", Italy: "Victor Emmanuel III", USA: "Woodrow Wilson", Japan: "Emperor Taishō", Serbia: "Peter I" },
     category: "historical",
     icon: "war",
   },
@@ -75,6 +79,7 @@ export const PRESETS: Preset[] = [
     scenario: "November 1799. Napoleon Bonaparte has overthrown the Directory in a coup d'etat and declared himself First Consul of France. The French Revolution has terrified every monarchy in Europe. Coalition wars rage. Britain rules the seas but struggles on land. Austria and Prussia contest Central Europe. Russia under Tsar Paul I is unpredictable. The Ottoman Empire declines. Spain is weakened. The Haitian Revolution shakes colonial powers. Revolutionary ideals of liberty, equality, and fraternity clash with the old order of kings and empires. Napoleon dreams of remaking Europe.",
     difficulty: "Realistic",
     suggestedNations: ["France", "United Kingdom", "Austria", "Russia", "Spain", "Germany", "Italy", "Netherlands", "Turkey", "Egypt"],
+    leaders: { France: "Napoleon Bonaparte", "United Kingdom": "William Pitt the Younger", Austria: "Francis II", Russia: "Paul I", Spain: "Charles IV", Germany: "Frederick William III", Turkey: "Selim III" },
     category: "historical",
     icon: "crown",
   },
@@ -141,6 +146,7 @@ export const PRESETS: Preset[] = [
     scenario: "The year is 1206. Temujin has united the warring Mongol and Turkic tribes of the steppe, and at a great kurultai he has been proclaimed Genghis Khan — universal ruler. His disciplined cavalry armies, organized into tumens of ten thousand, are the most mobile and lethal fighting force the world has ever seen. The Jin Dynasty controls northern China but is weakened by corruption. The Khwarezmian Empire rules Central Asia and Persia. The Song Dynasty flourishes in southern China. The Abbasid Caliphate holds spiritual authority in Baghdad. Crusader states cling to the Levant. Russia is a patchwork of feuding principalities. None suspect that within a generation, Mongol armies will reach from Korea to Hungary, reshaping civilizations and connecting East and West along the Silk Road as never before.",
     difficulty: "Hardcore",
     suggestedNations: ["Mongolia", "China", "Iran", "Russia", "Turkey", "India", "South Korea", "Iraq", "Poland", "Egypt"],
+    leaders: { Mongolia: "Genghis Khan", Iran: "Muhammad II of Khwarezm", Turkey: "Kaykhusraw I", India: "Qutb ud-Din Aibak", Iraq: "al-Nasir", Egypt: "al-Adil I" },
     category: "historical",
     icon: "sword",
   },
@@ -152,6 +158,7 @@ export const PRESETS: Preset[] = [
     scenario: "May 29, 1453. Constantinople, the last bastion of the Roman Empire, has fallen to Sultan Mehmed II and his Ottoman armies. The shock reverberates across Christendom. Greek scholars flee west, carrying ancient manuscripts that will fuel the Italian Renaissance. In Florence, the Medici family patronizes artists and thinkers. Gutenberg is perfecting his printing press in Mainz. The Hundred Years' War between England and France nears its end. Spain's Reconquista is pushing the Moors south. Portugal under Prince Henry the Navigator explores the African coast. The feudal order is cracking as trade cities grow wealthy and gunpowder renders castle walls obsolete. A new world of ideas, exploration, and power is dawning.",
     difficulty: "Realistic",
     suggestedNations: ["Turkey", "Italy", "France", "United Kingdom", "Spain", "Portugal", "Germany", "Austria", "Russia", "Egypt"],
+    leaders: { Turkey: "Mehmed II", France: "Charles VII", "United Kingdom": "Henry VI", Spain: "John II of Castile", Portugal: "Afonso V", Germany: "Frederick III", Russia: "Vasily II", Egypt: "Sayf ad-Din Inal" },
     category: "historical",
     icon: "crown",
   },
@@ -196,6 +203,7 @@ export const PRESETS: Preset[] = [
     scenario: "It is 1900, and the British Empire is at its absolute zenith — but in this timeline, it is even stronger. Strategic marriages, diplomatic masterstrokes, and industrial innovation have prevented the rise of serious challengers. Germany was kept divided. The US remains a junior partner. Russia's expansion was checked in the Great Game. Japan is a close ally rather than a rival. The Empire controls a quarter of the world's land and a third of its population. The Royal Navy is unchallenged. But cracks are showing: colonial subjects demand self-governance, socialist movements grow in industrial cities, new technologies like the automobile and airplane threaten to shift power. Can Britannia maintain its global hegemony into the 20th century, or will the forces of nationalism, ideology, and technology tear the greatest empire apart?",
     difficulty: "Realistic",
     suggestedNations: ["United Kingdom", "France", "Germany", "Russia", "USA", "Japan", "India", "Turkey", "China", "Australia"],
+    leaders: { "United Kingdom": "Queen Victoria", France: "Émile Loubet", Germany: "Wilhelm II", Russia: "Nicholas II", USA: "William McKinley", Japan: "Emperor Meiji", Turkey: "Abdul Hamid II", China: "Empress Dowager Cixi" },
     category: "alternate",
     icon: "flag",
   },
@@ -0,0 +1,305 @@
+import { Province } from "./types";
+
+// Resolves free-text province names from the Game Master ("California",
+// "Persia", "Northeast China", "Untied Kingdom") to map provinces.
+// Every province is indexed under its display name, base name, id / ISO code,
+// parent country, curated aliases, historical names and admin-1 state names;
+// anything else falls back to fuzzy matching. Results carry a confidence and
+// alternatives so callers can report ambiguous or unmatched names.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ResolvableProvince = Pick<Province, "id" | "name"> &
+  Partial<Pick<Province, "parentCountryId" | "parentCountryName" | "isSubNational">>;
+
+export type MatchKind = "name" | "id" | "alias" | "state" | "historical" | "country" | "fuzzy";
+
+export interface ProvinceCandidate {
+  id: string | number;
+  name: string;
+  confidence: number;
+  matchedOn: MatchKind;
+}
+
+export interface ProvinceResolution {
+  status: "matched" | "ambiguous" | "unmatched";
+  /** Set only when status is "matched". */
+  province: ProvinceCandidate | null;
+  /** Next-best candidates, best first. For ambiguous results this includes every tied candidate. */
+  alternatives: ProvinceCandidate[];
+}
+
+export interface ProvinceResolver {
+  resolve: (query: string) => ProvinceResolution;
+}
+
+/** Admin-1 state name and the combined-map region it belongs to. */
+export type StateAlias = { name: string; regionId: string };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MIN_CONFIDENCE = 0.7;
+const AMBIGUITY_MARGIN = 0.05;
+const MAX_ALTERNATIVES = 3;
+
+const CONFIDENCE: Record<MatchKind, number> = {
+  name: 1,
+  id: 0.95,
+  alias: 0.9,
+  state: 0.9,
+  historical: 0.85,
+  country: 0.8,
+  fuzzy: 0.85, // scaled by string similarity
+};
+
+/** Common alternative names, keyed to the country name used on the map. */
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  USA: ["United States", "United States of America", "US", "U.S.", "America"],
+  "United Kingdom": ["UK", "Britain", "Great Britain", "England"],
+  Russia: ["Russian Federation"],
+  Czechia: ["Czech Republic"],
+  "Dem. Rep. Congo": ["Democratic Republic of the Congo", "DRC", "DR Congo", "Congo-Kinshasa"],
+  Congo: ["Republic of the Congo", "Congo-Brazzaville"],
+  "Bosnia and Herz.": ["Bosnia and Herzegovina", "Bosnia"],
+  "Central African Rep.": ["Central African Republic", "CAR"],
+  "Dominican Rep.": ["Dominican Republic"],
+  "Cote d'Ivoire": ["Ivory Coast"],
+  "South Korea": ["Republic of Korea", "ROK", "Korea"],
+  "North Korea": ["DPRK", "Democratic People's Republic of Korea"],
+  "United Arab Emirates": ["UAE", "Emirates"],
+  Netherlands: ["Holland"],
+  Turkey: ["Turkiye"],
+  Eswatini: ["Swaziland"],
+  "North Macedonia": ["Macedonia"],
+  "Cape Verde": ["Cabo Verde"],
+  "Timor-Leste": ["East Timor"],
+  Vatican: ["Vatican City", "Holy See"],
+  Palestine: ["Palestinian Territories", "Gaza", "West Bank"],
+  Myanmar: ["Burma"],
+  China: ["PRC", "People's Republic of China", "Mainland China"],
+  Taiwan: ["Republic of China", "ROC"],
+  Iran: ["Islamic Republic of Iran"],
+  Syria: ["Syrian Arab Republic"],
+  Laos: ["Lao PDR"],
+  Vietnam: ["Viet Nam"],
+};
+
+/** Historical and period names, keyed to the modern country on the map. */
+const HISTORICAL_NAMES: Record<string, string[]> = {
+  Iran: ["Persia"],
+  Thailand: ["Siam"],
+  "Sri Lanka": ["Ceylon"],
+  "Dem. Rep. Congo": ["Zaire", "Belgian Congo"],
+  Zimbabwe: ["Rhodesia", "Southern Rhodesia"],
+  Zambia: ["Northern Rhodesia"],
+  Germany: ["Prussia", "German Empire", "West Germany", "Holy Roman Empire"],
+  Russia: ["Soviet Union", "USSR", "Muscovy", "Russian Empire"],
+  Turkey: ["Ottoman Empire", "Anatolia"],
+  Ethiopia: ["Abyssinia"],
+  Taiwan: ["Formosa"],
+  Cambodia: ["Kampuchea"],
+  Benin: ["Dahomey"],
+  "Burkina Faso": ["Upper Volta"],
+  Ghana: ["Gold Coast"],
+  Botswana: ["Bechuanaland"],
+  Malawi: ["Nyasaland"],
+  Tanzania: ["Tanganyika"],
+  Bangladesh: ["East Pakistan", "Bengal"],
+  Iraq: ["Mesopotamia"],
+  France: ["Gaul"],
+  Spain: ["Hispania", "Castile"],
+  Japan: ["Nippon"],
+  China: ["Cathay", "Qing", "Ming"],
+  India: ["Hindustan", "British Raj"],
+  Egypt: ["United Arab Republic"],
+  Austria: ["Austria-Hungary", "Habsburg Empire"],
+  Mexico: ["New Spain"],
+  Indonesia: ["Dutch East Indies"],
+  Namibia: ["South West Africa"],
+  Mali: ["French Sudan"],
+  Mongolia: ["Mongol Empire"],
+  "United Kingdom": ["British Empire", "Albion"],
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Lowercase, strip accents and punctuation, collapse whitespace, drop a leading "the". */
+export const normalizeProvinceName = (raw: string): string =>
+  raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+
+/** "Central Provinces (China) (China)" -> "Central Provinces" */
+const stripParentheticals = (name: string): string => name.replace(/(\s*\([^)]*\))+\s*$/, "").trim();
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/** 0..1 similarity: the better of edit distance and shared-word overlap. */
+const similarity = (a: string, b: string): number => {
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const tokensA = new Set(a.split(" "));
+  const tokensB = new Set(b.split(" "));
+  const shared = [...tokensA].filter((t) => tokensB.has(t)).length;
+  const overlap = shared / Math.max(tokensA.size, tokensB.size);
+  return Math.max(edit, overlap * 0.9);
+};
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+type IndexEntry = { province: ResolvableProvince; matchedOn: MatchKind };
+
+export function createProvinceResolver(
+  provinces: ResolvableProvince[],
+  stateAliases: StateAlias[] = []
+): ProvinceResolver {
+  const index = new Map<string, IndexEntry[]>();
+  const byId = new Map(provinces.map((p) => [String(p.id), p]));
+
+  const add = (rawKey: string, province: ResolvableProvince, matchedOn: MatchKind) => {
+    const key = normalizeProvinceName(rawKey);
+    if (!key) return;
+    const entries = index.get(key) ?? [];
+    if (!entries.some((e) => e.province.id === province.id && CONFIDENCE[e.matchedOn] >= CONFIDENCE[matchedOn])) {
+      index.set(key, [...entries.filter((e) => e.province.id !== province.id), { province, matchedOn }]);
+    }
+  };
+
+  // Provinces of a country, or the country's single province when it is not subdivided
+  const byCountry = new Map<string, ResolvableProvince[]>();
+  for (const p of provinces) {
+    const country = p.parentCountryName || p.name;
+    byCountry.set(country, [...(byCountry.get(country) ?? []), p]);
+  }
+
+  for (const p of provinces) {
+    add(p.name, p, "name");
+    add(stripParentheticals(p.name), p, "name");
+    add(String(p.id), p, "id");
+    if (p.isSubNational) {
+      if (p.parentCountryName) add(p.parentCountryName, p, "country");
+      const isoPrefix = String(p.id).split("_")[0];
+      if (isoPrefix !== String(p.id)) add(isoPrefix, p, "country");
+    }
+    if (p.parentCountryId && !p.isSubNational) add(p.parentCountryId, p, "id");
+  }
+
+  const addNamed = (table: Record<string, string[]>, matchedOn: MatchKind) => {
+    for (const [country, names] of Object.entries(table)) {
+      for (const p of byCountry.get(country) ?? []) {
+        names.forEach((n) => add(n, p, p.isSubNational ? "country" : matchedOn));
+      }
+    }
+  };
+  addNamed(COUNTRY_ALIASES, "alias");
+  addNamed(HISTORICAL_NAMES, "historical");
+
+  for (const { name, regionId } of stateAliases) {
+    const p = byId.get(regionId);
+    if (p) add(name, p, "state");
+  }
+
+  const keys = [...index.keys()];
+
+  const resolve = (query: string): ProvinceResolution => {
+    const q = normalizeProvinceName(query);
+    const best = new Map<string, ProvinceCandidate>();
+    const consider = (entry: IndexEntry, confidence: number, matchedOn: MatchKind) => {
+      const id = String(entry.province.id);
+      const existing = best.get(id);
+      if (!existing || existing.confidence < confidence) {
+        best.set(id, { id: entry.province.id, name: entry.province.name, confidence, matchedOn });
+      }
+    };
+
+    if (q) {
+      for (const entry of index.get(q) ?? []) consider(entry, CONFIDENCE[entry.matchedOn], entry.matchedOn);
+
+      // Fuzzy pass only when nothing matched outright
+      if (best.size === 0) {
+        for (const key of keys) {
+          const score = similarity(q, key);
+          if (score * CONFIDENCE.fuzzy < MIN_CONFIDENCE * 0.75) continue;
+          for (const entry of index.get(key)!) {
+            consider(entry, Math.min(CONFIDENCE[entry.matchedOn], score * CONFIDENCE.fuzzy), "fuzzy");
+          }
+        }
+      }
+    }
+
+    const ranked = [...best.values()]
+      .map((c) => ({ ...c, confidence: Math.round(c.confidence * 100) / 100 }))
+      .sort((a, b) => b.confidence - a.confidence);
+    const top = ranked[0];
+
+    if (!top || top.confidence < MIN_CONFIDENCE) {
+      return { status: "unmatched", province: null, alternatives: ranked.slice(0, MAX_ALTERNATIVES) };
+    }
+
+    const tied = ranked.filter((c) => top.confidence - c.confidence < AMBIGUITY_MARGIN);
+    if (tied.length > 1) {
+      return { status: "ambiguous", province: null, alternatives: tied };
+    }
+
+    return { status: "matched", province: top, alternatives: ranked.slice(1, 1 + MAX_ALTERNATIVES) };
+  };
+
+  return { resolve };
+}
+
+// ---------------------------------------------------------------------------
+// State aliases
+// ---------------------------------------------------------------------------
+
+let stateAliasesPromise: Promise<StateAlias[]> | null = null;
+
+/** Admin-1 state names (e.g. "California" -> "USA_west_coast") from the tier-3 map layer. Cached. */
+export function loadStateAliases(): Promise<StateAlias[]> {
+  if (!stateAliasesPromise) {
+    stateAliasesPromise = fetch("/admin1-detail.json")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load admin-1 names");
+        return res.json();
+      })
+      .then((topology) =>
+        // Only the properties are needed, so skip decoding geometry
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (topology.objects?.states?.geometries ?? []).flatMap((g: any) => {
+          const { displayName, regionId } = g.properties || {};
+          return displayName && regionId ? [{ name: displayName, regionId }] : [];
+        })
+      )
+      .catch((error) => {
+        console.error("State alias loading error:", error);
+        stateAliasesPromise = null;
+        return [];
+      });
+  }
+  return stateAliasesPromise;
+}
@@ -0,0 +1,170 @@
+import type { ProvinceResources, ResourceKey } from "./types";
+
+// Province resources start from present-day figures in provinces-combined.json
+// and are moved by `resource` updates from the Game Master. Deltas are clamped
+// to bounds that fit the game's era, so a medieval duchy cannot research
+// jet engines and an ancient city cannot grow to a billion people.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Bounds = { min: number; max: number };
+
+type EraBounds = {
+  /** Exclusive upper year; mirrors the era breaks in buildGeopoliticalContext. */
+  until: number;
+  label: string;
+  bounds: Record<ResourceKey, Bounds>;
+};
+
+export interface ResourceDeltaResult {
+  resources: ProvinceResources;
+  /** Change actually applied after clamping and rounding (0 if fully clamped). */
+  applied: number;
+  /** True when the era's bounds cut the change short. */
+  clamped: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const RESOURCE_KEYS: ResourceKey[] = ["population", "defense", "economy", "technology"];
+
+const ERA_BOUNDS: EraBounds[] = [
+  {
+    until: 500,
+    label: "Ancient",
+    bounds: {
+      population: { min: 0, max: 60 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 50 },
+      technology: { min: 1, max: 3 },
+    },
+  },
+  {
+    until: 1500,
+    label: "Medieval",
+    bounds: {
+      population: { min: 0, max: 120 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 100 },
+      technology: { min: 1, max: 4 },
+    },
+  },
+  {
+    until: 1800,
+    label: "Early Modern",
+    bounds: {
+      population: { min: 0, max: 250 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 300 },
+      technology: { min: 1, max: 6 },
+    },
+  },
+  {
+    until: 1945,
+    label: "Modern",
+    bounds: {
+      population: { min: 0, max: 600 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 1500 },
+      technology: { min: 1, max: 8 },
+    },
+  },
+  {
+    until: 1991,
+    label: "Cold War",
+    bounds: {
+      population: { min: 0, max: 1200 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 6000 },
+      technology: { min: 1, max: 9 },
+    },
+  },
+  {
+    until: 2026,
+    label: "Contemporary",
+    bounds: {
+      population: { min: 0, max: 1500 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 30000 },
+      technology: { min: 1, max: 10 },
+    },
+  },
+  {
+    until: Infinity,
+    label: "Future",
+    bounds: {
+      population: { min: 0, max: 2000 },
+      defense: { min: 1, max: 10 },
+      economy: { min: 0, max: 60000 },
+      technology: { min: 1, max: 10 },
+    },
+  },
+];
+
+/** Decimal places kept per resource; defense and technology are whole levels. */
+const PRECISION: Record<ResourceKey, number> = {
+  population: 3,
+  defense: 0,
+  economy: 2,
+  technology: 0,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export function isResourceKey(value: unknown): value is ResourceKey {
+  return RESOURCE_KEYS.includes(value as ResourceKey);
+}
+
+/** A delta at the precision its resource is kept at; 0 when it is too small to register. */
+export function roundResourceDelta(key: ResourceKey, delta: number): number {
+  return round(delta, PRECISION[key]);
+}
+
+export function getEraBounds(year: number): EraBounds {
+  return ERA_BOUNDS.find((era) => year < era.until) ?? ERA_BOUNDS[ERA_BOUNDS.length - 1];
+}
+
+/**
+ * Apply `delta` to one resource, clamped to the era's bounds. Loaded values can
+ * already sit outside the bounds (the map data is present-day), so clamping
+ * only stops a delta from pushing further out — it never snaps a value back.
+ */
+export function applyResourceDelta(
+  resources: ProvinceResources,
+  key: ResourceKey,
+  delta: number,
+  year: number
+): ResourceDeltaResult {
+  const { min, max } = getEraBounds(year).bounds[key];
+  const current = resources[key];
+  const step = roundResourceDelta(key, delta);
+  const unclamped = round(current + step, PRECISION[key]);
+  let next = current + step;
+  if (step > 0) next = Math.min(next, Math.max(current, max));
+  if (step < 0) next = Math.max(next, Math.min(current, min));
+  next = round(next, PRECISION[key]);
+
+  return {
+    resources: { ...resources, [key]: next },
+    applied: round(next - current, PRECISION[key]),
+    clamped: next !== unclamped,
+  };
+}
+
+/** Signed, compact delta label such as "+1.5" or "-2". */
+export function formatResourceDelta(delta: number): string {
+  const abs = Math.abs(delta);
+  const text = abs >= 100 ? abs.toFixed(0) : abs >= 1 ? String(round(abs, 1)) : String(round(abs, 3));
+  return `${delta > 0 ? "+" : "-"}${text}`;
+}
@@ -0,0 +1,170 @@
+import type {
+  DiplomaticRelation,
+  GameDate,
+  NationRenameEntry,
+  RelationChangeEntry,
+  RelationChangeSource,
+  RelationLedgerEntry,
+  RelationType,
+} from "./types";
+import { formatGameMonth } from "./calendar";
+
+// The relation ledger is the append-only history of every change to a pair's
+// relation type. Relations only hold a pair's current standing; entries are
+// written by diffing relations before and after a change, so a treaty that
+// moves several pairs at once leaves one entry per pair. Prompts get the
+// ledger summarised per pair rather than entry by entry.
+//
+// Nothing is ever rewritten or dropped: a renamed nation gets a rename entry,
+// and readers see earlier entries under the nation's current name.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Why and where a batch of relation changes happened. */
+export type LedgerContext = {
+  date: GameDate;
+  cause: string;
+  source: RelationChangeSource;
+  message?: string;
+};
+
+/** A pair's history at a glance: the types it went through, oldest first. */
+export type PairHistory = {
+  nationA: string;
+  nationB: string;
+  path: RelationType[];
+  changes: number;
+  since: GameDate;
+  last: RelationChangeEntry;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Longest cause or chat message kept on an entry. */
+const MAX_TEXT = 200;
+/** Types shown in a summarised path before it is cut short. */
+const MAX_PATH = 5;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const pairKey = (a: string, b: string) => [a, b].sort().join("\u0000");
+
+const clip = (text: string) => (text.length > MAX_TEXT ? `${text.slice(0, MAX_TEXT - 1)}…` : text);
+
+function uid(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `id-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** One entry per pair whose relation type differs between `before` and `after`; new pairs start neutral. */
+export function ledgerEntries(
+  before: DiplomaticRelation[],
+  after: DiplomaticRelation[],
+  context: LedgerContext
+): RelationChangeEntry[] {
+  const previous = new Map(before.map((r) => [pairKey(r.nationA, r.nationB), r.type]));
+  return after.flatMap((r) => {
+    const from = previous.get(pairKey(r.nationA, r.nationB)) ?? "neutral";
+    if (from === r.type) return [];
+    return [
+      {
+        id: uid(),
+        nationA: r.nationA,
+        nationB: r.nationB,
+        from,
+        to: r.type,
+        date: context.date,
+        cause: clip(context.cause.trim()) || "No reason recorded",
+        source: context.source,
+        ...(context.message ? { message: clip(context.message.trim()) } : {}),
+      },
+    ];
+  });
+}
+
+/** Entries recording each nation's new name, in the order the renames happened. */
+export const renameEntries = (renames: [string, string][], date: GameDate): NationRenameEntry[] =>
+  renames.filter(([from, to]) => from !== to).map(([from, to]) => ({ id: uid(), kind: "rename", from, to, date }));
+
+export function appendLedger(ledger: RelationLedgerEntry[], entries: RelationLedgerEntry[]): RelationLedgerEntry[] {
+  return entries.length === 0 ? ledger : [...ledger, ...entries];
+}
+
+/**
+ * The relation changes, oldest first, with every nation under the name it
+ * goes by now. Walking backwards, each rename applies to the entries before it.
+ */
+export function resolveLedger(ledger: RelationLedgerEntry[]): RelationChangeEntry[] {
+  const current = new Map<string, string>();
+  const nameOf = (name: string) => current.get(name) ?? name;
+  const changes: RelationChangeEntry[] = [];
+  for (let i = ledger.length - 1; i >= 0; i--) {
+    const e = ledger[i];
+    if (e.kind === "rename") {
+      current.set(e.from, nameOf(e.to));
+      continue;
+    }
+    const nationA = nameOf(e.nationA);
+    const nationB = nameOf(e.nationB);
+    changes.push(nationA === e.nationA && nationB === e.nationB ? e : { ...e, nationA, nationB });
+  }
+  return changes.reverse();
+}
+
+/**
+ * Put the ledger back to what a timeline snapshot resolves to. Snapshots from
+ * before the ledger was stored whole keep only the newest entries, so the live
+ * entries before the snapshot's first one are kept; if that entry is gone the
+ * snapshot's entries are all there is.
+ */
+export function restoreLedger(current: RelationLedgerEntry[], saved: RelationLedgerEntry[]): RelationLedgerEntry[] {
+  if (saved.length === 0) return [];
+  const start = current.findIndex((e) => e.id === saved[0].id);
+  return start === -1 ? saved : [...current.slice(0, start), ...saved];
+}
+
+/** Relation changes involving `nation`, oldest first. */
+export const nationLedger = (ledger: RelationLedgerEntry[], nation: string) =>
+  resolveLedger(ledger).filter((e) => e.nationA === nation || e.nationB === nation);
+
+/** The last `max` relation changes between members of `nations`, or across the whole ledger without it. */
+export function recentLedger(ledger: RelationLedgerEntry[], max: number, nations?: string[]): RelationChangeEntry[] {
+  const members = nations ? new Set(nations) : null;
+  const changes = resolveLedger(ledger);
+  const matching = members ? changes.filter((e) => members.has(e.nationA) && members.has(e.nationB)) : changes;
+  return matching.slice(-max);
+}
+
+/** Group relation changes by pair, most recently changed pair first. */
+export function summarizeLedger(entries: RelationChangeEntry[]): PairHistory[] {
+  const pairs = new Map<string, PairHistory>();
+  for (const e of entries) {
+    const key = pairKey(e.nationA, e.nationB);
+    const pair = pairs.get(key);
+    // Re-inserting keeps the map ordered by each pair's latest change
+    pairs.delete(key);
+    pairs.set(
+      key,
+      pair
+        ? { ...pair, path: [...pair.path, e.to].slice(-MAX_PATH), changes: pair.changes + 1, last: e }
+        : { nationA: e.nationA, nationB: e.nationB, path: [e.from, e.to], changes: 1, since: e.date, last: e }
+    );
+  }
+  return [...pairs.values()].reverse();
+}
+
+/** "Mar 1805: hostile → war (Border clash at Ulm)" */
+export const describeLedgerEntry = (entry: RelationChangeEntry) =>
+  `${formatGameMonth(entry.date)}: ${entry.from} → ${entry.to} (${entry.cause})`;
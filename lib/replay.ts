@@ -0,0 +1,88 @@
+import type { DiplomaticRelation, GameState, Player, Province, TimelineSnapshot, TimelineState } from "./types";
+import { getGameDate } from "./calendar";
+import { applyIntel, perceiveProvinces, ProvinceIntel } from "./intelligence";
+import { restoreTimelineGameState } from "./timeline";
+
+// A replay steps the map through the snapshots of one branch, from the first
+// recorded turn to the chosen snapshot. Each frame is built the way a rewind
+// would put the map back, so colors, nation names and, under fog of war, what
+// the player knew at the time all match the turn being shown. Nothing is
+// written to the game state.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReplayFrame = {
+  snapshot: TimelineSnapshot;
+  provinces: Province[];
+  players: Record<string, Player>;
+  relations: DiplomaticRelation[];
+  /** What the player knew on this turn; null without fog of war. */
+  intel: Map<string, ProvinceIntel> | null;
+  /** Descriptions of the events first recorded on this turn. */
+  captions: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Playback speeds, as multiples of the base frame time. */
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+/** How long one turn stays on screen at 1x. */
+export const REPLAY_FRAME_MS = 2000;
+
+const MAX_CAPTIONS = 4;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Snapshots from the root of the tree down to `snapshotId`, oldest first. */
+export function replayPath(snapshots: TimelineSnapshot[], snapshotId: string): TimelineSnapshot[] {
+  const byId = new Map(snapshots.map((s) => [s.id, s]));
+  const path: TimelineSnapshot[] = [];
+  const seen = new Set<string>();
+  let snapshot = byId.get(snapshotId);
+  while (snapshot && !seen.has(snapshot.id)) {
+    seen.add(snapshot.id);
+    path.unshift(snapshot);
+    snapshot = snapshot.parentSnapshotId ? byId.get(snapshot.parentSnapshotId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Events a snapshot recorded that its parent did not have. The first
+ * snapshot has nothing to compare with, so it shows its own year's events.
+ * Falls back to the snapshot description when the turn had no events.
+ */
+export function replayCaptions(snapshot: TimelineSnapshot, parent: TimelineSnapshot | null): string[] {
+  const { events } = snapshot.gameStateSlim;
+  const known = parent ? new Set(parent.gameStateSlim.events.map((e) => e.id)) : null;
+  const fresh = known ? events.filter((e) => !known.has(e.id)) : events.filter((e) => e.year === snapshot.turnYear);
+  const captions = fresh.slice(-MAX_CAPTIONS).map((e) => e.description);
+  return captions.length > 0 ? captions : [snapshot.description];
+}
+
+/** The map as it stood on a snapshot, laid over the current provinces; `resolved` is its resolved state. */
+export function buildReplayFrame(
+  current: GameState,
+  snapshot: TimelineSnapshot,
+  resolved: TimelineState,
+  parent: TimelineSnapshot | null
+): ReplayFrame {
+  const state = restoreTimelineGameState(current, resolved);
+  const { relations } = resolved;
+  const intel = state.intel ? perceiveProvinces(state, relations, getGameDate(state)) : null;
+  return {
+    snapshot,
+    provinces: intel ? applyIntel(state.provinces, intel) : state.provinces,
+    players: state.players,
+    relations,
+    intel,
+    captions: replayCaptions(snapshot, parent),
+  };
+}
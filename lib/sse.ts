@@ -0,0 +1,47 @@
+// Minimal Server-Sent Events helpers shared by the cli-bridge client,
+// streaming API routes and the client hooks that consume them.
+// Every event is a single `data: <json>` line; the stream ends with `data: [DONE]`.
+
+export type SsePayload = Record<string, unknown>;
+
+/** Encode one SSE event. Pass "[DONE]" to terminate the stream. */
+export const encodeSse = (payload: SsePayload | "[DONE]"): string =>
+  `data: ${payload === "[DONE]" ? payload : JSON.stringify(payload)}\n\n`;
+
+/**
+ * Read an SSE body to completion, calling onEvent for every JSON payload.
+ * Malformed lines are skipped; a payload carrying `error` is thrown.
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array> | null,
+  onEvent: (payload: SsePayload) => void
+): Promise<void> {
+  const reader = body?.getReader();
+  if (!reader) throw new Error("Response has no readable stream");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue;
+      const payload = line.slice(6).trim();
+      if (payload === "[DONE]") continue;
+      try {
+        const parsed = JSON.parse(payload);
+        if (parsed.error) throw new Error(parsed.error);
+        onEvent(parsed);
+      } catch (e) {
+        if (e instanceof SyntaxError) continue;
+        throw e;
+      }
+    }
+  }
+}
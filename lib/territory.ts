@@ -0,0 +1,212 @@
+import { geoCentroid } from "d3-geo";
+import type {
+  ChatThread,
+  DiplomaticRelation,
+  Province,
+  ProvinceEdits,
+  ProvinceResources,
+} from "./types";
+
+// Territorial changes beyond a change of owner: provinces can be renamed,
+// transferred into another nation's map country (cessions, secessions) and
+// merged into one. An edited province keeps the province it was before its
+// first edit in `original`, and a merged one keeps the provinces it absorbed,
+// so the map can always be taken back to how it was loaded and the edits
+// replayed on top: that is how saves and timeline snapshots store them.
+//
+// Nations are renamed in the registry, but relations, treaties and chat threads
+// name nations by display name, so they are carried over here too. The ledger
+// is append-only and records the rename as an entry of its own instead.
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const countryOf = (p: Province) => p.parentCountryId || String(p.id);
+
+const originalOf = (p: Province): Province => p.original ?? p;
+
+/** Apply a structural change, remembering the province as it was before the first one. */
+const edit = (p: Province, patch: Partial<Province>): Province => ({ ...p, ...patch, original: originalOf(p) });
+
+const polygonsOf = (geometry: { type?: string; coordinates?: unknown } | undefined): unknown[] => {
+  if (geometry?.type === "Polygon") return [geometry.coordinates];
+  if (geometry?.type === "MultiPolygon") return geometry.coordinates as unknown[];
+  return [];
+};
+
+/** Population and economy add up; defense and technology average, weighted by population. */
+const combineResources = (all: ProvinceResources[]): ProvinceResources => {
+  const population = all.reduce((sum, r) => sum + r.population, 0);
+  const weighted = (key: "defense" | "technology") =>
+    Math.round(
+      population > 0
+        ? all.reduce((sum, r) => sum + r[key] * r.population, 0) / population
+        : all.reduce((sum, r) => sum + r[key], 0) / all.length
+    );
+  return {
+    population: Math.round(population * 100) / 100,
+    economy: Math.round(all.reduce((sum, r) => sum + r.economy, 0) * 100) / 100,
+    defense: weighted("defense"),
+    technology: weighted("technology"),
+  };
+};
+
+const renameIn = (names: string[], from: string, to: string) => names.map((n) => (n === from ? to : n));
+
+// ---------------------------------------------------------------------------
+// Province edits
+// ---------------------------------------------------------------------------
+
+export function renameProvince(provinces: Province[], id: string, name: string): Province[] {
+  return provinces.map((p) => (String(p.id) === id ? edit(p, { name }) : p));
+}
+
+/**
+ * Make provinces part of another map country; their owner is set separately.
+ * They take the name the country's other provinces go by, or `countryName`
+ * when it has none left (a nation founded on them).
+ */
+export function transferProvinces(provinces: Province[], ids: string[], countryId: string, countryName: string): Province[] {
+  const moving = new Set(ids);
+  const member = provinces.find((p) => countryOf(p) === countryId && !moving.has(String(p.id)));
+  const name = member ? member.parentCountryName || member.name : countryName;
+  return provinces.map((p) =>
+    moving.has(String(p.id)) ? edit(p, { parentCountryId: countryId, parentCountryName: name, isSubNational: true }) : p
+  );
+}
+
+/** Rename a map country on every province it has, so the country-level map and name lookups follow. */
+export function renameCountry(provinces: Province[], countryId: string, name: string): Province[] {
+  return provinces.map((p) =>
+    countryOf(p) === countryId && p.parentCountryName !== name
+      ? edit(p, { parentCountryId: countryId, parentCountryName: name })
+      : p
+  );
+}
+
+/**
+ * Merge provinces into the first one listed, which keeps its id, owner and
+ * country. Neighbors that bordered an absorbed province now border the merged one.
+ */
+export function mergeProvinces(provinces: Province[], ids: string[], name?: string): Province[] {
+  const byId = new Map(provinces.map((p) => [String(p.id), p]));
+  const group = [...new Set(ids)].map((id) => byId.get(id)).filter((p): p is Province => !!p);
+  if (group.length < 2) return provinces;
+
+  const [survivor, ...absorbed] = group;
+  const groupIds = new Set(group.map((p) => String(p.id)));
+  const absorbedIds = new Set(absorbed.map((p) => String(p.id)));
+
+  const polygons = group.flatMap((p) => polygonsOf(p.feature?.geometry));
+  const feature = {
+    ...survivor.feature,
+    geometry: polygons.length === 1 ? { type: "Polygon", coordinates: polygons[0] } : { type: "MultiPolygon", coordinates: polygons },
+  };
+  const neighbors = [
+    ...new Map(group.flatMap((p) => p.neighbors).filter((n) => !groupIds.has(String(n))).map((n) => [String(n), n])).values(),
+  ];
+  const merged = edit(survivor, {
+    name: name ?? survivor.name,
+    feature,
+    center: geoCentroid(feature) as [number, number],
+    neighbors,
+    resources: combineResources(group.map((p) => p.resources)),
+    lastResourceChange: undefined,
+    mergedFrom: [...(survivor.mergedFrom ?? []), ...absorbed.flatMap((p) => [originalOf(p), ...(p.mergedFrom ?? [])])],
+  });
+
+  return provinces.flatMap((p) => {
+    const key = String(p.id);
+    if (key === String(survivor.id)) return [merged];
+    if (absorbedIds.has(key)) return [];
+    if (!p.neighbors.some((n) => absorbedIds.has(String(n)))) return [p];
+    const redirected = p.neighbors.map((n) => (absorbedIds.has(String(n)) ? survivor.id : n));
+    return [edit(p, { neighbors: [...new Map(redirected.map((n) => [String(n), n])).values()] })];
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** What a save or snapshot needs to redraw the edits; empty for an unedited map. */
+export function provinceEdits(provinces: Province[]): ProvinceEdits {
+  const edits: ProvinceEdits = {};
+  for (const p of provinces) {
+    const before = p.original;
+    if (!before) continue;
+    const entry = {
+      ...(p.name !== before.name ? { name: p.name } : {}),
+      ...(p.parentCountryId !== before.parentCountryId ? { parentCountryId: p.parentCountryId } : {}),
+      ...(p.parentCountryName !== before.parentCountryName ? { parentCountryName: p.parentCountryName } : {}),
+      ...(p.mergedFrom?.length ? { mergedFrom: p.mergedFrom.map((m) => String(m.id)) } : {}),
+    };
+    if (Object.keys(entry).length > 0) edits[String(p.id)] = entry;
+  }
+  return edits;
+}
+
+/**
+ * The provinces as they were before any edit. Owners and resources stay as
+ * they are now, except on merged provinces, whose pooled figures go back to
+ * the parts they came from.
+ */
+export function uneditedProvinces(provinces: Province[]): Province[] {
+  if (!provinces.some((p) => p.original)) return provinces;
+  return provinces.flatMap((p) => {
+    if (!p.original) return [p];
+    if (p.mergedFrom) return [p.original, ...p.mergedFrom];
+    return [{ ...p.original, ownerId: p.ownerId, resources: p.resources, lastResourceChange: p.lastResourceChange }];
+  });
+}
+
+/** Replay stored edits on unedited provinces: merges first, then names and countries. */
+export function applyProvinceEdits(provinces: Province[], edits: ProvinceEdits | undefined): Province[] {
+  if (!edits || Object.keys(edits).length === 0) return provinces;
+  let next = provinces;
+  for (const [id, e] of Object.entries(edits)) {
+    if (e.mergedFrom?.length) next = mergeProvinces(next, [id, ...e.mergedFrom]);
+  }
+  return next.map((p) => {
+    const e = edits[String(p.id)];
+    if (!e || (e.name === undefined && e.parentCountryId === undefined && e.parentCountryName === undefined)) return p;
+    return edit(p, {
+      ...(e.name !== undefined ? { name: e.name } : {}),
+      ...(e.parentCountryId !== undefined ? { parentCountryId: e.parentCountryId, isSubNational: true } : {}),
+      ...(e.parentCountryName !== undefined ? { parentCountryName: e.parentCountryName } : {}),
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Nation renames
+// ---------------------------------------------------------------------------
+
+export function renameNationInRelations(relations: DiplomaticRelation[], from: string, to: string): DiplomaticRelation[] {
+  if (from === to) return relations;
+  const rename = (n: string) => (n === from ? to : n);
+  return relations.map((r) =>
+    r.nationA !== from && r.nationB !== from && !r.treaties.some((t) => t.parties.includes(from))
+      ? r
+      : {
+          ...r,
+          nationA: rename(r.nationA),
+          nationB: rename(r.nationB),
+          treaties: r.treaties.map((t) => ({
+            ...t,
+            parties: renameIn(t.parties, from, to),
+            ...(t.brokenBy ? { brokenBy: rename(t.brokenBy) } : {}),
+          })),
+        }
+  );
+}
+
+export function renameNationInThreads(threads: ChatThread[], from: string, to: string): ChatThread[] {
+  if (from === to) return threads;
+  return threads.map((t) =>
+    t.participants.includes(from)
+      ? { ...t, participants: renameIn(t.participants, from, to), name: t.name === from ? to : t.name }
+      : t
+  );
+}
@@ -0,0 +1,233 @@
+import type {
+  ChatThread,
+  DiplomaticRelation,
+  GameEvent,
+  GameState,
+  RelationLedgerEntry,
+  TimelineSnapshot,
+  TimelineState,
+} from "./types";
+import type { LogEntry } from "./game-storage";
+import { applyProvinceEdits, provinceEdits, uneditedProvinces } from "./territory";
+import { restoreLedger } from "./relation-ledger";
+
+// Timeline snapshots form a tree: each snapshot points at the one it continued
+// from, and restoring an older snapshot then playing a turn starts a sibling
+// branch. Snapshots carry enough state to put the whole game back, trimmed so
+// a long campaign with many branches still fits in a save: a snapshot stores
+// only the ledger entries, province owners and nations that changed since its
+// parent, and resolveSnapshot() puts the whole state back together.
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SNAPSHOT_EVENTS = 50;
+const SNAPSHOT_LOGS = 30;
+const SNAPSHOT_CHAT_MESSAGES = 20;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Entries after the last one the parent had, or null when the parent's last entry is not in `ledger`. */
+function ledgerSince(ledger: RelationLedgerEntry[], parentLedger: RelationLedgerEntry[] | undefined): RelationLedgerEntry[] | null {
+  const last = parentLedger?.[parentLedger.length - 1];
+  if (!last) return ledger;
+  const index = ledger.findIndex((e) => e.id === last.id);
+  return index === -1 ? null : ledger.slice(index + 1);
+}
+
+/**
+ * Entries of `record` that are new or differ from the parent's, or null when
+ * the parent has none or some of its entries are gone.
+ */
+function recordSince<T>(record: Record<string, T>, parentRecord: Record<string, T> | undefined): Record<string, T> | null {
+  if (!parentRecord || Object.keys(parentRecord).some((key) => !(key in record))) return null;
+  return Object.fromEntries(
+    Object.entries(record).filter(
+      ([key, value]) => !(key in parentRecord) || JSON.stringify(value) !== JSON.stringify(parentRecord[key])
+    )
+  );
+}
+
+/** `state` without what it stores relative to its parent. */
+function withoutRelative(state: TimelineState): TimelineState {
+  const copy = { ...state };
+  delete copy.relationLedgerSince;
+  delete copy.provinceOwnersSince;
+  delete copy.playersSince;
+  return copy;
+}
+
+/** How a resolved state is stored under `parent` (itself resolved): only what changed since it. */
+function relativeTo(state: TimelineState, parent: TimelineState | null): TimelineState {
+  const { relationLedger, provinceOwners, players, ...rest } = withoutRelative(state);
+  const ledgerSinceParent = relationLedger ? ledgerSince(relationLedger, parent?.relationLedger) : null;
+  const ownersSince = provinceOwners ? recordSince(provinceOwners, parent?.provinceOwners) : null;
+  const playersSince = players ? recordSince(players, parent?.players) : null;
+  // Whatever does not simply continue the parent's is kept whole
+  return {
+    ...rest,
+    ...(ledgerSinceParent ? { relationLedgerSince: ledgerSinceParent } : relationLedger ? { relationLedger } : {}),
+    ...(ownersSince ? { provinceOwnersSince: ownersSince } : provinceOwners ? { provinceOwners } : {}),
+    ...(playersSince ? { playersSince } : players ? { players } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Capture & restore
+// ---------------------------------------------------------------------------
+
+/** Everything a snapshot is taken from; `gameState` should already include the turn's changes. */
+export type TimelineCapture = {
+  gameState: GameState;
+  events: GameEvent[];
+  relations: DiplomaticRelation[];
+  relationLedger: RelationLedgerEntry[];
+  storySoFar: string;
+  logs: LogEntry[];
+  chatThreads: ChatThread[];
+  /** Province id -> owner before the turn, for provinces that changed hands. */
+  ownerChanges?: Record<string, string | null>;
+};
+
+/** The state to store for a new snapshot under `parent`, which should be resolved (see resolveSnapshot). */
+export function captureTimelineState(capture: TimelineCapture, parent: TimelineState | null = null): TimelineState {
+  const { gameState } = capture;
+  const edits = provinceEdits(gameState.provinces);
+  const provinceResources: NonNullable<TimelineState["provinceResources"]> = {};
+  for (const p of gameState.provinces) {
+    if (p.lastResourceChange || p.mergedFrom) {
+      provinceResources[String(p.id)] = { resources: p.resources, lastResourceChange: p.lastResourceChange };
+    }
+  }
+
+  return relativeTo({
+    turn: gameState.turn,
+    date: gameState.date,
+    provinceOwners: Object.fromEntries(gameState.provinces.map((p) => [String(p.id), p.ownerId])),
+    provinceResources,
+    players: gameState.players,
+    events: capture.events.slice(-SNAPSHOT_EVENTS),
+    relations: capture.relations,
+    storySoFar: capture.storySoFar,
+    logs: capture.logs.slice(-SNAPSHOT_LOGS).map((l) => ({ id: l.id, type: l.type, text: l.text })),
+    chatThreads: capture.chatThreads.map((t) => ({ ...t, messages: t.messages.slice(-SNAPSHOT_CHAT_MESSAGES) })),
+    relationLedger: capture.relationLedger,
+    ...(gameState.intel ? { intel: gameState.intel } : {}),
+    ...(capture.ownerChanges ? { ownerChanges: capture.ownerChanges } : {}),
+    ...(Object.keys(edits).length > 0 ? { provinceEdits: edits } : {}),
+  }, parent);
+}
+
+/**
+ * A snapshot's full state, with what it stores relative to its ancestors
+ * (the ledger, province owners and nations) put back together. Null if there
+ * is no such snapshot.
+ */
+export function resolveSnapshot(snapshots: TimelineSnapshot[], snapshotId: string): TimelineState | null {
+  const byId = new Map(snapshots.map((s) => [s.id, s]));
+  const chain: TimelineState[] = [];
+  for (let s = byId.get(snapshotId); s && chain.length < snapshots.length; s = s.parentSnapshotId ? byId.get(s.parentSnapshotId) : undefined) {
+    chain.unshift(s.gameStateSlim);
+  }
+  if (chain.length === 0) return null;
+
+  let ledger: RelationLedgerEntry[] | undefined;
+  let owners: TimelineState["provinceOwners"];
+  let players: TimelineState["players"];
+  for (const state of chain) {
+    if (state.relationLedgerSince) ledger = [...(ledger ?? []), ...state.relationLedgerSince];
+    else if (state.relationLedger) ledger = ledger ? restoreLedger(ledger, state.relationLedger) : state.relationLedger;
+    owners = state.provinceOwnersSince ? { ...owners, ...state.provinceOwnersSince } : state.provinceOwners ?? owners;
+    players = state.playersSince ? { ...players, ...state.playersSince } : state.players ?? players;
+  }
+  return {
+    ...withoutRelative(chain[chain.length - 1]),
+    ...(ledger ? { relationLedger: ledger } : {}),
+    ...(owners ? { provinceOwners: owners } : {}),
+    ...(players ? { players } : {}),
+  };
+}
+
+/**
+ * Put the map, registry, calendar and the player's intelligence back to a
+ * snapshot's state. Borders are redrawn from the unedited map, so a snapshot
+ * from before a merge or transfer gets its old provinces back. `state`
+ * should be resolved (see resolveSnapshot).
+ */
+export function restoreTimelineGameState(current: GameState, state: TimelineState): GameState {
+  const provinces = applyProvinceEdits(uneditedProvinces(current.provinces), state.provinceEdits);
+  return {
+    ...current,
+    turn: state.turn,
+    date: state.date,
+    players: state.players ?? current.players,
+    intel: state.intel ?? current.intel,
+    provinces: provinces.map((p) => {
+      const key = String(p.id);
+      const saved = state.provinceResources?.[key];
+      return {
+        ...p,
+        ownerId: state.provinceOwners && key in state.provinceOwners ? state.provinceOwners[key] : p.ownerId,
+        // Older snapshots did not record resources; leave them as they are
+        ...(state.provinceResources
+          ? { resources: saved?.resources ?? p.resources, lastResourceChange: saved?.lastResourceChange }
+          : {}),
+      };
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tree helpers
+// ---------------------------------------------------------------------------
+
+/** Ids of every snapshot that continues from `snapshotId`, directly or not. */
+export function descendantIds(snapshots: TimelineSnapshot[], snapshotId: string): Set<string> {
+  const result = new Set<string>();
+  let frontier = [snapshotId];
+  while (frontier.length > 0) {
+    const parents = new Set(frontier);
+    frontier = snapshots.filter((s) => s.parentSnapshotId && parents.has(s.parentSnapshotId) && !result.has(s.id)).map((s) => s.id);
+    frontier.forEach((id) => result.add(id));
+  }
+  return result;
+}
+
+/** Snapshots nothing continues from, i.e. the latest point of every branch. */
+export function branchTips(snapshots: TimelineSnapshot[]): TimelineSnapshot[] {
+  const parents = new Set(snapshots.map((s) => s.parentSnapshotId));
+  return snapshots.filter((s) => !parents.has(s.id));
+}
+
+/**
+ * Drop the oldest snapshots until at most `max` remain, never the current head.
+ * Children of a dropped snapshot are re-parented to its parent so branches
+ * stay attached to the tree, and take over what it stored relative to it.
+ */
+export function pruneSnapshots(snapshots: TimelineSnapshot[], headId: string | null, max: number): TimelineSnapshot[] {
+  if (snapshots.length <= max) return snapshots;
+
+  const dropped = new Map<string, string | null>();
+  for (const s of [...snapshots].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (snapshots.length - dropped.size <= max) break;
+    if (s.id !== headId) dropped.set(s.id, s.parentSnapshotId);
+  }
+
+  const survivingParent = (id: string | null): string | null => {
+    while (id && dropped.has(id)) id = dropped.get(id) ?? null;
+    return id;
+  };
+
+  return snapshots
+    .filter((s) => !dropped.has(s.id))
+    .map((s) => {
+      const parentSnapshotId = survivingParent(s.parentSnapshotId);
+      if (parentSnapshotId === s.parentSnapshotId) return s;
+      const state = resolveSnapshot(snapshots, s.id) ?? s.gameStateSlim;
+      const parent = parentSnapshotId ? resolveSnapshot(snapshots, parentSnapshotId) : null;
+      return { ...s, parentSnapshotId, gameStateSlim: relativeTo(state, parent) };
+    });
+}
@@ -0,0 +1,261 @@
+import type { DiplomaticRelation, GameDate, RelationType, Treaty, TreatyType } from "./types";
+import { advanceDate, compareDates, formatGameMonth } from "./calendar";
+import { OPINION_EVENTS, addOpinionModifier, checkTransition, opinionScore, relationShift } from "./opinion";
+
+// Treaties are stored on the relations they bind: a treaty between three
+// nations sits on each of the three pairs under the same id, so expiry and
+// breaches update every copy at once. Ended treaties stay on the relation as
+// history; only active ones are shown to the model. Signing and breaking a
+// treaty leave opinion modifiers on the pairs involved.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A pair a signing could not move all the way to `requested`, and why. */
+export type HeldRelation = {
+  nationA: string;
+  nationB: string;
+  requested: RelationType;
+  type: RelationType;
+  blocked: string;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const TREATY_TYPES: TreatyType[] = ["non_aggression", "trade", "defensive_pact", "vassalage", "ceasefire"];
+
+export const TREATY_LABELS: Record<TreatyType, string> = {
+  non_aggression: "Non-Aggression Pact",
+  trade: "Trade Agreement",
+  defensive_pact: "Defensive Pact",
+  vassalage: "Vassalage",
+  ceasefire: "Ceasefire",
+};
+
+/** Used when a treaty is signed without a duration; null never expires. */
+const DEFAULT_DURATION_MONTHS: Record<TreatyType, number | null> = {
+  non_aggression: 120,
+  trade: 60,
+  defensive_pact: 120,
+  vassalage: null,
+  ceasefire: 6,
+};
+
+/** Relation a treaty puts its parties in when the signing does not say otherwise. */
+const TREATY_RELATION: Record<TreatyType, RelationType | null> = {
+  non_aggression: null,
+  trade: null,
+  defensive_pact: "allied",
+  vassalage: "vassal",
+  ceasefire: "hostile",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const samePair = (r: DiplomaticRelation, a: string, b: string) =>
+  (r.nationA === a && r.nationB === b) || (r.nationA === b && r.nationB === a);
+
+/** Apply `update` to every copy of the given treaties, across all relations. */
+const updateTreaties = (
+  relations: DiplomaticRelation[],
+  ids: Set<string>,
+  update: (t: Treaty) => Treaty
+): DiplomaticRelation[] =>
+  ids.size === 0
+    ? relations
+    : relations.map((r) =>
+        r.treaties.some((t) => ids.has(t.id))
+          ? { ...r, treaties: r.treaties.map((t) => (ids.has(t.id) ? update(t) : t)) }
+          : r
+      );
+
+function uid(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `id-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const isTreatyType = (value: unknown): value is TreatyType => TREATY_TYPES.includes(value as TreatyType);
+
+export function createTreaty(input: {
+  type: TreatyType;
+  parties: string[];
+  startDate: GameDate;
+  name?: string;
+  durationMonths?: number | null;
+  terms?: string;
+}): Treaty {
+  return {
+    id: uid(),
+    type: input.type,
+    name: input.name || TREATY_LABELS[input.type],
+    parties: [...new Set(input.parties)],
+    startDate: input.startDate,
+    durationMonths: input.durationMonths === undefined ? DEFAULT_DURATION_MONTHS[input.type] : input.durationMonths,
+    terms: input.terms ?? "",
+    status: "active",
+  };
+}
+
+/** The date a treaty runs out, or null if it is open-ended. */
+export const treatyEndDate = (treaty: Treaty): GameDate | null =>
+  treaty.durationMonths === null ? null : advanceDate(treaty.startDate, { years: 0, months: treaty.durationMonths, days: 0 });
+
+export const activeTreaties = (relation: DiplomaticRelation | null | undefined): Treaty[] =>
+  relation?.treaties.filter((t) => t.status === "active") ?? [];
+
+/** Every treaty on the given relations once, newest first. */
+export function collectTreaties(relations: DiplomaticRelation[]): Treaty[] {
+  const byId = new Map<string, Treaty>();
+  relations.forEach((r) => r.treaties.forEach((t) => byId.set(t.id, t)));
+  return [...byId.values()].sort((a, b) => compareDates(b.startDate, a.startDate));
+}
+
+/** "Defensive Pact (defensive pact, until Mar 1820)" for prompts. */
+export function describeTreaty(treaty: Treaty): string {
+  const end = treatyEndDate(treaty);
+  const kind = TREATY_LABELS[treaty.type].toLowerCase();
+  const label = treaty.name.toLowerCase() === kind ? treaty.name : `${treaty.name} (${kind})`;
+  return `${label}${end ? `, until ${formatGameMonth(end)}` : ""}`;
+}
+
+/**
+ * Record a treaty on every pair of its parties. Each pair moves toward
+ * `relationType` if given, otherwise toward the relation the treaty type
+ * implies, otherwise keeps its current relation. The move goes through
+ * changeRelation, so with a difficulty it follows the transition rules and
+ * `held` lists the pairs that fell short; the treaty is signed all the same.
+ */
+export function signTreaty(
+  relations: DiplomaticRelation[],
+  treaty: Treaty,
+  date: GameDate,
+  difficulty?: string,
+  relationType?: RelationType | null
+): {
+  relations: DiplomaticRelation[];
+  broken: Treaty[];
+  held: HeldRelation[];
+} {
+  const requested = relationType ?? TREATY_RELATION[treaty.type];
+  let next = relations;
+  const broken: Treaty[] = [];
+  const held: HeldRelation[] = [];
+  treaty.parties.forEach((a, i) => {
+    treaty.parties.slice(i + 1).forEach((b) => {
+      const from = next.find((r) => samePair(r, a, b))?.type ?? "neutral";
+      if (requested && requested !== from) {
+        const change = changeRelation(next, a, b, requested, date, difficulty);
+        next = change.relations;
+        broken.push(...change.broken);
+        if (change.blocked) held.push({ nationA: a, nationB: b, requested, type: change.type, blocked: change.blocked });
+      }
+      const existing = next.find((r) => samePair(r, a, b));
+      next = [
+        ...next.filter((r) => !samePair(r, a, b)),
+        {
+          ...existing,
+          nationA: a,
+          nationB: b,
+          type: existing?.type ?? "neutral",
+          treaties: [...(existing?.treaties.filter((t) => t.id !== treaty.id) ?? []), treaty],
+        },
+      ];
+      next = addOpinionModifier(next, a, b, { key: `signed:${treaty.id}`, label: `Signed the ${treaty.name}`, value: 15 });
+    });
+  });
+  // As they stand once broken, so each names the party that broke it
+  const brokenIds = new Set(broken.map((t) => t.id));
+  return { relations: next, broken: collectTreaties(next).filter((t) => brokenIds.has(t.id)), held };
+}
+
+/** Mark active treaties whose term has run out by `date` as expired. */
+export function expireTreaties(
+  relations: DiplomaticRelation[],
+  date: GameDate
+): { relations: DiplomaticRelation[]; expired: Treaty[] } {
+  const expired = collectTreaties(relations).filter((t) => {
+    const end = treatyEndDate(t);
+    return t.status === "active" && end !== null && compareDates(end, date) <= 0;
+  });
+  return {
+    relations: updateTreaties(relations, new Set(expired.map((t) => t.id)), (t) => ({
+      ...t,
+      status: "expired",
+      endedOn: treatyEndDate(t) ?? date,
+    })),
+    expired,
+  };
+}
+
+/**
+ * `aggressor` has gone to war with `target`: every active treaty both are
+ * party to is broken, for all of its signatories.
+ */
+export function breakTreaties(
+  relations: DiplomaticRelation[],
+  aggressor: string,
+  target: string,
+  date: GameDate
+): { relations: DiplomaticRelation[]; broken: Treaty[] } {
+  const broken = activeTreaties(relations.find((r) => samePair(r, aggressor, target)));
+  let next = updateTreaties(relations, new Set(broken.map((t) => t.id)), (t) => ({
+    ...t,
+    status: "broken",
+    endedOn: date,
+    brokenBy: aggressor,
+  }));
+  // Every other signatory remembers the betrayal
+  for (const t of broken) {
+    for (const party of t.parties.filter((p) => p !== aggressor)) {
+      next = addOpinionModifier(next, aggressor, party, { key: `broken:${t.id}`, label: `Broke the ${t.name}`, value: -40 });
+    }
+  }
+  return { relations: next, broken };
+}
+
+/**
+ * Move a pair toward a new relation, keeping its treaties and opinion. With a
+ * difficulty the move follows its transition rules, so `type` may fall short
+ * of `requested` (`blocked` says why). `nationA` is the side making the
+ * change, so when it declares war it is the one breaking their treaties.
+ */
+export function changeRelation(
+  relations: DiplomaticRelation[],
+  nationA: string,
+  nationB: string,
+  requested: RelationType,
+  date: GameDate,
+  difficulty?: string
+): { relations: DiplomaticRelation[]; broken: Treaty[]; type: RelationType; blocked: string | null } {
+  const existing = relations.find((r) => samePair(r, nationA, nationB));
+  const from = existing?.type ?? "neutral";
+  const { type, blocked } = difficulty
+    ? checkTransition(from, requested, opinionScore(existing), difficulty)
+    : { type: requested, blocked: null };
+
+  let next: DiplomaticRelation[] = [
+    ...relations.filter((r) => !samePair(r, nationA, nationB)),
+    { ...existing, nationA, nationB, type, treaties: existing?.treaties ?? [] },
+  ];
+  // The attempt counts towards opinion even when the rules cut it short
+  const declaresWar = type === "war" && from !== "war";
+  const shift = relationShift(from, requested);
+  if (declaresWar) next = addOpinionModifier(next, nationA, nationB, OPINION_EVENTS.war);
+  else if (shift > 0) next = addOpinionModifier(next, nationA, nationB, OPINION_EVENTS.overture);
+  else if (shift < 0) next = addOpinionModifier(next, nationA, nationB, OPINION_EVENTS.grievance);
+
+  return declaresWar
+    ? { ...breakTreaties(next, nationA, nationB, date), type, blocked }
+    : { relations: next, broken: [], type, blocked };
+}
@@ -1,3 +1,5 @@
+import type { LogEntry } from "./game-storage";
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type GeoFeature = any;
 
@@ -5,6 +7,10 @@ export type Player = {
   id: string;
   name: string;
   color: string;
+  /** Map country this nation was seeded from (an ISO numeric code), or its own id when founded mid-game. */
+  countryId?: string;
+  capital?: string;
+  leader?: string;
 };
 
 export type Province = {
@@ -15,22 +21,58 @@ export type Province = {
   feature: GeoFeature;
   center: [number, number];
   neighbors: (string | number)[];
-  resources: {
-    population: number;
-    defense: number;
-    economy: number;
-    technology: number;
-  };
+  resources: ProvinceResources;
+  /** Most recent GM-driven change to `resources`, shown as a delta in the UI. */
+  lastResourceChange?: ResourceChange;
   parentCountryId?: string;
   parentCountryName?: string;
   isSubNational?: boolean;
+  /** The province as it was before its first rename, transfer or merge; see lib/territory.ts. */
+  original?: Province;
+  /** Provinces merged into this one, as they were before any edit. */
+  mergedFrom?: Province[];
+};
+
+/** A province's renames, transfers and merges, as stored in saves and snapshots. */
+export type ProvinceEdit = {
+  name?: string;
+  parentCountryId?: string;
+  parentCountryName?: string;
+  /** Ids of the provinces merged into this one. */
+  mergedFrom?: string[];
+};
+
+/** Edited provinces by id; provinces missing from it are as the map loaded them. */
+export type ProvinceEdits = Record<string, ProvinceEdit>;
+
+/** Population in millions, economy in billions USD, defense and technology on a 1-10 scale. */
+export type ProvinceResources = {
+  population: number;
+  defense: number;
+  economy: number;
+  technology: number;
+};
+
+export type ResourceKey = keyof ProvinceResources;
+
+export type ResourceChange = {
+  turn: number;
+  deltas: Partial<ProvinceResources>;
 };
 
 export type MapTheme = "classic" | "cyberpunk" | "parchment" | "blueprint";
 
+/** In-game calendar date; month 1-12, day 1-31. See lib/calendar.ts. */
+export type GameDate = {
+  year: number;
+  month: number;
+  day: number;
+};
+
 export type GameEvent = {
   id: string;
   year: number;
+  date?: GameDate;
   description: string;
   type: "diplomacy" | "war" | "discovery" | "flavor" | "economy" | "crisis";
 };
@@ -38,13 +80,77 @@ export type GameEvent = {
 // Diplomatic Relations
 export type RelationType = "neutral" | "friendly" | "allied" | "hostile" | "war" | "vassal";
 
+export type TreatyType = "non_aggression" | "trade" | "defensive_pact" | "vassalage" | "ceasefire";
+
+export type Treaty = {
+  id: string;
+  type: TreatyType;
+  name: string;
+  /** Display names of the signatories. */
+  parties: string[];
+  startDate: GameDate;
+  /** Length in months; null runs until broken. */
+  durationMonths: number | null;
+  terms: string;
+  status: "active" | "expired" | "broken";
+  /** When the treaty expired or was broken. */
+  endedOn?: GameDate;
+  /** Party whose declaration of war broke the treaty. */
+  brokenBy?: string;
+};
+
+/** One contribution to a pair's opinion score; see lib/opinion.ts. */
+export type OpinionModifier = {
+  /** Modifiers with the same key stack into one entry. */
+  key: string;
+  label: string;
+  value: number;
+  /** Recomputed from the map every turn instead of fading with time. */
+  situational?: boolean;
+};
+
 export type DiplomaticRelation = {
   nationA: string;
   nationB: string;
   type: RelationType;
-  treaties: string[];
+  /** Treaties binding this pair; a multilateral treaty sits on every pair of its parties under one id. */
+  treaties: Treaty[];
+  /** Sum to the pair's opinion score; absent on relations from older saves. */
+  opinionModifiers?: OpinionModifier[];
+};
+
+/** Subsystem that changed a relation: the turn's Game Master, a bilateral chat or a conference. */
+export type RelationChangeSource = "turn" | "diplomacy" | "conference";
+
+/** One change of a pair's relation type. */
+export type RelationChangeEntry = {
+  id: string;
+  /** Absent on entries recorded before renames were. */
+  kind?: "relation";
+  nationA: string;
+  nationB: string;
+  from: RelationType;
+  to: RelationType;
+  date: GameDate;
+  /** The Game Master's or leader's stated reason, or the treaty that moved the pair. */
+  cause: string;
+  source: RelationChangeSource;
+  /** The player's chat message that prompted the change, for diplomacy and conferences. */
+  message?: string;
 };
 
+/** A nation taking a new name; entries before it keep the name they were written with. */
+export type NationRenameEntry = {
+  id: string;
+  kind: "rename";
+  from: string;
+  to: string;
+  date: GameDate;
+};
+
+/** The ledger is append-only. See lib/relation-ledger.ts. */
+export type RelationLedgerEntry = RelationChangeEntry | NationRenameEntry;
+
 // Chat System
 export type ChatMessage = {
   id: string;
@@ -53,7 +159,30 @@ export type ChatMessage = {
   content: string;
   timestamp: number;
   turnYear: number;
+  date?: GameDate;
   tone?: "friendly" | "neutral" | "hostile" | "threatening";
+  /** Conference replies: what the speaker is really after at the table. */
+  agenda?: string;
+  /** Set on messages a foreign leader sent unprompted that ask for an answer. */
+  proposal?: DiplomaticProposal;
+};
+
+export type ProposalKind = "ultimatum" | "trade" | "alliance" | "peace" | "other";
+
+export type DiplomaticProposal = {
+  kind: ProposalKind;
+  /** What the player is agreeing to, phrased so it can be queued as an order. */
+  summary: string;
+  /** Answered proposals are queued as orders and settled by the next turn. */
+  status: "pending" | "accepted" | "rejected";
+};
+
+/** A message a foreign leader sends during turn resolution, before it is filed into a thread. */
+export type ForeignMessage = {
+  nation: string;
+  content: string;
+  tone: NonNullable<ChatMessage["tone"]>;
+  proposal?: Pick<DiplomaticProposal, "kind" | "summary">;
 };
 
 export type ChatThread = {
@@ -65,6 +194,37 @@ export type ChatThread = {
   unreadCount: number;
 };
 
+// Orders
+export type OrderPriority = "high" | "normal" | "low";
+
+export type OrderCategory = "military" | "diplomacy" | "economy" | "domestic" | "espionage" | "general";
+
+/** A province or nation picked from the map for an order to act on. */
+export type OrderTarget = {
+  kind: "province" | "nation";
+  id: string;
+  name: string;
+};
+
+/** An order queued for the next turn; orders run in queue order. See lib/orders.ts. */
+export type Order = {
+  id: string;
+  text: string;
+  priority: OrderPriority;
+  category: OrderCategory;
+  target?: OrderTarget;
+};
+
+export type OrderStatus = "succeeded" | "partial" | "failed";
+
+/** The Game Master's verdict on one order of a turn. */
+export type OrderOutcome = {
+  /** 1-based position of the order in the turn's ORDERS list. */
+  order: number;
+  status: OrderStatus;
+  summary: string;
+};
+
 // Presets
 export type Preset = {
   id: string;
@@ -74,42 +234,121 @@ export type Preset = {
   scenario: string;
   difficulty: "Sandbox" | "Easy" | "Realistic" | "Hardcore" | "Impossible";
   suggestedNations: string[];
+  /** Rulers at the start, keyed by map country name. */
+  leaders?: Record<string, string>;
   category: "historical" | "modern" | "alternate" | "fictional";
   icon: string;
 };
 
 // Timeline / Rewind
+/**
+ * World state right after a turn resolved. Fields after `relations` were added
+ * with timeline branching; snapshots recorded before that only restore the map.
+ */
+export type TimelineState = {
+  turn: number;
+  date?: GameDate;
+  /** Every province's owner. Stored on snapshots without a parent; see provinceOwnersSince. */
+  provinceOwners?: Record<string, string | null>;
+  /** Owners that differ from the parent snapshot's. See resolveSnapshot. */
+  provinceOwnersSince?: Record<string, string | null>;
+  events: GameEvent[];
+  relations: DiplomaticRelation[];
+  /** Only provinces whose resources the GM has changed. */
+  provinceResources?: Record<string, { resources: ProvinceResources; lastResourceChange?: ResourceChange }>;
+  players?: Record<string, Player>;
+  /** Nations founded or changed since the parent snapshot, when none were removed. */
+  playersSince?: Record<string, Player>;
+  storySoFar?: string;
+  logs?: LogEntry[];
+  chatThreads?: ChatThread[];
+  /**
+   * Ledger entries added since the parent snapshot; the ledger at this point
+   * is its ancestors' entries followed by these. See resolveSnapshot.
+   */
+  relationLedgerSince?: RelationLedgerEntry[];
+  /**
+   * Snapshots from before the ledger was stored whole: its newest entries,
+   * with older ones kept from the live ledger on restore. Also the whole
+   * ledger, once resolved.
+   */
+  relationLedger?: RelationLedgerEntry[];
+  intel?: IntelState;
+  /** Previous owner of every province that changed hands on this turn. */
+  ownerChanges?: Record<string, string | null>;
+  /** Renamed, transferred and merged provinces; absent when the map is unedited. */
+  provinceEdits?: ProvinceEdits;
+};
+
 export type TimelineSnapshot = {
   id: string;
   turnYear: number;
+  date?: GameDate;
   timestamp: number;
   description: string;
   command: string;
-  gameStateSlim: {
-    turn: number;
-    provinceOwners: Record<string, string | null>;
-    events: GameEvent[];
-    relations: DiplomaticRelation[];
-  };
+  gameStateSlim: TimelineState;
+  /** Snapshot this one continues from; siblings sharing a parent are divergent branches. */
   parentSnapshotId: string | null;
 };
 
 // Advisor
+export type MinisterId = "war" | "foreign" | "treasury" | "interior" | "spymaster";
+
+/** Who the ruler is speaking to: the Grand Advisor, one minister, or the whole council. */
+export type AdvisorAddressee = "advisor" | "council" | MinisterId;
+
+export type CouncilStatement = {
+  minister: MinisterId;
+  position: string;
+};
+
 export type AdvisorMessage = {
   id: string;
   role: "user" | "advisor";
+  /** For council replies, the recommended consensus. */
   content: string;
   timestamp: number;
   category?: "military" | "diplomacy" | "economy" | "domestic" | "general";
+  /** Missing on messages from before the council; treated as the Grand Advisor. */
+  addressee?: AdvisorAddressee;
+  /** Each minister's position, in speaking order (council replies only). */
+  debate?: CouncilStatement[];
+  /** Posted automatically after a turn rather than in answer to the ruler. */
+  briefing?: boolean;
+  /** Not yet seen by the player; drives the badge on the closed advisor button. */
+  unread?: boolean;
+  /** Concrete orders the advisor proposed; the player can queue them directly. */
+  suggestedActions?: string[];
+};
+
+// Fog of war
+/** What the player last learned about a province that has since changed out of sight. */
+export type IntelReport = {
+  ownerId: string | null;
+  resources: ProvinceResources;
+  /** When the report was last accurate. */
+  date: GameDate;
+};
+
+/** The player's knowledge of foreign provinces; only kept when fog of war is on. See lib/intelligence.ts. */
+export type IntelState = {
+  /** Keyed by province id; provinces without a report are known as they are. */
+  reports: Record<string, IntelReport>;
+  /** Nation id -> date the player's spy network there stops reporting. */
+  networks: Record<string, GameDate>;
 };
 
 // Enhanced GameState
 export type GameState = {
+  /** Current year; kept in sync with `date.year`. */
   turn: number;
+  date?: GameDate;
   players: Record<string, Player>;
   provinces: Province[];
   selectedProvinceId: string | number | null;
   theme: MapTheme;
+  intel?: IntelState;
   events?: GameEvent[];
   relations?: DiplomaticRelation[];
   chatThreads?: ChatThread[];
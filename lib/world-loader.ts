@@ -1,6 +1,13 @@
 import * as topojson from "topojson-client";
 import { geoCentroid } from "d3-geo";
 import { Province } from "./types";
+import {
+  BUILT_IN_MAP_PACKS,
+  BuiltInMapPack,
+  DEFAULT_MAP_PACK_ID,
+  MapPackSource,
+  isUploadedMapPack,
+} from "./map-packs";
 
 // ISO 3166-1 numeric code mapping for all countries in world-50m.json
 const COUNTRY_NAMES: Record<string, string> = {
@@ -670,81 +677,115 @@ function countryColor(isoCode: string): string {
   return `hsl(${Math.round(hue)}, 35%, 28%)`;
 }
 
-export async function loadWorldData(): Promise<Province[]> {
-  try {
-    const response = await fetch("/provinces-combined.json");
-    if (!response.ok) throw new Error("Failed to load map data");
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const topology: any = await response.json();
-
-    const provincesObject = topology.objects.provinces;
-
-    // Compute neighbor adjacency from the combined topology
-    const neighborIndices = topojson.neighbors(provincesObject.geometries);
-
-    // Convert topology to GeoJSON FeatureCollection
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const geojson = topojson.feature(topology, provincesObject) as any;
-
-    // Build mapping from geometry index to province id
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const idByIndex: string[] = provincesObject.geometries.map((g: any) => {
-      return g.properties?.provinceId || "";
-    });
-
-    const allIds = new Set(idByIndex.filter(Boolean));
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const provinces: Province[] = geojson.features.map((feature: any, index: number) => {
-      const props = feature.properties || {};
-      const id = props.provinceId || String(index);
-      const name = props.displayName || `Region ${id}`;
-      const color = props.color || countryColor(props.parentCountryId || id);
-
-      // Compute centroid using d3-geo
-      let center: [number, number] = [0, 0];
-      try {
-        const centroid = geoCentroid(feature);
-        if (centroid && isFinite(centroid[0]) && isFinite(centroid[1])) {
-          center = centroid as [number, number];
-        }
-      } catch {
-        // Some degenerate geometries may fail; keep [0,0]
-      }
+/** True when a [lon, lat] point lies inside a [west, south, east, north] box. */
+const inBounds = ([lon, lat]: [number, number], [west, south, east, north]: [number, number, number, number]) =>
+  lon >= west && lon <= east && lat >= south && lat <= north;
 
-      // Resolve neighbor ids from precomputed topology
-      const neighborIds: string[] = [];
-      const rawNeighborIndices = neighborIndices[index] || [];
-      for (const ni of rawNeighborIndices) {
-        const nId = idByIndex[ni];
-        if (nId && allIds.has(nId)) {
-          neighborIds.push(nId);
-        }
+/**
+ * Build provinces from a map pack's topology, applying its nation names,
+ * colors and resource overrides, and cropping built-in packs to their bounds.
+ */
+export function provincesFromTopology(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  topology: any,
+  pack: Partial<Pick<BuiltInMapPack, "bounds" | "nations" | "provinces">> = {}
+): Province[] {
+  const provincesObject = topology.objects.provinces;
+  const nations = new Map((pack.nations ?? []).map((n) => [n.id, n]));
+
+  // Compute neighbor adjacency from the combined topology
+  const neighborIndices = topojson.neighbors(provincesObject.geometries);
+
+  // Convert topology to GeoJSON FeatureCollection
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const geojson = topojson.feature(topology, provincesObject) as any;
+
+  // Build mapping from geometry index to province id
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const idByIndex: string[] = provincesObject.geometries.map((g: any) => {
+    const id = g.properties?.provinceId;
+    return id === undefined || id === null ? "" : String(id);
+  });
+
+  const allIds = new Set(idByIndex.filter(Boolean));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const provinces: Province[] = geojson.features.map((feature: any, index: number) => {
+    const props = feature.properties || {};
+    const id = idByIndex[index] || String(index);
+    const countryId = props.parentCountryId === undefined ? undefined : String(props.parentCountryId);
+    const nation = nations.get(countryId ?? id);
+    // A whole-country province takes the name the pack gives its nation
+    const name = (nation && !props.isSubNational ? nation.name : props.displayName) || `Region ${id}`;
+    const override = pack.provinces?.[id];
+    const color = override?.color || nation?.color || props.color || countryColor(countryId || id);
+
+    // Compute centroid using d3-geo
+    let center: [number, number] = [0, 0];
+    try {
+      const centroid = geoCentroid(feature);
+      if (centroid && isFinite(centroid[0]) && isFinite(centroid[1])) {
+        center = centroid as [number, number];
       }
-      const uniqueNeighborIds = [...new Set(neighborIds)];
-
-      return {
-        id,
-        name,
-        ownerId: null,
-        color,
-        feature,
-        center,
-        neighbors: uniqueNeighborIds,
-        resources: {
-          population: props.population ?? 2,
-          defense: props.defense ?? 2,
-          economy: props.economy ?? 10,
-          technology: props.technology ?? 3,
-        },
-        parentCountryId: props.parentCountryId,
-        parentCountryName: props.parentCountryName,
-        isSubNational: props.isSubNational ?? false,
-      };
-    });
-
-    return provinces;
+    } catch {
+      // Some degenerate geometries may fail; keep [0,0]
+    }
+
+    // Resolve neighbor ids from precomputed topology
+    const neighborIds: string[] = [];
+    const rawNeighborIndices = neighborIndices[index] || [];
+    for (const ni of rawNeighborIndices) {
+      const nId = idByIndex[ni];
+      if (nId && allIds.has(nId)) {
+        neighborIds.push(nId);
+      }
+    }
+    const uniqueNeighborIds = [...new Set(neighborIds)];
+
+    return {
+      id,
+      name,
+      ownerId: null,
+      color,
+      feature,
+      center,
+      neighbors: uniqueNeighborIds,
+      resources: {
+        population: props.population ?? 2,
+        defense: props.defense ?? 2,
+        economy: props.economy ?? 10,
+        technology: props.technology ?? 3,
+        ...override?.resources,
+      },
+      parentCountryId: countryId,
+      parentCountryName: countryId && nation ? nation.name : props.parentCountryName,
+      isSubNational: props.isSubNational ?? false,
+    };
+  });
+
+  if (!pack.bounds) return provinces;
+
+  // Crop, and drop neighbors that fell outside the box
+  const bounds = pack.bounds;
+  const kept = provinces.filter((p) => inBounds(p.center, bounds));
+  const keptIds = new Set(kept.map((p) => String(p.id)));
+  return kept.map((p) => ({ ...p, neighbors: p.neighbors.filter((n) => keptIds.has(String(n))) }));
+}
+
+export async function loadWorldData(
+  pack: MapPackSource = BUILT_IN_MAP_PACKS[DEFAULT_MAP_PACK_ID]
+): Promise<Province[]> {
+  try {
+    let topology: unknown;
+    if (isUploadedMapPack(pack)) {
+      topology = pack.topology;
+    } else {
+      const response = await fetch(pack.url);
+      if (!response.ok) throw new Error("Failed to load map data");
+      topology = await response.json();
+    }
+
+    return provincesFromTopology(topology, pack);
   } catch (error) {
     console.error("Map loading error:", error);
     return [];
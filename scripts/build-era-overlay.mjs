@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+/**
+ * build-era-overlay.mjs
+ *
+ * Builds an era overlay (public/eras/<year>.json) from a historical borders
+ * GeoJSON: every province of public/provinces-combined.json goes to the source
+ * polygon that covers most of it, and polygons sharing a name become one era
+ * nation. Provinces no polygon covers are left out, which the game shows as
+ * unclaimed land.
+ *
+ * An existing overlay for the year keeps its label, source, and the color,
+ * capital and leader of every nation that still appears, so hand edits survive
+ * a rebuild.
+ *
+ * Usage:
+ *   node scripts/build-era-overlay.mjs --year 1492 [--source <url or path>]
+ *     [--name-property NAME] [--label "Age of Exploration"]
+ *
+ * The default source is the historical-basemaps world map for the year:
+ *   https://github.com/aourednik/historical-basemaps
+ * Output: public/eras/<year>.json (add the year to ERA_OVERLAY_YEARS in
+ * lib/era-borders.ts for a new overlay)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import * as topojsonClient from "topojson-client";
+import { geoArea, geoCentroid, geoContains } from "d3-geo";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CACHE_DIR = path.join(__dirname, ".cache");
+const PUBLIC_DIR = path.join(__dirname, "..", "public");
+
+const BASEMAPS_URL = (year) =>
+  `https://raw.githubusercontent.com/aourednik/historical-basemaps/master/geojson/world_${year}.geojson`;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+async function readSource(source, cachePath) {
+  if (!/^https?:\/\//.test(source)) return JSON.parse(fs.readFileSync(source, "utf8"));
+  if (fs.existsSync(cachePath)) {
+    console.log(`  Using cached: ${path.basename(cachePath)}`);
+    return JSON.parse(fs.readFileSync(cachePath, "utf8"));
+  }
+  console.log(`  Downloading: ${source}`);
+  const resp = await fetch(source);
+  if (!resp.ok) throw new Error(`HTTP ${resp.status} for ${source}`);
+  const text = await resp.text();
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  fs.writeFileSync(cachePath, text);
+  return JSON.parse(text);
+}
+
+const slug = (name) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+/** A stable, readable color for a nation name. */
+function colorFor(name) {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  const hue = hash % 360;
+  const sat = 45 + (hash >> 9) % 25;
+  const light = 38 + (hash >> 17) % 14;
+  const a = (sat / 100) * Math.min(light / 100, 1 - light / 100);
+  const channel = (n) => {
+    const k = (n + hue / 30) % 12;
+    const c = light / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/**
+ * d3-geo reads rings clockwise; sources wound the other way describe the rest
+ * of the globe, so flip any polygon larger than a hemisphere.
+ */
+function rewind(feature) {
+  if (geoArea(feature) <= 2 * Math.PI) return feature;
+  const flip = (polygon) => polygon.map((ring) => [...ring].reverse());
+  const geom = feature.geometry;
+  const coordinates = geom.type === "Polygon" ? flip(geom.coordinates) : geom.coordinates.map(flip);
+  return { ...feature, geometry: { ...geom, coordinates } };
+}
+
+/** Each polygon of a province as its own feature, so islands and exclaves vote separately. */
+function polygonParts(feature) {
+  const geom = feature.geometry;
+  if (!geom) return [];
+  const polygons = geom.type === "Polygon" ? [geom.coordinates] : geom.type === "MultiPolygon" ? geom.coordinates : [];
+  return polygons.map((coordinates) => ({ type: "Feature", geometry: { type: "Polygon", coordinates } }));
+}
+
+// ── Main ───────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const year = Number(args.year);
+  if (!Number.isInteger(year)) {
+    console.error("Usage: node scripts/build-era-overlay.mjs --year <year> [--source <url or path>] [--name-property NAME] [--label <label>]");
+    process.exit(1);
+  }
+  const source = args.source || BASEMAPS_URL(year);
+  const nameProperty = args["name-property"] || "NAME";
+  const outPath = path.join(PUBLIC_DIR, "eras", `${year}.json`);
+  const previous = fs.existsSync(outPath) ? JSON.parse(fs.readFileSync(outPath, "utf8")) : null;
+
+  console.log(`=== Building era overlay for ${year} ===\n`);
+
+  // 1. Load the game's provinces
+  console.log("Step 1: Loading provinces...");
+  const provincesTopo = JSON.parse(fs.readFileSync(path.join(PUBLIC_DIR, "provinces-combined.json"), "utf8"));
+  const provinces = topojsonClient.feature(provincesTopo, provincesTopo.objects.provinces).features;
+  console.log(`  ${provinces.length} provinces`);
+
+  // 2. Load the historical borders
+  console.log("Step 2: Loading historical borders...");
+  const raw = await readSource(source, path.join(CACHE_DIR, `era_${year}.geojson`));
+  const states = (raw.type === "Topology" ? topojsonClient.feature(raw, Object.values(raw.objects)[0]) : raw).features
+    .filter((f) => f.geometry && /Polygon$/.test(f.geometry.type))
+    .map((f) => ({ feature: rewind(f), name: String(f.properties?.[nameProperty] ?? "").trim() }))
+    .filter((s) => s.name);
+  console.log(`  ${states.length} named polygons`);
+
+  // 3. Give each province to the state covering most of its area
+  console.log("Step 3: Assigning provinces...");
+  const nations = new Map();
+  let unclaimed = 0;
+  for (const province of provinces) {
+    const votes = new Map();
+    for (const part of polygonParts(province)) {
+      const center = geoCentroid(part);
+      const state = states.find((s) => geoContains(s.feature, center));
+      if (state) votes.set(state.name, (votes.get(state.name) || 0) + geoArea(part));
+    }
+    const winner = [...votes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (!winner) {
+      unclaimed++;
+      continue;
+    }
+    if (!nations.has(winner)) nations.set(winner, []);
+    nations.get(winner).push(String(province.properties.provinceId));
+  }
+
+  // 4. Write the overlay, keeping hand-edited details
+  const kept = new Map((previous?.nations || []).map((n) => [n.name, n]));
+  const overlay = {
+    year,
+    label: args.label || previous?.label || `The world in ${year}`,
+    source: previous?.source || source,
+    nations: [...nations.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([name, ids]) => {
+        const old = kept.get(name);
+        return {
+          id: old?.id || slug(name),
+          name,
+          color: old?.color || colorFor(name),
+          ...(old?.capital ? { capital: old.capital } : {}),
+          ...(old?.leader ? { leader: old.leader } : {}),
+          provinces: ids,
+        };
+      }),
+  };
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(overlay, null, 2) + "\n");
+
+  console.log(`\n✓ ${overlay.nations.length} nations, ${unclaimed} unclaimed provinces`);
+  console.log(`✓ Output: ${outPath}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});